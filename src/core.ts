@@ -4,6 +4,8 @@
  * @category Api docs
  */
 
+import { decodeError, type DecodeError } from './utils/decode-error';
+import type { DecoderDescriptor } from './utils/decoder-descriptor';
 import * as Result from './utils/result';
 import type { StandardSchemaV1 } from './utils/standard-schema-v1';
 
@@ -24,9 +26,96 @@ import type { StandardSchemaV1 } from './utils/standard-schema-v1';
  * type User = JsonDecoder.FromDecoder<typeof userDecoder>;
  * ```
  *
- * @typeParam D - A JsonDecoder.Decoder type
+ * @typeParam D - A JsonDecoder.Decoder or JsonDecoder.AsyncDecoder type
  */
-export type FromDecoder<D> = D extends Decoder<infer T> ? T : never;
+export type FromDecoder<D> =
+  D extends Decoder<infer T> ? T : D extends AsyncDecoder<infer T> ? T : never;
+
+declare const brandKey: unique symbol;
+
+/**
+ * Makes a type nominal: `string & Brand<'Email'>` is a string, but a plain string is not an `Email`.
+ * The brand only exists in the types, and since its key is not exported,
+ * branded values can only be obtained from a decoder built with {@link Decoder.brand}, or with a cast.
+ *
+ * @example
+ * ```typescript
+ * type Email = string & JsonDecoder.Brand<'Email'>;
+ *
+ * const sendTo = (email: Email) => {};
+ * sendTo('not checked'); // Type error
+ * sendTo(JsonDecoder.string({ format: 'email' }).brand<'Email'>().parse(json)); // Ok
+ * ```
+ *
+ * @typeParam B - The name of the brand
+ */
+export type Brand<B extends string> = { readonly [brandKey]: B };
+
+/**
+ * Options that apply to a whole decoding operation.
+ * They are passed down from the decoder `decode` is called on to all of its inner decoders.
+ *
+ * @example
+ * ```typescript
+ * const userDecoder = JsonDecoder.object(
+ *   { name: JsonDecoder.string(), age: JsonDecoder.number() },
+ *   'User'
+ * );
+ *
+ * // Fail fast (default): only the first failing key is reported
+ * userDecoder.decode({ name: 1, age: '2' });
+ * // Collect all errors: every failing key is reported
+ * userDecoder.decode({ name: 1, age: '2' }, { allErrors: true });
+ * ```
+ */
+export interface DecodeOptions {
+  /**
+   * When `true`, `object`, `objectStrict`, `array`, `record`, `tuple` and `allOf` decoders
+   * keep decoding after a failure and report every failure as a cause of their error.
+   * When `false` (the default), decoding stops at the first failure.
+   */
+  readonly allErrors?: boolean;
+}
+
+/**
+ * The part of an `AbortSignal` that async decoders use, so that the signals of browsers, Node.js and polyfills all fit.
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  readonly reason?: unknown;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * Options that apply to a whole async decoding operation, see {@link AsyncDecoder}.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * signupDecoder.decode(json, { signal: controller.signal, concurrency: 4 });
+ * ```
+ */
+export interface AsyncDecodeOptions extends DecodeOptions {
+  /**
+   * Cancels the decoding: `decode` rejects with the reason of the signal,
+   * and the signal is given to the async checks so that they can cancel their own work.
+   */
+  readonly signal?: AbortSignalLike;
+  /**
+   * The maximum number of async checks (`refineAsync` and `flatMapAsync` functions) that run at the same time
+   * during the decoding. Defaults to no limit.
+   */
+  readonly concurrency?: number;
+}
+
+/**
+ * What the functions of `refineAsync` and `flatMapAsync` receive besides the decoded value.
+ */
+export interface AsyncCheckContext {
+  /** The signal of the decoding, to pass to `fetch` or to the repository layer. */
+  readonly signal?: AbortSignalLike;
+}
 
 /**
  * A decoder that can validate and transform JSON data into strongly typed TypeScript values.
@@ -53,14 +142,30 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
   /**
    * Creates a new decoder that can validate and transform JSON data into strongly typed TypeScript values.
    *
-   * @param decodeFn - A function that takes a JSON object and returns a Result<T>
+   * @param decodeFn - A function that takes a JSON object and the decode options, and returns a Result<T>.
+   * Decoders that delegate to inner decoders must pass the options along.
+   * @param descriptor - Describes how the decoder was built. Defaults to an opaque `custom` decoder.
    * @category Constructor
    */
-  constructor(private decodeFn: (json: any) => Result.Result<T>) {}
+  constructor(
+    private decodeFn: (json: any, options: DecodeOptions) => Result.Result<T>,
+    /**
+     * Describes how the decoder was built, so that tools can inspect it.
+     * See `DecoderDescriptor`, `decoderChildren` and `walkDecoder`.
+     *
+     * @example
+     * ```ts
+     * JsonDecoder.array(JsonDecoder.string(), 'Tags').descriptor;
+     * // { kind: 'array', decoderName: 'Tags', element: <the string decoder> }
+     * ```
+     */
+    readonly descriptor: DecoderDescriptor = { kind: 'custom' }
+  ) {}
 
   /**
    * Parses a JSON object of type <T> and returns the decoded value or throws an error
    * @param json The JSON object to decode
+   * @param options The decode options
    * @returns The decoded value of type T
    * @throws {string} Throws the error message if decoding fails
    * @category Entry Point
@@ -71,35 +176,48 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
    * JsonDecoder.string().parse(123); // throws '123 is not a valid string'
    * ```
    */
-  parse(json: any): T {
-    const result = this.decode(json);
+  parse(json: any, options?: DecodeOptions): T {
+    const result = this.decode(json, options);
     if (result.isOk()) {
       return result.value;
     } else {
-      throw result.error;
+      throw result.error.message;
     }
   }
 
   /**
    * Decodes a JSON object of type <T> and returns a Result<T>
    * @param json The JSON object to decode
-   * @returns A Result containing either the decoded value or an error message
+   * @param options The decode options
+   * @returns A Result containing either the decoded value or a DecodeError
    * @category Entry Point
    *
    * @example
    * ```ts
    * JsonDecoder.string().decode('hi'); // Ok<string>({value: 'hi'})
-   * JsonDecoder.string().decode(5); // Err({error: '5 is not a valid string'})
+   * JsonDecoder.string().decode(5); // Err({error: {kind: 'primitive', message: '5 is not a valid string', ...}})
    * ```
    */
-  decode(json: any): Result.Result<T> {
-    return this.decodeFn(json);
+  decode(json: any, options: DecodeOptions = {}): Result.Result<T> {
+    return this.decodeFn(json, options);
   }
 
   /**
    * The Standard Schema interface for this decoder.
+   *
+   * Failures are reported as one issue per failing value, with the `path`
+   * of keys and indexes that leads to it.
+   *
    * @see [Standard Schema](https://standardschema.dev)
    * @category Entry Point
+   *
+   * @example
+   * ```ts
+   * const userDecoder = JsonDecoder.object({ email: JsonDecoder.string() }, 'User');
+   * const usersDecoder = JsonDecoder.object({ users: JsonDecoder.array(userDecoder, 'User[]') }, 'Users');
+   * usersDecoder['~standard'].validate({ users: [{ email: 1 }] });
+   * // { issues: [{ message: '1 is not a valid string', path: ['users', 0, 'email'] }] }
+   * ```
    */
   '~standard': StandardSchemaV1.Props<unknown, T> = {
     version: 1 as const,
@@ -109,7 +227,7 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
       if (result.isOk()) {
         return { value: result.value };
       } else {
-        return { issues: [{ message: result.error }] };
+        return { issues: toStandardIssues(result.error) };
       }
     }
   };
@@ -117,6 +235,7 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
   /**
    * Decodes a JSON object of type <T> and returns a Promise<T>
    * @param json The JSON object to decode
+   * @param options The decode options
    * @returns A Promise that resolves with the decoded value or rejects with an error message
    * @category Entry Point
    *
@@ -126,13 +245,13 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
    * JsonDecoder.string().decodePromise(2).catch(err => console.log(err)); // '2 is not a valid string'
    * ```
    */
-  decodePromise(json: any): Promise<T> {
+  decodePromise(json: any, options?: DecodeOptions): Promise<T> {
     return new Promise((resolve, reject) => {
-      const result = this.decode(json);
+      const result = this.decode(json, options);
       if (result.isOk()) {
         return resolve(result.value);
       } else {
-        return reject(result.error);
+        return reject(result.error.message);
       }
     });
   }
@@ -163,14 +282,17 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
    * ```
    */
   map<O>(fn: (value: T) => O): Decoder<O> {
-    return new Decoder<O>((json: any) => {
-      const result = this.decodeFn(json);
-      if (result.isOk()) {
-        return Result.ok(fn(result.value));
-      } else {
-        return Result.err(result.error);
-      }
-    });
+    return new Decoder<O>(
+      (json: any, options) => {
+        const result = this.decodeFn(json, options);
+        if (result.isOk()) {
+          return Result.ok(fn(result.value));
+        } else {
+          return Result.err(result.error);
+        }
+      },
+      { kind: 'map', decoder: this }
+    );
   }
 
   /**
@@ -191,14 +313,87 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
    * ```
    */
   flatMap<O>(fn: (value: T) => Decoder<O>): Decoder<O> {
-    return new Decoder<O>((json: any) => {
-      const result = this.decodeFn(json);
-      if (result.isOk()) {
-        return fn(result.value).decode(json);
-      } else {
-        return Result.err(result.error);
-      }
-    });
+    return new Decoder<O>(
+      (json: any, options) => {
+        const result = this.decodeFn(json, options);
+        if (result.isOk()) {
+          return fn(result.value).decode(json, options);
+        } else {
+          return Result.err(result.error);
+        }
+      },
+      { kind: 'flat-map', decoder: this }
+    );
+  }
+
+  /**
+   * Brands the decoded type, so that values of the branded type can only come from a successful decoding.
+   * Combine it with constraints or `flatMap` to brand only the values that were checked.
+   * The decoder itself is unchanged: it is the same decoder, typed as returning branded values.
+   * @typeParam B - The name of the brand
+   * @returns This decoder, typed as a decoder of `T & Brand<B>`
+   * @category Transformation
+   *
+   * @example
+   * ```ts
+   * const emailDecoder = JsonDecoder.string({ format: 'email' }).brand<'Email'>();
+   * type Email = JsonDecoder.FromDecoder<typeof emailDecoder>; // string & Brand<'Email'>
+   *
+   * const centsDecoder = JsonDecoder.number({ integer: true, nonNegative: true }).brand<'Cents'>();
+   * ```
+   */
+  brand<B extends string>(): Decoder<T & Brand<B>> {
+    return this as unknown as Decoder<T & Brand<B>>;
+  }
+
+  /**
+   * If the decoder has succeeded, checks the decoded value with an async function,
+   * e.g. that a username is not taken yet.
+   * @param check The async function that tells whether the value is valid. If it rejects, decoding rejects too
+   * @param message The error message when the value is not valid
+   * @returns An async decoder that fails with a `custom` error when the check returns `false`
+   * @category Transformation
+   *
+   * @example
+   * ```ts
+   * const usernameDecoder = JsonDecoder.string({ minLength: 3 }).refineAsync(
+   *   async (username, { signal }) => !(await users.exists(username, { signal })),
+   *   username => `${username} is already taken`
+   * );
+   * await usernameDecoder.decode('ada'); // Err({error: 'ada is already taken'})
+   * ```
+   */
+  refineAsync(
+    check: (value: T, context: AsyncCheckContext) => Promise<boolean>,
+    message: string | ((value: T) => string)
+  ): AsyncDecoder<T> {
+    return toAsync(this).refineAsync(check, message);
+  }
+
+  /**
+   * Like `flatMap`, but the function that returns the next decoder is async,
+   * e.g. to look up a referenced entity.
+   * @param fn The async function that returns the decoder to decode the same JSON with
+   * @returns An async decoder that chains the current decoder with the decoder returned by fn
+   * @category Transformation
+   *
+   * @example
+   * ```ts
+   * const authorDecoder = JsonDecoder.number().flatMapAsync(async (id, { signal }) => {
+   *   const author = await authors.find(id, { signal });
+   *   return author === undefined
+   *     ? JsonDecoder.fail(`Author ${id} doesn't exist`)
+   *     : JsonDecoder.constant(author);
+   * });
+   * ```
+   */
+  flatMapAsync<O>(
+    fn: (
+      value: T,
+      context: AsyncCheckContext
+    ) => Promise<Decoder<O> | AsyncDecoder<O>>
+  ): AsyncDecoder<O> {
+    return toAsync(this).flatMapAsync(fn);
   }
 
   /* v8 ignore start */
@@ -210,3 +405,421 @@ export class Decoder<T> implements StandardSchemaV1<unknown, T> {
   chain = this.flatMap;
   /* v8 ignore stop */
 }
+
+/**
+ * A decoder that can also encode decoded values back into JSON.
+ *
+ * Most built-in decoders are codecs: `string`, `number`, `boolean`, `null`, `undefined`,
+ * `literal`, `enumeration`, and `object`, `objectStrict`, `array`, `record`, `tuple`,
+ * `optional`, `nullable`, `oneOf` and `discriminatedUnion` as long as their inner decoders are codecs.
+ * Encoding reverses the decoding, including `fromKey` mappings, so that
+ * `codec.decode(codec.encode(value))` gives `value` back.
+ *
+ * @example
+ * ```ts
+ * const userCodec = JsonDecoder.object(
+ *   {
+ *     firstName: { fromKey: 'first_name', decoder: JsonDecoder.string() },
+ *     birthday: JsonDecoder.string().map(
+ *       str => new Date(str),
+ *       date => date.toISOString()
+ *     )
+ *   },
+ *   'User'
+ * );
+ *
+ * const user = userCodec.parse({ first_name: 'John', birthday: '1985-10-26T01:21:00.000Z' });
+ * // { firstName: 'John', birthday: Date(1985-10-26T01:21:00.000Z) }
+ * userCodec.encode(user);
+ * // { first_name: 'John', birthday: '1985-10-26T01:21:00.000Z' }
+ * ```
+ *
+ * @template T - The type that this codec decodes to, and encodes from
+ * @template J - The JSON type that this codec encodes to
+ */
+export class Codec<T, J = unknown> extends Decoder<T> {
+  // Typed loosely so that `Codec<A>` stays assignable to `Codec<A | B>`, like `Decoder` does.
+  private encodeFn: (value: any) => J;
+
+  /**
+   * Creates a new codec.
+   *
+   * @param decodeFn - A function that takes a JSON object and the decode options, and returns a Result<T>
+   * @param encodeFn - A function that takes a value of type T and returns its JSON representation
+   * @param descriptor - Describes how the codec was built. Defaults to an opaque `custom` codec.
+   * @category Constructor
+   */
+  constructor(
+    decodeFn: (json: any, options: DecodeOptions) => Result.Result<T>,
+    encodeFn: (value: T) => J,
+    descriptor?: DecoderDescriptor
+  ) {
+    super(decodeFn, descriptor);
+    this.encodeFn = encodeFn;
+  }
+
+  /**
+   * Encodes a value of type <T> into JSON
+   * @param value The value to encode
+   * @returns The JSON representation of the value
+   * @category Entry Point
+   *
+   * @example
+   * ```ts
+   * const pointCodec = JsonDecoder.tuple([JsonDecoder.number(), JsonDecoder.number()], 'Point');
+   * pointCodec.encode([1, 2]); // [1, 2]
+   * ```
+   */
+  encode(value: T): J {
+    return this.encodeFn(value);
+  }
+
+  /**
+   * If the decoder has succeeded, transforms the decoded value into something else.
+   * When the reverse transformation is provided as well, the result is still a codec.
+   * @param fn The transformation function
+   * @param encodeFn The reverse transformation function, used when encoding
+   * @returns A new decoder, or codec, that applies the transformation
+   * @category Transformation
+   *
+   * @example
+   * ```ts
+   * const dateCodec = JsonDecoder.string().map(
+   *   str => new Date(str),
+   *   date => date.toISOString()
+   * );
+   * dateCodec.decode('2018-12-21T18:22:25.490Z'); // Ok<Date>({value: Date(......)})
+   * dateCodec.encode(new Date('2018-12-21T18:22:25.490Z')); // '2018-12-21T18:22:25.490Z'
+   * ```
+   */
+  map<O>(fn: (value: T) => O): Decoder<O>;
+  map<O>(fn: (value: T) => O, encodeFn: (value: O) => T): Codec<O, J>;
+  map<O>(
+    fn: (value: T) => O,
+    encodeFn?: (value: O) => T
+  ): Decoder<O> | Codec<O, J> {
+    const decoder = super.map(fn);
+    if (encodeFn === undefined) {
+      return decoder;
+    }
+    return new Codec<O, J>(
+      (json: any, options) => decoder.decode(json, options),
+      value => this.encodeFn(encodeFn(value)),
+      decoder.descriptor
+    );
+  }
+
+  /**
+   * Brands the decoded type, like {@link Decoder.brand}, and keeps encoding the branded values.
+   * @typeParam B - The name of the brand
+   * @returns This codec, typed as a codec of `T & Brand<B>`
+   * @category Transformation
+   *
+   * @example
+   * ```ts
+   * const userIdCodec = JsonDecoder.string({ format: 'uuid' }).brand<'UserId'>();
+   * userIdCodec.encode(userIdCodec.parse('9b2e…')); // '9b2e…'
+   * ```
+   */
+  brand<B extends string>(): Codec<T & Brand<B>, J> {
+    return this as unknown as Codec<T & Brand<B>, J>;
+  }
+}
+
+/**
+ * A decoder whose decoding is async, because it checks values against external data: a database,
+ * another service... It is built from any decoder with `refineAsync` or `flatMapAsync`,
+ * and async decoders are combined with `objectAsync` and `arrayAsync`, which also accept regular decoders.
+ * The other combinators (`optional`, `oneOf`, `record`...) only take regular decoders, so the async check goes
+ * on the outermost regular decoder. Async decoders are neither codecs nor described for the tools.
+ *
+ * The async checks run concurrently, up to the `concurrency` limit of the {@link AsyncDecodeOptions},
+ * and the decoding can be cancelled with their `signal`.
+ * An async check that rejects, or an aborted signal, rejects the decoding: only invalid values give an `Err`.
+ *
+ * @example
+ * ```ts
+ * const signupDecoder = JsonDecoder.objectAsync(
+ *   {
+ *     username: JsonDecoder.string().refineAsync(isAvailable, 'username is taken'),
+ *     email: JsonDecoder.string({ format: 'email' })
+ *   },
+ *   'Signup'
+ * );
+ *
+ * const result = await signupDecoder.decode(json, { signal: request.signal });
+ * ```
+ *
+ * @template T - The type that this decoder decodes to
+ */
+export class AsyncDecoder<T> implements StandardSchemaV1<unknown, T> {
+  /**
+   * Creates a new async decoder.
+   *
+   * @param decodeFn - A function that takes a JSON object and the decode options, and resolves to a Result<T>.
+   * Decoders that delegate to inner decoders must pass the options along.
+   * @category Constructor
+   */
+  constructor(
+    private decodeFn: (
+      json: any,
+      options: AsyncDecodeOptions
+    ) => Promise<Result.Result<T>>
+  ) {}
+
+  /**
+   * Decodes a JSON object of type <T>
+   * @param json The JSON object to decode
+   * @param options The decode options
+   * @returns A promise of the decoding result. It rejects when the signal is aborted or an async check rejects
+   * @throws {Error} When the concurrency of the options is lower than 1
+   * @category Entry Point
+   *
+   * @example
+   * ```ts
+   * await usernameDecoder.decode('grace'); // Ok<string>({value: 'grace'})
+   * ```
+   */
+  decode(
+    json: any,
+    options: AsyncDecodeOptions = {}
+  ): Promise<Result.Result<T>> {
+    const { signal, concurrency } = options;
+    if (concurrency !== undefined && !(concurrency >= 1)) {
+      throw new Error(
+        `The concurrency of async decoders must be at least 1, but it is ${concurrency}`
+      );
+    }
+    if (signal === undefined) {
+      return this.decodeFn(json, options);
+    }
+    if (signal.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+    return abortable(this.decodeFn(json, options), signal);
+  }
+
+  /**
+   * Decodes a JSON object of type <T> and resolves to the decoded value
+   * @param json The JSON object to decode
+   * @param options The decode options
+   * @returns A promise of the decoded value, that rejects with the error message if decoding fails
+   * @category Entry Point
+   */
+  async decodePromise(json: any, options?: AsyncDecodeOptions): Promise<T> {
+    const result = await this.decode(json, options);
+    if (result.isOk()) {
+      return result.value;
+    }
+    throw result.error.message;
+  }
+
+  /**
+   * Standard Schema interface, where `validate` returns a promise.
+   *
+   * @see [Standard Schema](https://standardschema.dev)
+   * @category Standard Schema
+   */
+  readonly '~standard': StandardSchemaV1.Props<unknown, T> = {
+    version: 1,
+    vendor: 'ts.data.json',
+    validate: async (value: unknown): Promise<StandardSchemaV1.Result<T>> => {
+      const result = await this.decode(value);
+      if (result.isOk()) {
+        return { value: result.value };
+      }
+      return { issues: toStandardIssues(result.error) };
+    }
+  };
+
+  /**
+   * If the decoder has succeeded, transforms the decoded value into something else
+   * @param fn The transformation function
+   * @returns A new async decoder that applies the transformation
+   * @category Transformation
+   */
+  map<O>(fn: (value: T) => O): AsyncDecoder<O> {
+    return new AsyncDecoder<O>(async (json, options) => {
+      const result = await this.decode(json, options);
+      return result.isOk()
+        ? Result.ok(fn(result.value))
+        : Result.err<O>(result.error);
+    });
+  }
+
+  /**
+   * If the decoder has succeeded, checks the decoded value with an async function, like {@link Decoder.refineAsync}
+   * @param check The async function that tells whether the value is valid
+   * @param message The error message when the value is not valid
+   * @returns A new async decoder that also runs the check
+   * @category Transformation
+   */
+  refineAsync(
+    check: (value: T, context: AsyncCheckContext) => Promise<boolean>,
+    message: string | ((value: T) => string)
+  ): AsyncDecoder<T> {
+    return new AsyncDecoder<T>(async (json, options) => {
+      const result = await this.decode(json, options);
+      if (!result.isOk()) {
+        return result;
+      }
+      const value = result.value;
+      const valid = await runCheck(options, () =>
+        check(value, { signal: options.signal })
+      );
+      if (valid) {
+        return result;
+      }
+      return Result.err<T>(
+        decodeError({
+          kind: 'custom',
+          received: value,
+          message: typeof message === 'function' ? message(value) : message
+        })
+      );
+    });
+  }
+
+  /**
+   * Chains the decoder with the decoder returned by an async function, like {@link Decoder.flatMapAsync}
+   * @param fn The async function that returns the decoder to decode the same JSON with
+   * @returns A new async decoder that chains the current decoder with the decoder returned by fn
+   * @category Transformation
+   */
+  flatMapAsync<O>(
+    fn: (
+      value: T,
+      context: AsyncCheckContext
+    ) => Promise<Decoder<O> | AsyncDecoder<O>>
+  ): AsyncDecoder<O> {
+    return new AsyncDecoder<O>(async (json, options) => {
+      const result = await this.decode(json, options);
+      if (!result.isOk()) {
+        return Result.err<O>(result.error);
+      }
+      const value = result.value;
+      const decoder = await runCheck(options, () =>
+        fn(value, { signal: options.signal })
+      );
+      return decoder.decode(json, options);
+    });
+  }
+
+  /**
+   * Brands the decoded type, like {@link Decoder.brand}
+   * @typeParam B - The name of the brand
+   * @returns This decoder, typed as an async decoder of `T & Brand<B>`
+   * @category Transformation
+   */
+  brand<B extends string>(): AsyncDecoder<T & Brand<B>> {
+    return this as unknown as AsyncDecoder<T & Brand<B>>;
+  }
+}
+
+/**
+ * Turns a decoder into an async decoder, leaving async decoders as they are.
+ * Used by the async decoders to accept regular decoders as well.
+ *
+ * @param decoder A decoder or an async decoder
+ * @returns An async decoder that decodes like `decoder`
+ * @internal
+ */
+export function toAsync<T>(
+  decoder: Decoder<T> | AsyncDecoder<T>
+): AsyncDecoder<T> {
+  if (decoder instanceof AsyncDecoder) {
+    return decoder;
+  }
+  return new AsyncDecoder<T>(async (json, options) =>
+    decoder.decode(json, options)
+  );
+}
+
+/**
+ * The concurrency limiter of each decoding, shared by the decoders it goes through with the same options.
+ */
+const limiters = new WeakMap<
+  AsyncDecodeOptions,
+  <R>(task: () => Promise<R>) => Promise<R>
+>();
+
+/**
+ * Runs an async check once the concurrency limit of the decoding allows it.
+ */
+function runCheck<R>(
+  options: AsyncDecodeOptions,
+  task: () => Promise<R>
+): Promise<R> {
+  let limit = limiters.get(options);
+  if (limit === undefined) {
+    limit = limiter(options.concurrency ?? Infinity);
+    limiters.set(options, limit);
+  }
+  return limit(() => {
+    const { signal } = options;
+    return signal?.aborted ? Promise.reject(abortReason(signal)) : task();
+  });
+}
+
+function limiter(
+  concurrency: number
+): <R>(task: () => Promise<R>) => Promise<R> {
+  let running = 0;
+  const waiting: Array<() => void> = [];
+  return async task => {
+    if (running < concurrency) {
+      running++;
+    } else {
+      // The task that finishes hands its slot over, so `running` stays the same
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next === undefined) {
+        running--;
+      } else {
+        next();
+      }
+    }
+  };
+}
+
+function abortable<R>(
+  promise: Promise<R>,
+  signal: AbortSignalLike
+): Promise<R> {
+  return new Promise<R>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort);
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+function abortReason(signal: AbortSignalLike): unknown {
+  return signal.reason ?? new Error('The decoding was aborted');
+}
+
+/**
+ * Flattens a DecodeError into Standard Schema issues.
+ * Container failures are replaced by the failures of the values they contain,
+ * so that each issue points to the value that actually failed.
+ *
+ * @param error The error to flatten
+ * @returns One issue per failing value
+ */
+function toStandardIssues(error: DecodeError): StandardSchemaV1.Issue[] {
+  switch (error.kind) {
+    case 'object':
+    case 'array':
+    case 'record':
+    case 'tuple':
+    case 'all-of':
+      return error.causes.flatMap(toStandardIssues);
+    default:
+      return [{ message: error.message, path: error.path }];
+  }
+}
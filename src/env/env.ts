@@ -0,0 +1,365 @@
+/**
+ * @module
+ * @mergeModuleWith env
+ * @category Api docs
+ */
+
+import { Decoder } from '../core';
+import { envDecodeError } from '../errors/env-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import { coerce } from '../schemas/coerce';
+import { numberPresets, type NumberConstraints } from '../schemas/number';
+import { object } from '../schemas/object';
+import { optional } from '../schemas/optional';
+import { string, type StringConstraints } from '../schemas/string';
+import { withDefault } from '../schemas/with-default';
+import * as Result from '../utils/result';
+
+/**
+ * An environment variable of an {@link EnvSpec}, decoded from its string value.
+ * Variables are required unless they have a default value or are optional.
+ */
+export class EnvVariable<T> {
+  /**
+   * @param decoder The decoder of the string value. It receives `undefined` when the variable is missing.
+   * @category Constructor
+   */
+  constructor(readonly decoder: Decoder<T>) {}
+
+  /**
+   * Uses a default value when the variable is missing
+   * @param value The default value
+   * @returns A variable that is never missing
+   */
+  default(value: Exclude<T, undefined>): EnvVariable<Exclude<T, undefined>> {
+    return new EnvVariable(withDefault(this.decoder, value));
+  }
+
+  /**
+   * Decodes a missing variable as `undefined`
+   * @returns A variable that may be `undefined`
+   */
+  optional(): EnvVariable<T | undefined> {
+    return new EnvVariable(optional(this.decoder));
+  }
+}
+
+/**
+ * A group of environment variables that share a prefix, decoded into a nested object.
+ */
+export class EnvGroup<S extends EnvSpec> {
+  /**
+   * @param spec The variables of the group
+   * @param prefix The prefix of the variables of the group. Defaults to the key of the group in
+   * upper snake case followed by `_`, e.g. `DB_` for the `db` group
+   * @category Constructor
+   */
+  constructor(
+    readonly spec: S,
+    readonly prefix?: string
+  ) {}
+}
+
+/**
+ * Declares the environment variables of a configuration.
+ * The keys are the properties of the decoded configuration, and the variable names are the keys
+ * in upper snake case, so both `PORT` and `port` read the `PORT` variable, and `databaseUrl` reads `DATABASE_URL`.
+ *
+ * @category Internal Types
+ */
+export type EnvSpec = {
+  readonly [key: string]: EnvVariable<any> | Decoder<any> | EnvGroup<any>;
+};
+
+/**
+ * The configuration decoded from an {@link EnvSpec}. Missing optional variables are left out,
+ * so they are optional properties.
+ *
+ * @category Internal Types
+ */
+export type EnvConfig<S extends EnvSpec> = Flatten<
+  {
+    [K in keyof S as undefined extends EnvValue<S[K]> ? never : K]: EnvValue<
+      S[K]
+    >;
+  } & {
+    [K in keyof S as undefined extends EnvValue<S[K]> ? K : never]?: EnvValue<
+      S[K]
+    >;
+  }
+>;
+
+/**
+ * Options of {@link envDecoder} and {@link loadEnv}.
+ */
+export interface EnvOptions {
+  /** The prefix of all the variables, e.g. `APP_` to read `PORT` from `APP_PORT`. Defaults to none. */
+  readonly prefix?: string;
+}
+
+/**
+ * Options of {@link loadEnv}.
+ */
+export interface LoadEnvOptions extends EnvOptions {
+  /** The variables to load the configuration from. Defaults to `process.env`. */
+  readonly source?: { readonly [variable: string]: string | undefined };
+}
+
+/**
+ * Builders of the environment variables of an {@link EnvSpec}.
+ * Values are parsed like the {@link coerce} decoders do, and empty values count as missing.
+ *
+ * @example
+ * ```ts
+ * const config = JsonDecoder.loadEnv({
+ *   PORT: JsonDecoder.env.port(),
+ *   DATABASE_URL: JsonDecoder.env.url(),
+ *   FEATURE_X: JsonDecoder.env.boolean().default(false),
+ *   db: JsonDecoder.env.group({ host: JsonDecoder.env.string(), poolSize: JsonDecoder.env.number().optional() })
+ * });
+ * // Reads PORT, DATABASE_URL, FEATURE_X, DB_HOST and DB_POOL_SIZE
+ * config.db.host; // string
+ * ```
+ */
+export const env = {
+  /**
+   * @param constraints Optional constraints that the value must meet
+   * @returns A string variable
+   */
+  string(constraints?: StringConstraints): EnvVariable<string> {
+    return new EnvVariable(string(constraints));
+  },
+
+  /**
+   * @param constraints Optional constraints that the parsed number must meet
+   * @returns A number variable, like `'42'` or `'0.5'`
+   */
+  number(constraints?: NumberConstraints): EnvVariable<number> {
+    return new EnvVariable(coerce.number(constraints));
+  },
+
+  /**
+   * @returns A TCP/UDP port variable, an integer from 0 to 65535
+   */
+  port(): EnvVariable<number> {
+    return new EnvVariable(coerce.number(numberPresets.port));
+  },
+
+  /**
+   * @returns An absolute URL variable, like `'postgres://localhost:5432/app'`
+   */
+  url(): EnvVariable<string> {
+    return new EnvVariable(string({ format: 'url' }));
+  },
+
+  /**
+   * @returns A boolean variable: `'true'` and `'1'` are `true`, `'false'` and `'0'` are `false`
+   */
+  boolean(): EnvVariable<boolean> {
+    return new EnvVariable(coerce.boolean());
+  },
+
+  /**
+   * @param spec The variables of the group
+   * @param prefix The prefix of the variables of the group, see {@link EnvGroup}
+   * @returns A group of variables, decoded into a nested object
+   */
+  group<S extends EnvSpec>(spec: S, prefix?: string): EnvGroup<S> {
+    return new EnvGroup(spec, prefix);
+  }
+};
+
+/**
+ * Decoder of a configuration from a record of environment variables, like `process.env`.
+ *
+ * It always reports all the variables that are missing or invalid, with a message meant to be printed at startup.
+ * Each cause of the error is located at the name of its variable.
+ *
+ * @param spec The variables of the configuration
+ * @param options The prefix of the variables
+ * @returns A decoder of the configuration
+ * @throws {Error} When two entries of the spec read the same variable
+ *
+ * @example
+ * ```ts
+ * const configDecoder = JsonDecoder.envDecoder({ PORT: JsonDecoder.env.port(), DATABASE_URL: JsonDecoder.env.url() });
+ *
+ * configDecoder.decode({ PORT: '8080', DATABASE_URL: 'postgres://localhost/app' });
+ * // Ok({value: {PORT: 8080, DATABASE_URL: 'postgres://localhost/app'}})
+ * configDecoder.decode({ PORT: 'http' });
+ * // Err({error: 'Invalid environment configuration, 2 variables are missing or invalid:\n  - PORT: "http" can\'t be coerced to number\n  - DATABASE_URL is missing'})
+ * ```
+ */
+export function envDecoder<S extends EnvSpec>(
+  spec: S,
+  options: EnvOptions = {}
+): Decoder<EnvConfig<S>> {
+  const variables = envVariables(spec, options.prefix ?? '', []);
+  const variablesDecoder = object<Record<string, unknown>>(
+    Object.fromEntries(variables.map(({ name, decoder }) => [name, decoder])),
+    'environment'
+  );
+  return new Decoder<EnvConfig<S>>((json: any, decodeOptions) => {
+    if (typeof json !== 'object' || json === null) {
+      return Result.err<EnvConfig<S>>(
+        primitiveDecodeError(json, 'environment')
+      );
+    }
+    const values: Record<string, string> = {};
+    for (const { name } of variables) {
+      const value = json[name];
+      if (value !== undefined && value !== '') {
+        values[name] = value;
+      }
+    }
+    const result = variablesDecoder.decode(values, {
+      ...decodeOptions,
+      allErrors: true
+    });
+    if (!result.isOk()) {
+      return Result.err<EnvConfig<S>>(
+        envDecodeError(
+          json,
+          result.error.causes.map(error => ({
+            key: String(error.path[0]),
+            error
+          }))
+        )
+      );
+    }
+    const config = emptyConfig(spec);
+    for (const { name, path } of variables) {
+      if (Object.prototype.hasOwnProperty.call(result.value, name)) {
+        setPath(config, path, result.value[name]);
+      }
+    }
+    return Result.ok(config as EnvConfig<S>);
+  });
+}
+
+/**
+ * Loads a configuration from environment variables, `process.env` by default.
+ * See {@link envDecoder}.
+ *
+ * @param spec The variables of the configuration
+ * @param options The prefix and the source of the variables
+ * @returns The configuration
+ * @throws {Error} When variables are missing or invalid, with all of them in the message
+ *
+ * @example
+ * ```ts
+ * const config = JsonDecoder.loadEnv(
+ *   { port: JsonDecoder.env.port(), debug: JsonDecoder.env.boolean().default(false) },
+ *   { prefix: 'APP_' }
+ * );
+ * // Reads APP_PORT and APP_DEBUG
+ * ```
+ */
+export function loadEnv<S extends EnvSpec>(
+  spec: S,
+  options: LoadEnvOptions = {}
+): EnvConfig<S> {
+  const source = options.source ?? processEnv();
+  const result = envDecoder(spec, options).decode(source);
+  if (!result.isOk()) {
+    throw new Error(result.error.message);
+  }
+  return result.value;
+}
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type EnvValue<E> =
+  E extends EnvGroup<infer G>
+    ? EnvConfig<G>
+    : E extends EnvVariable<infer T>
+      ? T
+      : E extends Decoder<infer T>
+        ? T
+        : never;
+
+type Variable = {
+  name: string;
+  path: string[];
+  decoder: Decoder<unknown>;
+};
+
+/**
+ * The configuration of a spec before decoding: an empty object for each group,
+ * even when none of its variables is set.
+ */
+function emptyConfig(spec: EnvSpec): Record<string, any> {
+  const config: Record<string, any> = {};
+  for (const [key, entry] of Object.entries(spec)) {
+    if (entry instanceof EnvGroup) {
+      config[key] = emptyConfig(entry.spec);
+    }
+  }
+  return config;
+}
+
+function envVariables(
+  spec: EnvSpec,
+  prefix: string,
+  path: string[]
+): Variable[] {
+  const variables: Variable[] = [];
+  for (const [key, entry] of Object.entries(spec)) {
+    if (entry instanceof EnvGroup) {
+      variables.push(
+        ...envVariables(
+          entry.spec,
+          prefix + (entry.prefix ?? `${upperSnakeCase(key)}_`),
+          [...path, key]
+        )
+      );
+    } else {
+      variables.push({
+        name: prefix + upperSnakeCase(key),
+        path: [...path, key],
+        decoder: entry instanceof EnvVariable ? entry.decoder : entry
+      });
+    }
+  }
+  const declared = new Map<string, string[]>();
+  for (const { name, path } of variables) {
+    const other = declared.get(name);
+    if (other !== undefined) {
+      throw new Error(
+        `The environment variable ${name} is read by both ${other.join('.')} and ${path.join('.')}`
+      );
+    }
+    declared.set(name, path);
+  }
+  return variables;
+}
+
+function upperSnakeCase(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function setPath(
+  target: Record<string, any>,
+  path: string[],
+  value: unknown
+): void {
+  let current = target;
+  for (const key of path.slice(0, -1)) {
+    current = current[key];
+  }
+  current[path[path.length - 1]] = value;
+}
+
+function processEnv(): { readonly [variable: string]: string | undefined } {
+  const env = (
+    globalThis as {
+      process?: { env?: { [variable: string]: string | undefined } };
+    }
+  ).process?.env;
+  if (env === undefined) {
+    throw new Error(
+      'There is no process.env to load the environment variables from, pass a source instead'
+    );
+  }
+  return env;
+}
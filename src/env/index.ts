@@ -0,0 +1,7 @@
+/**
+ * This module contains the loader of configurations from environment variables.
+ * @module env
+ * @category Api docs
+ */
+
+export * from './env';
@@ -1,3 +1,6 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+import { errorList, type KeyedDecodeError } from './error-list';
+
 /**
  * Creates an error message for allOf decoder failures
  * @param decoderName Name of the decoder
@@ -12,3 +15,44 @@ export const allOfError = (
   error: string
 ): string =>
   `<${decoderName}> allOf decoder failed at index #${index} with "${error}"`;
+
+/**
+ * Creates an error message for allOf decoder failures at several indexes
+ * @param decoderName Name of the decoder
+ * @param errors The decoder indexes that failed, with their error messages
+ * @returns Formatted error message
+ * @internal
+ */
+export const allOfErrors = (
+  decoderName: string,
+  errors: ReadonlyArray<[index: number, error: string]>
+): string =>
+  `<${decoderName}> allOf decoder failed with ${errors.length} errors:` +
+  errorList(errors.map(([index, error]) => `at index #${index}: ${error}`));
+
+/**
+ * Creates a DecodeError for allOf decoder failures
+ * @param decoderName Name of the decoder
+ * @param json The value that couldn't be decoded
+ * @param failures The decoder indexes that failed, with their errors
+ * @returns An `all-of` DecodeError caused by the failures
+ * @internal
+ */
+export const allOfDecodeError = (
+  decoderName: string,
+  json: any,
+  failures: ReadonlyArray<KeyedDecodeError<number>>
+): DecodeError =>
+  decodeError({
+    kind: 'all-of',
+    expected: decoderName,
+    received: json,
+    message:
+      failures.length === 1
+        ? allOfError(decoderName, failures[0].key, failures[0].error.message)
+        : allOfErrors(
+            decoderName,
+            failures.map(({ key, error }) => [key, error.message])
+          ),
+    causes: failures.map(({ error }) => error)
+  });
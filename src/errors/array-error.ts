@@ -1,3 +1,10 @@
+import {
+  decodeError,
+  prependPath,
+  type DecodeError
+} from '../utils/decode-error';
+import { errorList, type KeyedDecodeError } from './error-list';
+
 /**
  * Creates an error message for array decoder failures
  * @param decoderName Name of the decoder
@@ -12,3 +19,46 @@ export const arrayError = (
   error: string
 ): string =>
   `<${decoderName}> decoder failed at index "${index}" with error: ${error}`;
+
+/**
+ * Creates an error message for array decoder failures at several indexes
+ * @param decoderName Name of the decoder
+ * @param errors The indexes where decoding failed, with their error messages
+ * @returns Formatted error message
+ * @internal
+ */
+export const arrayErrors = (
+  decoderName: string,
+  errors: ReadonlyArray<[index: number, error: string]>
+): string =>
+  `<${decoderName}> decoder failed with ${errors.length} errors:` +
+  errorList(errors.map(([index, error]) => `at index "${index}": ${error}`));
+
+/**
+ * Creates a DecodeError for array and tuple decoder failures
+ * @param decoderName Name of the decoder
+ * @param json The array that couldn't be decoded
+ * @param failures The indexes where decoding failed, with their errors
+ * @param kind Whether the failing decoder is an `array` or a `tuple`
+ * @returns An `array` or `tuple` DecodeError caused by the failures
+ * @internal
+ */
+export const arrayDecodeError = (
+  decoderName: string,
+  json: any,
+  failures: ReadonlyArray<KeyedDecodeError<number>>,
+  kind: 'array' | 'tuple' = 'array'
+): DecodeError =>
+  decodeError({
+    kind,
+    expected: decoderName,
+    received: json,
+    message:
+      failures.length === 1
+        ? arrayError(decoderName, failures[0].key, failures[0].error.message)
+        : arrayErrors(
+            decoderName,
+            failures.map(({ key, error }) => [key, error.message])
+          ),
+    causes: failures.map(({ key, error }) => prependPath(error, key))
+  });
@@ -0,0 +1,26 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
+/**
+ * Creates an error message for values that can't be coerced to the target type
+ * @param value The invalid value, usually a string
+ * @param target The type the value should be coerced to
+ * @returns Formatted error message
+ * @internal
+ */
+export const coercionError = (value: any, target: string): string =>
+  `${typeof value === 'bigint' ? `${value}n` : JSON.stringify(value)} can't be coerced to ${target}`;
+
+/**
+ * Creates a DecodeError for values that can't be coerced to the target type
+ * @param value The invalid value, usually a string
+ * @param target The type the value should be coerced to
+ * @returns A `primitive` DecodeError
+ * @internal
+ */
+export const coercionDecodeError = (value: any, target: string): DecodeError =>
+  decodeError({
+    kind: 'primitive',
+    expected: target,
+    received: value,
+    message: coercionError(value, target)
+  });
@@ -0,0 +1,30 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
+/**
+ * Creates an error message for values that break a constraint
+ * @param value The invalid value
+ * @param constraint What a valid value looks like, e.g. `string with at least 3 characters`
+ * @returns Formatted error message
+ * @internal
+ */
+export const constraintError = (value: any, constraint: string): string =>
+  // JSON.stringify prints NaN and Infinity as null, and throws on bigints
+  `${typeof value === 'number' ? String(value) : typeof value === 'bigint' ? `${value}n` : JSON.stringify(value)} is not a valid ${constraint}`;
+
+/**
+ * Creates a DecodeError for values that break a constraint
+ * @param value The invalid value
+ * @param constraint What a valid value looks like, e.g. `string with at least 3 characters`
+ * @returns A `constraint` DecodeError
+ * @internal
+ */
+export const constraintDecodeError = (
+  value: any,
+  constraint: string
+): DecodeError =>
+  decodeError({
+    kind: 'constraint',
+    expected: constraint,
+    received: value,
+    message: constraintError(value, constraint)
+  });
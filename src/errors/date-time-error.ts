@@ -0,0 +1,36 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+import { constraintError } from './constraint-error';
+
+/**
+ * Creates an error message for dates and times that can't be parsed
+ * @param value The invalid value
+ * @param expected The expected format, e.g. `ISO date`
+ * @param problem What is wrong with the value, e.g. `month 13 is out of range`
+ * @returns Formatted error message
+ * @internal
+ */
+export const dateTimeError = (
+  value: any,
+  expected: string,
+  problem: string
+): string => `${constraintError(value, expected)}, ${problem}`;
+
+/**
+ * Creates a DecodeError for dates and times that can't be parsed
+ * @param value The invalid value
+ * @param expected The expected format, e.g. `ISO date`
+ * @param problem What is wrong with the value, e.g. `month 13 is out of range`
+ * @returns A `constraint` DecodeError
+ * @internal
+ */
+export const dateTimeDecodeError = (
+  value: any,
+  expected: string,
+  problem: string
+): DecodeError =>
+  decodeError({
+    kind: 'constraint',
+    expected,
+    received: value,
+    message: dateTimeError(value, expected, problem)
+  });
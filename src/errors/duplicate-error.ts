@@ -0,0 +1,26 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
+/**
+ * Creates an error message for set elements that are equal to a previous element
+ * @param value The duplicate element
+ * @param index The index of the first element with the same value
+ * @returns Formatted error message
+ * @internal
+ */
+export const duplicateError = (value: any, index: number): string =>
+  `${JSON.stringify(value)} is a duplicate of the element at index "${index}"`;
+
+/**
+ * Creates a DecodeError for set elements that are equal to a previous element
+ * @param value The duplicate element
+ * @param index The index of the first element with the same value
+ * @returns A `constraint` DecodeError
+ * @internal
+ */
+export const duplicateDecodeError = (value: any, index: number): DecodeError =>
+  decodeError({
+    kind: 'constraint',
+    expected: 'unique element',
+    received: value,
+    message: duplicateError(value, index)
+  });
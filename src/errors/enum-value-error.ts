@@ -1,3 +1,5 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
 /**
  * Creates an error message for enum value mismatches
  * @param decoderName Name of the decoder
@@ -10,3 +12,21 @@ export const enumValueError = (
   invalidValue: any
 ): string =>
   `<${decoderName}> decoder failed at value "${invalidValue}" which is not in the enum`;
+
+/**
+ * Creates a DecodeError for enum value mismatches
+ * @param decoderName Name of the decoder
+ * @param invalidValue The invalid enum value
+ * @returns An `enum` DecodeError
+ * @internal
+ */
+export const enumValueDecodeError = (
+  decoderName: string,
+  invalidValue: any
+): DecodeError =>
+  decodeError({
+    kind: 'enum',
+    expected: decoderName,
+    received: invalidValue,
+    message: enumValueError(decoderName, invalidValue)
+  });
@@ -0,0 +1,42 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+import { errorList, type KeyedDecodeError } from './error-list';
+
+/**
+ * Creates the startup banner of environment variables that are missing or invalid
+ * @param errors The variables that failed, with their error messages, or `undefined` when they are missing
+ * @returns Formatted error message
+ * @internal
+ */
+export const envError = (
+  errors: ReadonlyArray<[variable: string, error: string | undefined]>
+): string =>
+  `Invalid environment configuration, ${errors.length} ${errors.length === 1 ? 'variable is' : 'variables are'} missing or invalid:` +
+  errorList(
+    errors.map(([variable, error]) =>
+      error === undefined ? `${variable} is missing` : `${variable}: ${error}`
+    )
+  );
+
+/**
+ * Creates a DecodeError for environment variables that are missing or invalid
+ * @param env The environment that couldn't be decoded
+ * @param failures The variables that failed, with their errors already located at the variable
+ * @returns An `object` DecodeError caused by the failures
+ * @internal
+ */
+export const envDecodeError = (
+  env: any,
+  failures: ReadonlyArray<KeyedDecodeError<string>>
+): DecodeError =>
+  decodeError({
+    kind: 'object',
+    expected: 'environment',
+    received: env,
+    message: envError(
+      failures.map(({ key, error }) => [
+        key,
+        error.received === undefined ? undefined : error.message
+      ])
+    ),
+    causes: failures.map(({ error }) => error)
+  });
@@ -0,0 +1,19 @@
+import type { DecodeError } from '../utils/decode-error';
+
+/**
+ * A decoder error together with the key or index where it happened
+ * @internal
+ */
+export type KeyedDecodeError<K extends string | number> = {
+  key: K;
+  error: DecodeError;
+};
+
+/**
+ * Formats error messages as an indented list, one error per item
+ * @param errors The error messages
+ * @returns Formatted error list
+ * @internal
+ */
+export const errorList = (errors: ReadonlyArray<string>): string =>
+  errors.map(error => `\n  - ${error.replace(/\n/g, '\n    ')}`).join('');
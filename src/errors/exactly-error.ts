@@ -1,3 +1,5 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
 /**
  * Creates an error message for exact value mismatches
  * @param json The actual value
@@ -7,3 +9,18 @@
  */
 export const exactlyError = (json: any, value: any): string =>
   `${JSON.stringify(json)} is not exactly ${JSON.stringify(value)}`;
+
+/**
+ * Creates a DecodeError for exact value mismatches
+ * @param json The actual value
+ * @param value The expected value
+ * @returns A `literal` DecodeError
+ * @internal
+ */
+export const exactlyDecodeError = (json: any, value: any): DecodeError =>
+  decodeError({
+    kind: 'literal',
+    expected: JSON.stringify(value),
+    received: json,
+    message: exactlyError(json, value)
+  });
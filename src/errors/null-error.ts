@@ -1,3 +1,5 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
 /**
  * Creates an error message for null type mismatches
  * @param json The non-null value
@@ -6,3 +8,17 @@
  */
 export const nullError = (json: any): string =>
   `${JSON.stringify(json)} is not null`;
+
+/**
+ * Creates a DecodeError for null type mismatches
+ * @param json The non-null value
+ * @returns A `primitive` DecodeError
+ * @internal
+ */
+export const nullDecodeError = (json: any): DecodeError =>
+  decodeError({
+    kind: 'primitive',
+    expected: 'null',
+    received: json,
+    message: nullError(json)
+  });
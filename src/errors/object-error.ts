@@ -1,3 +1,6 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+import { errorList, type KeyedDecodeError } from './error-list';
+
 /**
  * Creates an error message for object decoder failures
  * @param decoderName Name of the decoder
@@ -12,3 +15,44 @@ export const objectError = (
   error: string
 ): string =>
   `<${decoderName}> decoder failed at key "${key}" with error: ${error}`;
+
+/**
+ * Creates an error message for object decoder failures at several keys
+ * @param decoderName Name of the decoder
+ * @param errors The keys where decoding failed, with their error messages
+ * @returns Formatted error message
+ * @internal
+ */
+export const objectErrors = (
+  decoderName: string,
+  errors: ReadonlyArray<[key: string, error: string]>
+): string =>
+  `<${decoderName}> decoder failed with ${errors.length} errors:` +
+  errorList(errors.map(([key, error]) => `at key "${key}": ${error}`));
+
+/**
+ * Creates a DecodeError for object decoder failures
+ * @param decoderName Name of the decoder
+ * @param json The object that couldn't be decoded
+ * @param failures The keys where decoding failed, with their errors already located at the key
+ * @returns An `object` DecodeError caused by the failures
+ * @internal
+ */
+export const objectDecodeError = (
+  decoderName: string,
+  json: any,
+  failures: ReadonlyArray<KeyedDecodeError<string>>
+): DecodeError =>
+  decodeError({
+    kind: 'object',
+    expected: decoderName,
+    received: json,
+    message:
+      failures.length === 1
+        ? objectError(decoderName, failures[0].key, failures[0].error.message)
+        : objectErrors(
+            decoderName,
+            failures.map(({ key, error }) => [key, error.message])
+          ),
+    causes: failures.map(({ error }) => error)
+  });
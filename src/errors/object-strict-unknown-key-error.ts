@@ -1,3 +1,5 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
 /**
  * Creates an error message for unknown keys in strict object decoders
  * @param decoderName Name of the decoder
@@ -10,3 +12,24 @@ export const objectStrictUnknownKeyError = (
   key: string
 ): string =>
   `Unknown key "${key}" found while processing strict <${decoderName}> decoder`;
+
+/**
+ * Creates a DecodeError for unknown keys in strict object decoders
+ * @param decoderName Name of the decoder
+ * @param key The unknown key
+ * @param value The value found at the unknown key
+ * @returns An `unknown-key` DecodeError located at the unknown key
+ * @internal
+ */
+export const objectStrictUnknownKeyDecodeError = (
+  decoderName: string,
+  key: string,
+  value: any
+): DecodeError =>
+  decodeError({
+    kind: 'unknown-key',
+    path: [key],
+    expected: decoderName,
+    received: value,
+    message: objectStrictUnknownKeyError(decoderName, key)
+  });
@@ -1,3 +1,6 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+import { errorList } from './error-list';
+
 /**
  * Creates an error message for oneOf decoder failures
  * @param decoderName Name of the decoder
@@ -9,3 +12,72 @@ export const oneOfError = (decoderName: string, json: any): string =>
   `<${decoderName}> decoder failed because ${JSON.stringify(
     json
   )} can't be decoded with any of the provided oneOf decoders`;
+
+/**
+ * Creates an error message for oneOf decoder failures that lists the error of each decoder
+ * @param decoderName Name of the decoder
+ * @param json The value that couldn't be decoded
+ * @param errors The error messages of each decoder, closest match first
+ * @returns Formatted error message
+ * @internal
+ */
+export const oneOfErrors = (
+  decoderName: string,
+  json: any,
+  errors: ReadonlyArray<string>
+): string =>
+  errors.length === 0
+    ? oneOfError(decoderName, json)
+    : `${oneOfError(decoderName, json)}:${errorList(errors)}`;
+
+/**
+ * Creates a DecodeError for oneOf decoder failures.
+ * The decoder errors are ranked so that the decoder that got furthest into
+ * the value, which is most likely the intended one, comes first.
+ * @param decoderName Name of the decoder
+ * @param json The value that couldn't be decoded
+ * @param errors The error of each decoder, in declaration order
+ * @returns A `one-of` DecodeError caused by the decoder errors
+ * @internal
+ */
+export const oneOfDecodeError = (
+  decoderName: string,
+  json: any,
+  errors: ReadonlyArray<DecodeError>
+): DecodeError => {
+  const ranked = errors
+    .map(error => ({ error, depth: errorDepth(error) }))
+    .sort((a, b) => b.depth - a.depth)
+    .map(({ error }) => error);
+  return decodeError({
+    kind: 'one-of',
+    expected: decoderName,
+    received: json,
+    message: oneOfErrors(
+      decoderName,
+      json,
+      ranked.map(error => error.message)
+    ),
+    causes: ranked
+  });
+};
+
+/**
+ * How deep into the value the error happened, measured by the longest path in the error tree
+ * @param error The decoder error
+ * @returns The length of the longest path
+ */
+const errorDepth = (error: DecodeError): number =>
+  Math.max(error.path.length, ...error.causes.map(errorDepth));
+
+/**
+ * Creates an error message for oneOf codec encoding failures
+ * @param codecName Name of the codec
+ * @param value The value that couldn't be encoded
+ * @returns Formatted error message
+ * @internal
+ */
+export const oneOfEncodeError = (codecName: string, value: any): string =>
+  `<${codecName}> codec failed because ${JSON.stringify(
+    value
+  )} can't be encoded with any of the provided oneOf codecs`;
@@ -0,0 +1,29 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
+/**
+ * Creates an error message for integers that are too large to be numbers without rounding
+ * @param value The invalid number
+ * @param expected The expected type, e.g. `bigint`
+ * @returns Formatted error message
+ * @internal
+ */
+export const precisionLostError = (value: number, expected: string): string =>
+  `${value} is not a valid ${expected}, precision lost: integers beyond Number.MAX_SAFE_INTEGER must be sent as strings`;
+
+/**
+ * Creates a DecodeError for integers that are too large to be numbers without rounding
+ * @param value The invalid number
+ * @param expected The expected type, e.g. `bigint`
+ * @returns A `constraint` DecodeError
+ * @internal
+ */
+export const precisionLostDecodeError = (
+  value: number,
+  expected: string
+): DecodeError =>
+  decodeError({
+    kind: 'constraint',
+    expected,
+    received: value,
+    message: precisionLostError(value, expected)
+  });
@@ -1,3 +1,5 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
 /**
  * Creates an error message for primitive type mismatches
  * @param value The invalid value
@@ -7,3 +9,18 @@
  */
 export const primitiveError = (value: any, tag: string): string =>
   `${JSON.stringify(value)} is not a valid ${tag}`;
+
+/**
+ * Creates a DecodeError for primitive type mismatches
+ * @param value The invalid value
+ * @param tag The expected primitive type
+ * @returns A `primitive` DecodeError
+ * @internal
+ */
+export const primitiveDecodeError = (value: any, tag: string): DecodeError =>
+  decodeError({
+    kind: 'primitive',
+    expected: tag,
+    received: value,
+    message: primitiveError(value, tag)
+  });
@@ -1,3 +1,10 @@
+import {
+  decodeError,
+  prependPath,
+  type DecodeError
+} from '../utils/decode-error';
+import { errorList, type KeyedDecodeError } from './error-list';
+
 /**
  * Creates an error message for record decoder failures
  * @param decoderName Name of the decoder
@@ -12,3 +19,64 @@ export const recordError = (
   error: string
 ): string =>
   `<${decoderName}> record decoder failed at key "${key}" with error: ${error}`;
+
+/**
+ * Creates an error message for record decoder failures at several keys
+ * @param decoderName Name of the decoder
+ * @param errors The keys where decoding failed, with their error messages
+ * @returns Formatted error message
+ * @internal
+ */
+export const recordErrors = (
+  decoderName: string,
+  errors: ReadonlyArray<[key: string, error: string]>
+): string =>
+  `<${decoderName}> record decoder failed with ${errors.length} errors:` +
+  errorList(errors.map(([key, error]) => `at key "${key}": ${error}`));
+
+/**
+ * Creates a DecodeError for record decoder failures
+ * @param decoderName Name of the decoder
+ * @param json The record that couldn't be decoded
+ * @param failures The keys where decoding failed, with their errors
+ * @returns A `record` DecodeError caused by the failures
+ * @internal
+ */
+export const recordDecodeError = (
+  decoderName: string,
+  json: any,
+  failures: ReadonlyArray<KeyedDecodeError<string>>
+): DecodeError =>
+  decodeError({
+    kind: 'record',
+    expected: decoderName,
+    received: json,
+    message:
+      failures.length === 1
+        ? recordError(decoderName, failures[0].key, failures[0].error.message)
+        : recordErrors(
+            decoderName,
+            failures.map(({ key, error }) => [key, error.message])
+          ),
+    causes: failures.map(({ key, error }) => prependPath(error, key))
+  });
+
+/**
+ * Creates an error message for record keys that the key decoder rejects
+ * @param error The error message of the key decoder
+ * @returns Formatted error message
+ * @internal
+ */
+export const recordKeyError = (error: string): string =>
+  `invalid key: ${error}`;
+
+/**
+ * Creates a DecodeError for record keys that the key decoder rejects
+ * @param error The error of the key decoder
+ * @returns The key decoder error, with a message that says it is about the key
+ * @internal
+ */
+export const recordKeyDecodeError = (error: DecodeError): DecodeError => ({
+  ...error,
+  message: recordKeyError(error.message)
+});
@@ -1,15 +1,50 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
 /**
  * Creates an error message for tuple length mismatches
  * @param decoderName Name of the decoder
  * @param jsonArray The actual tuple array
- * @param decoders The array of decoders
+ * @param minLength The minimum length of the tuple, without its optional elements
+ * @param maxLength The maximum length of the tuple, `Infinity` when it has rest elements
  * @returns Formatted error message
  * @internal
  */
 export const tupleLengthMismatchError = (
   decoderName: string,
   jsonArray: readonly any[],
-  decoders: readonly any[]
+  minLength: number,
+  maxLength: number = minLength
 ): string =>
-  `<${decoderName}> tuple decoder failed because it received a tuple of length ` +
-  `${jsonArray.length}, but ${decoders.length} decoders.`;
+  `<${decoderName}> tuple decoder failed because it received a tuple of length ${jsonArray.length}, ` +
+  (minLength === maxLength
+    ? `but ${minLength} decoders.`
+    : maxLength === Infinity
+      ? `but expected a length of at least ${minLength}.`
+      : `but expected a length from ${minLength} to ${maxLength}.`);
+
+/**
+ * Creates a DecodeError for tuple length mismatches
+ * @param decoderName Name of the decoder
+ * @param jsonArray The actual tuple array
+ * @param minLength The minimum length of the tuple, without its optional elements
+ * @param maxLength The maximum length of the tuple, `Infinity` when it has rest elements
+ * @returns A `tuple-length` DecodeError
+ * @internal
+ */
+export const tupleLengthMismatchDecodeError = (
+  decoderName: string,
+  jsonArray: readonly any[],
+  minLength: number,
+  maxLength: number = minLength
+): DecodeError =>
+  decodeError({
+    kind: 'tuple-length',
+    expected: decoderName,
+    received: jsonArray,
+    message: tupleLengthMismatchError(
+      decoderName,
+      jsonArray,
+      minLength,
+      maxLength
+    )
+  });
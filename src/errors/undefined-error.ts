@@ -1,3 +1,5 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
 /**
  * Creates an error message for undefined type mismatches
  * @param json The non-undefined value
@@ -6,3 +8,17 @@
  */
 export const undefinedError = (json: any): string =>
   `${JSON.stringify(json)} is not undefined`;
+
+/**
+ * Creates a DecodeError for undefined type mismatches
+ * @param json The non-undefined value
+ * @returns A `primitive` DecodeError
+ * @internal
+ */
+export const undefinedDecodeError = (json: any): DecodeError =>
+  decodeError({
+    kind: 'primitive',
+    expected: 'undefined',
+    received: json,
+    message: undefinedError(json)
+  });
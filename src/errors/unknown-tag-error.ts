@@ -0,0 +1,43 @@
+import { decodeError, type DecodeError } from '../utils/decode-error';
+
+/**
+ * Creates an error message for discriminated union tags that don't match any decoder
+ * @param decoderName Name of the decoder
+ * @param tag The discriminator key
+ * @param value The invalid tag value
+ * @param tags The supported tag values
+ * @returns Formatted error message
+ * @internal
+ */
+export const unknownTagError = (
+  decoderName: string,
+  tag: string,
+  value: any,
+  tags: ReadonlyArray<string>
+): string =>
+  `<${decoderName}> decoder failed at key "${tag}" because of unknown tag ${JSON.stringify(
+    value
+  )}, expected one of ${tags.map(t => JSON.stringify(t)).join(' | ')}`;
+
+/**
+ * Creates a DecodeError for discriminated union tags that don't match any decoder
+ * @param decoderName Name of the decoder
+ * @param tag The discriminator key
+ * @param value The invalid tag value
+ * @param tags The supported tag values
+ * @returns An `unknown-tag` DecodeError located at the discriminator key
+ * @internal
+ */
+export const unknownTagDecodeError = (
+  decoderName: string,
+  tag: string,
+  value: any,
+  tags: ReadonlyArray<string>
+): DecodeError =>
+  decodeError({
+    kind: 'unknown-tag',
+    path: [tag],
+    expected: tags.join(' | '),
+    received: value,
+    message: unknownTagError(decoderName, tag, value, tags)
+  });
@@ -0,0 +1,966 @@
+/**
+ * @module
+ * @mergeModuleWith generate
+ * @category Api docs
+ */
+
+import type { Decoder } from '../core';
+import type { BigIntConstraints } from '../schemas/bigint';
+import type { CoercionTarget } from '../schemas/coerce';
+import type { DateTimeFormat } from '../schemas/date-time';
+import type { DecimalConstraints } from '../schemas/decimal';
+import type { NumberConstraints } from '../schemas/number';
+import type { StringConstraints } from '../schemas/string';
+import { codePointLength } from '../utils/constraint-checks';
+import { formatDecimal, parseDecimal } from '../utils/decimal';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import { booleanStrings, type StringFormat } from '../utils/string-format';
+
+/**
+ * Options of {@link generate}.
+ */
+export interface GenerateOptions {
+  /**
+   * The seed of the random generator. The same decoder and seed always generate the same sample.
+   * Defaults to `0`.
+   */
+  readonly seed?: number;
+  /**
+   * How many times `lazy` decoders are entered before the generator looks for the smallest
+   * sample (empty arrays, missing optional fields, the first `oneOf` decoder that ends the recursion...).
+   * Defaults to `3`.
+   */
+  readonly maxDepth?: number;
+  /**
+   * When `true`, generates a near-miss sample that the decoder rejects instead of a valid one:
+   * a valid sample with a single wrong value, a missing field, an unknown key, a wrong tuple length...
+   * Defaults to `false`.
+   */
+  readonly invalid?: boolean;
+}
+
+const maxAttempts = 100;
+
+/**
+ * How many `lazy` decoders can be entered past `maxDepth` while looking for the smallest sample.
+ */
+const maxExtraDepth = 10;
+
+/**
+ * Generates a random JSON sample for a decoder, deterministically from a seed.
+ * The sample is the JSON input of the decoder (with `fromKey` keys, before `map` transformations),
+ * and the decoder is guaranteed to accept it, or to reject it in `invalid` mode.
+ *
+ * Samples are built from the decoder descriptors of `object`, `objectStrict`, `array`, `record`,
+ * `tuple`, `oneOf`, `allOf`, `discriminatedUnion`, `enumeration`, `literal`, `nullable`, `optional`,
+ * `lazy` and the primitives. Decoders that can't be described (`flatMap` steps, custom decoders)
+ * are handled by generating candidates until the decoder accepts one.
+ * String `pattern` constraints are not generated from: the samples are random strings that meet
+ * the other constraints, so most patterns can't be matched.
+ *
+ * @param decoder The decoder to generate a sample for
+ * @param options The generator options
+ * @returns A JSON sample
+ * @throws {Error} When no sample can be generated, e.g. for a `fail` decoder,
+ * an invalid sample for a decoder that accepts every value, or a string `pattern` that random strings don't match
+ *
+ * @example
+ * ```ts
+ * const userDecoder = JsonDecoder.object(
+ *   {
+ *     name: { fromKey: 'user_name', decoder: JsonDecoder.string() },
+ *     age: JsonDecoder.optional(JsonDecoder.number())
+ *   },
+ *   'User'
+ * );
+ *
+ * JsonDecoder.generate(userDecoder, { seed: 42 }); // e.g. { user_name: 'aX3b', age: -310 }
+ * JsonDecoder.generate(userDecoder, { seed: 42, invalid: true }); // e.g. { user_name: 17 }
+ *
+ * // Property-based tests
+ * for (let seed = 0; seed < 100; seed++) {
+ *   const user = userDecoder.parse(JsonDecoder.generate(userDecoder, { seed }));
+ *   // ...
+ * }
+ * ```
+ */
+export function generate(
+  decoder: Decoder<unknown>,
+  options: GenerateOptions = {}
+): unknown {
+  const context: Context = {
+    random: mulberry32(options.seed ?? 0),
+    maxDepth: options.maxDepth ?? 3
+  };
+  const invalid = options.invalid ?? false;
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const sample = invalid
+      ? invalidSample(decoder, context, 0)
+      : validSample(decoder, context, 0);
+    if (decoder.decode(sample).isOk() !== invalid) {
+      return sample;
+    }
+  }
+  throw new Error(
+    `Couldn't generate ${invalid ? 'an invalid' : 'a valid'} sample in ${maxAttempts} attempts`
+  );
+}
+
+type Context = {
+  random: () => number;
+  maxDepth: number;
+};
+
+class TooDeepError extends Error {
+  constructor() {
+    super(
+      `Couldn't generate a sample: the recursion of lazy decoders can't be bounded`
+    );
+  }
+}
+
+function validSample(
+  decoder: Decoder<unknown>,
+  context: Context,
+  depth: number
+): unknown {
+  const descriptor = decoder.descriptor;
+  const minimal = depth >= context.maxDepth;
+  switch (descriptor.kind) {
+    case 'string':
+      return descriptor.constraints === undefined
+        ? randomString(context)
+        : constrainedString(context, descriptor.constraints);
+    case 'number':
+      return descriptor.constraints === undefined
+        ? randomNumber(context)
+        : constrainedNumber(context, descriptor.constraints);
+    case 'boolean':
+      return context.random() < 0.5;
+    case 'null':
+      return null;
+    case 'undefined':
+      return undefined;
+    case 'bigint':
+      return bigintSample(context, descriptor.constraints);
+    case 'decimal':
+      return decimalSample(context, descriptor.constraints);
+    case 'coerce':
+      return coercibleString(
+        context,
+        descriptor.target,
+        descriptor.constraints
+      );
+    case 'date-time':
+      return dateTimeSample(context, descriptor);
+    case 'literal':
+      return descriptor.value;
+    case 'enum':
+      return pick(context, descriptor.values);
+    case 'object': {
+      const json: { [key: string]: unknown } = {};
+      for (const key in descriptor.fields) {
+        const { fromKey, decoder: field } = descriptor.fields[key];
+        if (
+          field.descriptor.kind === 'exact-optional' &&
+          (minimal || context.random() < 0.3)
+        ) {
+          continue;
+        }
+        const value = validSample(field, context, depth);
+        if (value !== undefined) {
+          json[fromKey] = value;
+        }
+      }
+      const { unknownKeys } = descriptor;
+      if (typeof unknownKeys === 'object' && !minimal) {
+        for (let i = integer(context, 0, 2); i > 0; i--) {
+          json[`extra_${randomString(context, 1)}`] = validSample(
+            unknownKeys.catchall,
+            context,
+            depth
+          );
+        }
+      }
+      return json;
+    }
+    case 'empty-object':
+      return {};
+    case 'array':
+      return Array.from({ length: minimal ? 0 : integer(context, 0, 3) }, () =>
+        validSample(descriptor.element, context, depth)
+      );
+    case 'record': {
+      const json: { [key: string]: unknown } = {};
+      const size = minimal ? 0 : integer(context, 0, 3);
+      for (let i = 0; i < size; i++) {
+        const key =
+          descriptor.key === undefined
+            ? randomString(context, 1)
+            : String(validSample(descriptor.key, context, depth));
+        json[key] = validSample(descriptor.element, context, depth);
+      }
+      return json;
+    }
+    case 'map-collection': {
+      const size = minimal ? 0 : integer(context, 0, 3);
+      const pairs = Array.from({ length: size }, () => [
+        validSample(descriptor.key, context, depth),
+        validSample(descriptor.element, context, depth)
+      ]);
+      return pairs.every(([key]) => typeof key === 'string') &&
+        context.random() < 0.5
+        ? Object.fromEntries(pairs)
+        : pairs;
+    }
+    case 'set': {
+      const elements = Array.from(
+        { length: minimal ? 0 : integer(context, 0, 3) },
+        () => validSample(descriptor.element, context, depth)
+      );
+      return descriptor.rejectDuplicates
+        ? elements.filter(
+            (element, i) =>
+              elements.findIndex(
+                other => JSON.stringify(other) === JSON.stringify(element)
+              ) === i
+          )
+        : elements;
+    }
+    case 'tuple': {
+      const json = descriptor.elements.map(element =>
+        validSample(element, context, depth)
+      );
+      // missing optional elements are left out, rather than set to undefined
+      while (
+        json.length > 0 &&
+        json[json.length - 1] === undefined &&
+        descriptor.elements[json.length - 1].descriptor.kind === 'optional'
+      ) {
+        json.pop();
+      }
+      if (descriptor.rest !== undefined && !minimal) {
+        for (let i = integer(context, 0, 2); i > 0; i--) {
+          json.push(validSample(descriptor.rest, context, depth));
+        }
+      }
+      return json;
+    }
+    case 'one-of':
+      return minimal
+        ? firstSample(descriptor.members, context, depth)
+        : validSample(pick(context, descriptor.members), context, depth);
+    case 'discriminated-union': {
+      const tags = Object.keys(descriptor.members);
+      const tag = minimal ? tags[0] : pick(context, tags);
+      const json = validSample(descriptor.members[tag], context, depth);
+      return isObject(json) ? { ...json, [descriptor.tag]: tag } : json;
+    }
+    case 'all-of':
+      return descriptor.members
+        .map(member => validSample(member, context, depth))
+        .reduce((merged, sample) => merge(merged, sample));
+    case 'optional':
+      return minimal || context.random() < 0.3
+        ? undefined
+        : validSample(descriptor.decoder, context, depth);
+    case 'nullable':
+      return minimal || context.random() < 0.3
+        ? null
+        : validSample(descriptor.decoder, context, depth);
+    case 'with-default':
+      return minimal || context.random() < 0.3
+        ? undefined
+        : validSample(descriptor.decoder, context, depth);
+    case 'exact-optional':
+    case 'map':
+    case 'flat-map':
+    case 'fallback':
+      return validSample(descriptor.decoder, context, depth);
+    case 'lazy':
+      if (depth >= context.maxDepth + maxExtraDepth) {
+        throw new TooDeepError();
+      }
+      return validSample(descriptor.resolve(), context, depth + 1);
+    case 'constant':
+    case 'succeed':
+    case 'custom':
+      return randomJson(context);
+    case 'fail':
+      throw new Error(
+        `Couldn't generate a sample: the decoder always fails with "${descriptor.message}"`
+      );
+  }
+}
+
+/**
+ * Generates a sample with the first decoder that can end the recursion of lazy decoders.
+ */
+function firstSample(
+  decoders: ReadonlyArray<Decoder<unknown>>,
+  context: Context,
+  depth: number
+): unknown {
+  for (const decoder of decoders) {
+    try {
+      return validSample(decoder, context, depth);
+    } catch (error) {
+      if (!(error instanceof TooDeepError)) {
+        throw error;
+      }
+    }
+  }
+  throw new TooDeepError();
+}
+
+function invalidSample(
+  decoder: Decoder<unknown>,
+  context: Context,
+  depth: number
+): unknown {
+  const descriptor = decoder.descriptor;
+  switch (descriptor.kind) {
+    case 'string': {
+      if (descriptor.constraints === undefined || context.random() < 0.3) {
+        return randomNumber(context);
+      }
+      const str = constrainedString(context, descriptor.constraints);
+      return pick(context, [
+        str.slice(1),
+        str.slice(0, -1),
+        `${str}${randomString(context, 1, 1)}`,
+        `${randomString(context, 1, 1)}${str}`,
+        ''
+      ]);
+    }
+    case 'number': {
+      const constraints = descriptor.constraints;
+      if (constraints === undefined || context.random() < 0.3) {
+        return String(randomNumber(context));
+      }
+      const n = constrainedNumber(context, constraints);
+      const step = constraints.multipleOf ?? 1;
+      const nearMisses = [
+        constraints.min === undefined ? undefined : constraints.min - step,
+        constraints.exclusiveMin,
+        constraints.positive ? 0 : undefined,
+        constraints.nonNegative ? -step : undefined,
+        constraints.max === undefined ? undefined : constraints.max + step,
+        constraints.exclusiveMax,
+        constraints.integer || constraints.safeInteger || constraints.multipleOf
+          ? n + step / 2
+          : undefined,
+        constraints.safeInteger ? Number.MAX_SAFE_INTEGER + 2 : undefined
+      ].filter(nearMiss => nearMiss !== undefined);
+      return nearMisses.length > 0 ? pick(context, nearMisses) : String(n);
+    }
+    case 'boolean':
+      return pick(context, ['true', 'false', 0, 1]);
+    case 'null':
+      return pick(context, [undefined, 0, 'null']);
+    case 'undefined':
+      return pick(context, [null, 0, '']);
+    case 'bigint': {
+      const { min, exclusiveMin, max, exclusiveMax } =
+        descriptor.constraints ?? {};
+      return pick(context, [
+        '1.5',
+        '1e3',
+        '',
+        1.5,
+        Number.MAX_SAFE_INTEGER + 2,
+        ...[
+          min === undefined ? undefined : min - 1n,
+          exclusiveMin,
+          max === undefined ? undefined : max + 1n,
+          exclusiveMax
+        ]
+          .filter(bound => bound !== undefined)
+          .map(String)
+      ]);
+    }
+    case 'decimal': {
+      const { scale, maxScale, maxDigits, min, max } =
+        descriptor.constraints ?? {};
+      const sample = decimalSample(context, descriptor.constraints);
+      const nearMisses = [
+        scale !== undefined || maxScale !== undefined
+          ? `${sample}${sample.includes('.') ? '' : '.'}5`
+          : undefined,
+        scale !== undefined && scale > 0 ? sample.slice(0, -1) : undefined,
+        maxDigits === undefined ? undefined : '9'.repeat(maxDigits + 1),
+        min === undefined ? undefined : offsetDecimal(min, -1n),
+        max === undefined ? undefined : offsetDecimal(max, 1n)
+      ].filter(nearMiss => nearMiss !== undefined);
+      return nearMisses.length > 0 && context.random() < 0.7
+        ? pick(context, nearMisses)
+        : pick(context, [Number(sample), `+${sample}`, `${sample}e0`, '.5']);
+    }
+    case 'date-time': {
+      const { format, offset, after, before } = descriptor;
+      const bounds = [after, before].filter(
+        (bound): bound is Date => bound !== undefined
+      );
+      if (bounds.length > 0 && context.random() < 0.5) {
+        return dateTimeSample(context, {
+          ...descriptor,
+          after: undefined,
+          before: undefined,
+          at: pick(context, bounds)
+        });
+      }
+      if (format === 'date-time' && offset !== 'optional') {
+        const sample = dateTimeSample(context, descriptor) as string;
+        return offset === 'required' ? sample.slice(0, -1) : `${sample}Z`;
+      }
+      return pick(context, dateTimeNearMisses[format]);
+    }
+    case 'coerce':
+      return pick(context, [
+        '',
+        ` ${coercibleString(context, descriptor.target)}`,
+        `${coercibleString(context, descriptor.target)}x`,
+        ...coercionNearMisses[descriptor.target]
+      ]);
+    case 'literal':
+      return nearMiss(context, descriptor.value);
+    case 'enum':
+      return nearMiss(context, pick(context, descriptor.values));
+    case 'object': {
+      const json = validSample(decoder, context, depth) as {
+        [key: string]: unknown;
+      };
+      const keys = Object.keys(descriptor.fields);
+      const roll = context.random();
+      if (keys.length > 0 && roll < 0.8) {
+        const { fromKey, decoder: field } =
+          descriptor.fields[pick(context, keys)];
+        return withKey(json, fromKey, invalidSample(field, context, depth));
+      }
+      if (descriptor.strict && roll < 0.9) {
+        return { ...json, [`unknown_${randomString(context, 1)}`]: 1 };
+      }
+      if (typeof descriptor.unknownKeys === 'object' && roll < 0.9) {
+        return {
+          ...json,
+          [`extra_${randomString(context, 1)}`]: invalidSample(
+            descriptor.unknownKeys.catchall,
+            context,
+            depth
+          )
+        };
+      }
+      return [json];
+    }
+    case 'empty-object':
+      return { [randomString(context, 1)]: randomJson(context) };
+    case 'set': {
+      const json = validSample(decoder, context, depth) as unknown[];
+      if (
+        descriptor.rejectDuplicates &&
+        json.length > 0 &&
+        context.random() < 0.5
+      ) {
+        return [...json, pick(context, json)];
+      }
+      return context.random() < 0.2
+        ? { ...json }
+        : [...json, invalidSample(descriptor.element, context, depth)];
+    }
+    case 'map-collection': {
+      const key = validSample(descriptor.key, context, depth);
+      const element = validSample(descriptor.element, context, depth);
+      return pick(context, [
+        [[key]],
+        [[key, element, element]],
+        [[invalidSample(descriptor.key, context, depth), element]],
+        [[key, invalidSample(descriptor.element, context, depth)]],
+        typeof key === 'string'
+          ? { [key]: invalidSample(descriptor.element, context, depth) }
+          : key
+      ]);
+    }
+    case 'array':
+    case 'record': {
+      const json = validSample(decoder, context, depth) as
+        | unknown[]
+        | { [key: string]: unknown };
+      if (
+        descriptor.kind === 'record' &&
+        descriptor.key !== undefined &&
+        context.random() < 0.3
+      ) {
+        return withKey(
+          json as { [key: string]: unknown },
+          String(invalidSample(descriptor.key, context, depth)),
+          validSample(descriptor.element, context, depth)
+        );
+      }
+      const keys = Object.keys(json);
+      if (context.random() < 0.2) {
+        return descriptor.kind === 'array' ? { ...json } : keys;
+      }
+      const key =
+        keys.length > 0 && context.random() < 0.5
+          ? pick(context, keys)
+          : descriptor.kind === 'array'
+            ? String(keys.length)
+            : randomString(context, 1);
+      const element = invalidSample(descriptor.element, context, depth);
+      if (Array.isArray(json)) {
+        json[Number(key)] = element;
+        return json;
+      }
+      return withKey(json, key, element);
+    }
+    case 'tuple': {
+      const json = validSample(decoder, context, depth) as unknown[];
+      if (json.length === 0 || context.random() < 0.3) {
+        return context.random() < 0.5 || json.length === 0
+          ? [...json, randomJson(context)]
+          : json.slice(0, -1);
+      }
+      const index = integer(context, 0, json.length - 1);
+      json[index] = invalidSample(
+        descriptor.elements[index] ?? descriptor.rest,
+        context,
+        depth
+      );
+      return json;
+    }
+    case 'one-of':
+    case 'all-of':
+      return invalidSample(pick(context, descriptor.members), context, depth);
+    case 'discriminated-union': {
+      const tags = Object.keys(descriptor.members);
+      const tag = pick(context, tags);
+      if (context.random() < 0.3) {
+        const json = validSample(descriptor.members[tag], context, depth);
+        return isObject(json)
+          ? { ...json, [descriptor.tag]: `${tag}_${randomString(context, 1)}` }
+          : json;
+      }
+      const json = invalidSample(descriptor.members[tag], context, depth);
+      return isObject(json) ? { ...json, [descriptor.tag]: tag } : json;
+    }
+    case 'optional':
+    case 'exact-optional':
+    case 'nullable':
+    case 'with-default':
+    case 'map':
+      return invalidSample(descriptor.decoder, context, depth);
+    case 'flat-map':
+      return context.random() < 0.5
+        ? invalidSample(descriptor.decoder, context, depth)
+        : validSample(descriptor.decoder, context, depth);
+    case 'lazy':
+      return invalidSample(descriptor.resolve(), context, depth + 1);
+    case 'fallback':
+    case 'constant':
+    case 'succeed':
+      throw new Error(
+        `Couldn't generate an invalid sample: ${descriptor.kind} decoders accept every value`
+      );
+    case 'fail':
+    case 'custom':
+      return randomJson(context);
+  }
+}
+
+/**
+ * A value close to the given one, that is most likely different.
+ */
+function nearMiss(context: Context, value: unknown): unknown {
+  switch (typeof value) {
+    case 'string':
+      return context.random() < 0.5
+        ? value.toUpperCase() + randomString(context, 1)
+        : value.slice(0, -1);
+    case 'number':
+      return context.random() < 0.5 ? value + 1 : String(value);
+    case 'boolean':
+      return !value;
+    default:
+      return value === null ? 'null' : null;
+  }
+}
+
+function withKey(
+  json: { [key: string]: unknown },
+  key: string,
+  value: unknown
+): { [key: string]: unknown } {
+  const copy = { ...json, [key]: value };
+  if (value === undefined) {
+    delete copy[key];
+  }
+  return copy;
+}
+
+function merge(target: unknown, source: unknown): unknown {
+  if (!isObject(target) || !isObject(source)) {
+    return target;
+  }
+  const merged: { [key: string]: unknown } = { ...target };
+  for (const key of Object.keys(source)) {
+    merged[key] = key in target ? merge(target[key], source[key]) : source[key];
+  }
+  return merged;
+}
+
+function randomJson(context: Context): unknown {
+  switch (integer(context, 0, 5)) {
+    case 0:
+      return randomString(context);
+    case 1:
+      return randomNumber(context);
+    case 2:
+      return context.random() < 0.5;
+    case 3:
+      return null;
+    case 4:
+      return [randomNumber(context)];
+    default:
+      return { [randomString(context, 1)]: randomString(context) };
+  }
+}
+
+const alphabet =
+  'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 -_';
+
+/**
+ * A random string that meets the length, prefix, suffix and format constraints.
+ * Patterns are only checked when the sample is validated by the decoder.
+ */
+function constrainedString(
+  context: Context,
+  constraints: StringConstraints
+): string {
+  const {
+    nonEmpty,
+    length,
+    startsWith = '',
+    endsWith = '',
+    format
+  } = constraints;
+  if (format !== undefined) {
+    return formattedString(context, format);
+  }
+  const affixes = codePointLength(startsWith + endsWith);
+  const minLength = Math.max(
+    nonEmpty ? 1 : 0,
+    length ?? 0,
+    constraints.minLength ?? 0,
+    affixes
+  );
+  const maxLength = Math.min(
+    length ?? Infinity,
+    constraints.maxLength ?? Infinity,
+    minLength + 8
+  );
+  const total = integer(context, minLength, Math.max(minLength, maxLength));
+  const middle = randomString(context, total - affixes, total - affixes);
+  return startsWith + middle + endsWith;
+}
+
+function formattedString(context: Context, format: StringFormat): string {
+  const word = () => randomString(context, 1, 8, lowercase);
+  const hex = (size: number) => randomString(context, size, size, hexDigits);
+  const pad = (n: number, size = 2) => String(n).padStart(size, '0');
+  const date = () =>
+    `${integer(context, 1970, 2099)}-${pad(integer(context, 1, 12))}-${pad(integer(context, 1, 28))}`;
+  switch (format) {
+    case 'email':
+      return `${word()}@${word()}.com`;
+    case 'uuid':
+      return `${hex(8)}-${hex(4)}-${hex(4)}-${hex(4)}-${hex(12)}`;
+    case 'url':
+      return `https://${word()}.com/${word()}`;
+    case 'uri':
+      return `urn:${word()}:${word()}`;
+    case 'hostname':
+      return `${word()}.example.com`;
+    case 'ipv4':
+      return Array.from({ length: 4 }, () => integer(context, 0, 255)).join(
+        '.'
+      );
+    case 'ipv6':
+      return Array.from({ length: 8 }, () => hex(integer(context, 1, 4))).join(
+        ':'
+      );
+    case 'date':
+      return date();
+    case 'date-time':
+      return `${date()}T${pad(integer(context, 0, 23))}:${pad(integer(context, 0, 59))}:${pad(integer(context, 0, 59))}.${pad(integer(context, 0, 999), 3)}Z`;
+    case 'base64':
+      return Array.from({ length: integer(context, 0, 3) }, () =>
+        randomString(context, 4, 4, base64Digits)
+      ).join('');
+  }
+}
+
+const lowercase = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const hexDigits = '0123456789abcdef';
+const base64Digits =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function randomString(
+  context: Context,
+  minLength = 0,
+  maxLength = Math.max(minLength, 8),
+  characters = alphabet
+): string {
+  const length = integer(context, minLength, maxLength);
+  let str = '';
+  for (let i = 0; i < length; i++) {
+    str += characters[integer(context, 0, characters.length - 1)];
+  }
+  return str;
+}
+
+/**
+ * A random sample in the format of a date-time decoder, between its bounds or at the given date.
+ */
+function dateTimeSample(
+  context: Context,
+  descriptor: Extract<DecoderDescriptor, { kind: 'date-time' }> & {
+    at?: Date;
+  }
+): unknown {
+  const { format, offset, after, before, at } = descriptor;
+  const min = after?.getTime() ?? Date.UTC(1970, 0, 1);
+  const max = before?.getTime() ?? Math.max(min, Date.UTC(2100, 0, 1));
+  const date = at ?? new Date(min + Math.floor(context.random() * (max - min)));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  switch (format) {
+    case 'date':
+      return date.toISOString().slice(0, 10);
+    case 'date-time':
+      return offset === 'forbidden'
+        ? date.toISOString().slice(0, -1)
+        : date.toISOString();
+    case 'epoch-seconds':
+      return date.getTime() / 1000;
+    case 'epoch-milliseconds':
+      return date.getTime();
+    case 'time':
+      return `${pad(integer(context, 0, 23))}:${pad(integer(context, 0, 59))}:${pad(integer(context, 0, 59))}`;
+    case 'duration':
+      return `P${integer(context, 0, 30)}DT${integer(context, 1, 23)}H`;
+  }
+}
+
+const dateTimeNearMisses: { readonly [F in DateTimeFormat]: unknown[] } = {
+  date: ['2023-02-29', '2024-13-01', '2024-2-1', '29/02/2024'],
+  'date-time': ['2024-02-29T24:00:00Z', '2024-02-29 13:45:00Z', '2024-02-29'],
+  time: ['24:00', '12:60', '1:00', '12h30'],
+  'epoch-seconds': ['1709214300', 1e300],
+  'epoch-milliseconds': ['1709214300000', 1e300],
+  duration: ['P', 'PT', 'P1H', '1D']
+};
+
+/**
+ * A random string that a `coerce` decoder parses into its target type.
+ */
+function coercibleString(
+  context: Context,
+  target: CoercionTarget,
+  constraints: NumberConstraints = {}
+): string {
+  switch (target) {
+    case 'number':
+      return String(constrainedNumber(context, constraints));
+    case 'boolean':
+      return pick(context, Object.keys(booleanStrings));
+    case 'date':
+      return formattedString(
+        context,
+        context.random() < 0.5 ? 'date' : 'date-time'
+      );
+    case 'bigint':
+      return String(integer(context, -1000000, 1000000));
+  }
+}
+
+const coercionNearMisses: { readonly [T in CoercionTarget]: string[] } = {
+  number: ['NaN', 'Infinity', '1e999', '0x10', '1_000', '1,5'],
+  boolean: ['yes', 'no', 'TRUE', 'on'],
+  date: ['2023-02-29', '29/02/2024', '2024-02-29T13:45:00', 'now'],
+  bigint: ['1.5', '1e3', '0x10', '1n']
+};
+
+/**
+ * A random integer within the bounds, as a string, or as a number when it is a safe integer.
+ * Without bounds, it is often beyond `Number.MAX_SAFE_INTEGER`.
+ */
+function bigintSample(
+  context: Context,
+  constraints: BigIntConstraints = {}
+): string | number {
+  const { min, exclusiveMin, max, exclusiveMax } = constraints;
+  const lower = maxBigInt([
+    min,
+    exclusiveMin === undefined ? undefined : exclusiveMin + 1n
+  ]);
+  const upper = minBigInt([
+    max,
+    exclusiveMax === undefined ? undefined : exclusiveMax - 1n
+  ]);
+  const range = 10n ** 20n;
+  const from = lower ?? (upper === undefined ? -range : upper - range);
+  const to = upper ?? from + 2n * range;
+  const value = randomBigInt(context, from, to);
+  return Number.isSafeInteger(Number(value)) && context.random() < 0.3
+    ? Number(value)
+    : value.toString();
+}
+
+/**
+ * A random decimal string with the constrained scale, digits and bounds.
+ */
+function decimalSample(
+  context: Context,
+  constraints: DecimalConstraints = {}
+): string {
+  const { maxScale, maxDigits, min, max } = constraints;
+  const scale =
+    constraints.scale ??
+    integer(context, 0, Math.min(maxScale ?? 4, (maxDigits ?? 5) - 1));
+  const cap =
+    maxDigits === undefined
+      ? 10n ** BigInt(6 + scale)
+      : 10n ** BigInt(maxDigits) - 1n;
+  const lower = maxBigInt([
+    -cap,
+    min === undefined ? undefined : scaledBound(min, scale, 'up')
+  ]);
+  const upper = minBigInt([
+    cap,
+    max === undefined ? undefined : scaledBound(max, scale, 'down')
+  ]);
+  return formatDecimal({
+    unscaled: randomBigInt(context, lower ?? -cap, upper ?? cap),
+    scale
+  });
+}
+
+/**
+ * The unscaled value of a decimal bound at another scale, rounded up or down when it has more decimal places.
+ */
+function scaledBound(
+  bound: string,
+  scale: number,
+  rounding: 'up' | 'down'
+): bigint {
+  const decimal = parseDecimal(bound);
+  if (decimal.scale <= scale) {
+    return decimal.unscaled * 10n ** BigInt(scale - decimal.scale);
+  }
+  const divisor = 10n ** BigInt(decimal.scale - scale);
+  const quotient = decimal.unscaled / divisor;
+  if (decimal.unscaled % divisor === 0n) {
+    return quotient;
+  }
+  // bigint division truncates toward zero
+  if (rounding === 'up') {
+    return decimal.unscaled > 0n ? quotient + 1n : quotient;
+  }
+  return decimal.unscaled < 0n ? quotient - 1n : quotient;
+}
+
+/**
+ * A decimal bound moved by one unit of its last decimal place, e.g. `'0.01'` by `-1n` is `'0.00'`.
+ */
+function offsetDecimal(bound: string, units: bigint): string {
+  const decimal = parseDecimal(bound);
+  return formatDecimal({ ...decimal, unscaled: decimal.unscaled + units });
+}
+
+function randomBigInt(context: Context, min: bigint, max: bigint): bigint {
+  const offset = BigInt(Math.floor(context.random() * Number(max - min + 1n)));
+  // the float product can round up to the size of the range
+  return offset > max - min ? max : min + offset;
+}
+
+function maxBigInt(values: Array<bigint | undefined>): bigint | undefined {
+  return values.reduce<bigint | undefined>(
+    (result, value) =>
+      value === undefined || (result !== undefined && result >= value)
+        ? result
+        : value,
+    undefined
+  );
+}
+
+function minBigInt(values: Array<bigint | undefined>): bigint | undefined {
+  return values.reduce<bigint | undefined>(
+    (result, value) =>
+      value === undefined || (result !== undefined && result <= value)
+        ? result
+        : value,
+    undefined
+  );
+}
+
+/**
+ * A random number within the bounds, and a multiple of the step when there is one.
+ */
+function constrainedNumber(
+  context: Context,
+  constraints: NumberConstraints
+): number {
+  const { positive, nonNegative, multipleOf } = constraints;
+  const min = Math.max(
+    positive || nonNegative ? 0 : -Infinity,
+    constraints.min ?? -Infinity,
+    constraints.exclusiveMin ?? -Infinity
+  );
+  const max = Math.min(
+    constraints.max ?? Infinity,
+    constraints.exclusiveMax ?? Infinity
+  );
+  const lower = isFinite(min) ? min : isFinite(max) ? max - 2000 : -1000;
+  const upper = isFinite(max) ? max : lower + 2000;
+  const step =
+    multipleOf ??
+    (constraints.integer || constraints.safeInteger ? 1 : undefined);
+  if (step !== undefined) {
+    return (
+      integer(context, Math.ceil(lower / step), Math.floor(upper / step)) * step
+    );
+  }
+  return lower + Math.floor(context.random() * (upper - lower) * 100) / 100;
+}
+
+function randomNumber(context: Context): number {
+  const n = integer(context, -1000, 1000);
+  return context.random() < 0.7
+    ? n
+    : n + Math.round(context.random() * 100) / 100;
+}
+
+function integer(context: Context, min: number, max: number): number {
+  return min + Math.floor(context.random() * (max - min + 1));
+}
+
+function pick<T>(context: Context, values: ReadonlyArray<T>): T {
+  return values[integer(context, 0, values.length - 1)];
+}
+
+function isObject(json: unknown): json is { [key: string]: unknown } {
+  return json !== null && typeof json === 'object' && !Array.isArray(json);
+}
+
+/**
+ * A small and fast seeded random generator, returning numbers in [0, 1).
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * This module contains the generator of random samples for decoders.
+ * @module generate
+ * @category Api docs
+ */
+
+export * from './generate';
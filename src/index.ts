@@ -1,24 +1,64 @@
-export { Decoder, type FromDecoder } from './core';
+export {
+  type AbortSignalLike,
+  type AsyncCheckContext,
+  AsyncDecoder,
+  type AsyncDecodeOptions,
+  type Brand,
+  Codec,
+  Decoder,
+  type DecodeOptions,
+  type FromDecoder
+} from './core';
+export * from './env';
+export * from './generate';
+export * from './json-schema';
 export * from './schemas/all-of';
 export * from './schemas/array';
+export * from './schemas/array-async';
+export * from './schemas/bigint';
 export * from './schemas/boolean';
+export * from './schemas/coerce';
 export * from './schemas/constant';
+export * from './schemas/date-time';
+export * from './schemas/decimal';
+export * from './schemas/discriminated-union';
 export * from './schemas/empty-object';
 export * from './schemas/enum';
+export * from './schemas/exact-optional';
 export * from './schemas/fail';
 export * from './schemas/fallback';
 export * from './schemas/lazy';
 export * from './schemas/literal';
+export * from './schemas/map';
 export * from './schemas/null';
 export * from './schemas/nullable';
+export * from './schemas/nullish';
 export * from './schemas/number';
 export * from './schemas/object';
+export * from './schemas/object-async';
+export * from './schemas/object-operations';
 export * from './schemas/object-strict';
 export * from './schemas/one-of';
 export * from './schemas/optional';
 export * from './schemas/record';
+export * from './schemas/set';
 export * from './schemas/string';
 export * from './schemas/succeed';
 export * from './schemas/tuple';
 export * from './schemas/undefined';
+export * from './schemas/with-default';
+export * from './typescript';
+export {
+  decodeError,
+  type DecodeError,
+  type DecodeErrorKind,
+  type DecodeErrorPathSegment
+} from './utils/decode-error';
+export {
+  decoderChildren,
+  walkDecoder,
+  type DecoderChild,
+  type DecoderDescriptor,
+  type DecoderKind
+} from './utils/decoder-descriptor';
 export { Err, err, Ok, ok, type Result } from './utils/result';
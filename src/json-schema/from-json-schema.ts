@@ -0,0 +1,747 @@
+/**
+ * @module
+ * @mergeModuleWith json-schema
+ * @category Api docs
+ */
+
+import { Decoder } from '../core';
+import { arrayDecodeError } from '../errors/array-error';
+import { constraintDecodeError } from '../errors/constraint-error';
+import { enumValueDecodeError } from '../errors/enum-value-error';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { exactlyDecodeError } from '../errors/exactly-error';
+import { oneOfDecodeError } from '../errors/one-of-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import { allOf } from '../schemas/all-of';
+import { array } from '../schemas/array';
+import { boolean } from '../schemas/boolean';
+import { lazy } from '../schemas/lazy';
+import { null as null_ } from '../schemas/null';
+import { number } from '../schemas/number';
+import { object, type DecoderObject } from '../schemas/object';
+import { objectStrict } from '../schemas/object-strict';
+import { oneOf } from '../schemas/one-of';
+import { optional } from '../schemas/optional';
+import { record } from '../schemas/record';
+import { string } from '../schemas/string';
+import { codePointLength, isMultipleOf } from '../utils/constraint-checks';
+import type { DecodeError } from '../utils/decode-error';
+import * as Result from '../utils/result';
+import type { StringFormat } from '../utils/string-format';
+import type { JsonSchema, JsonSchemaType } from './json-schema';
+import { jsonSchemaFormats } from './string-formats';
+
+/**
+ * Builds a decoder from a JSON Schema (draft 2020-12) document.
+ *
+ * The decoder validates the JSON against the schema and returns it unchanged. Its errors are
+ * the same as the ones of the equivalent decoders: a schema with `properties` fails like an
+ * `object` decoder, `anyOf` like a `oneOf` decoder, and so on. Decoders are named after the
+ * `title` of their schema, or after its location in the document when it has no title.
+ *
+ * Supported keywords:
+ * - `type`, `const`, `enum`
+ * - `properties`, `required`, `additionalProperties`, `minProperties`, `maxProperties`
+ * - `items`, `prefixItems`, `minItems`, `maxItems`
+ * - `anyOf`, `oneOf`, `allOf`, `not`
+ * - `minLength`, `maxLength`, `pattern`
+ * - `format`, for the formats of the `string` decoder: `email`, `uuid`, `uri`, `hostname`, `ipv4`, `ipv6`,
+ *   `date` and `date-time`, and `contentEncoding: 'base64'`
+ * - `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum`, `multipleOf`
+ * - `$ref` to a location in the same document (`#/$defs/...`), so recursive schemas are supported
+ * - annotations, which are ignored: `$schema`, `$id`, `$comment`, `title`, `description`, `default`, `examples`...
+ *
+ * @param schema The JSON Schema document
+ * @returns A decoder that validates JSON against the schema
+ * @throws {Error} When the schema uses keywords that are not supported, listing all of them,
+ * or a `$ref` that doesn't point into the document
+ *
+ * @example
+ * ```ts
+ * const userDecoder = JsonDecoder.fromJsonSchema({
+ *   title: 'User',
+ *   type: 'object',
+ *   properties: {
+ *     name: { type: 'string', minLength: 1 },
+ *     age: { type: 'integer', minimum: 0 }
+ *   },
+ *   required: ['name']
+ * });
+ *
+ * userDecoder.decode({ name: 'John', age: 30 }); // Ok<unknown>({value: {name: 'John', age: 30}})
+ * userDecoder.decode({ name: 'John', age: -1 }); // Err({error: '<User> decoder failed at key "age" with error: -1 is not a valid number >= 0'})
+ *
+ * JsonDecoder.fromJsonSchema({ type: 'string', format: 'credit-card' });
+ * // throws Error('Unsupported JSON Schema keywords: "format" "credit-card" at #')
+ * ```
+ */
+export function fromJsonSchema(schema: JsonSchema | boolean): Decoder<unknown> {
+  const unsupported = unsupportedKeywords(schema, schema, '#');
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Unsupported JSON Schema keywords: ${unsupported.join(', ')}`
+    );
+  }
+  return decoderFor(schema, '#', { root: schema, decoders: new Map() });
+}
+
+type Context = {
+  root: JsonSchema | boolean;
+  decoders: Map<JsonSchema, Decoder<unknown>>;
+};
+
+const annotationKeywords = [
+  '$schema',
+  '$id',
+  '$comment',
+  'title',
+  'description',
+  'default',
+  'examples',
+  'deprecated',
+  'readOnly',
+  'writeOnly'
+];
+
+const supportedKeywords = new Set([
+  ...annotationKeywords,
+  '$ref',
+  '$defs',
+  'type',
+  'const',
+  'enum',
+  'properties',
+  'required',
+  'additionalProperties',
+  'minProperties',
+  'maxProperties',
+  'items',
+  'prefixItems',
+  'minItems',
+  'maxItems',
+  'anyOf',
+  'oneOf',
+  'allOf',
+  'not',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'format',
+  'contentEncoding',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf'
+]);
+
+const stringFormats = new Map<unknown, StringFormat>(
+  Object.entries(jsonSchemaFormats)
+    .filter(([format]) => format !== 'url')
+    .map(([format, jsonSchemaFormat]) => [
+      jsonSchemaFormat,
+      format as StringFormat
+    ])
+);
+
+const jsonSchemaTypes = new Set<unknown>([
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'null',
+  'object',
+  'array'
+]);
+
+/**
+ * Lists the unsupported keywords of a schema and all its subschemas, with their location.
+ */
+function unsupportedKeywords(
+  schema: JsonSchema | boolean,
+  root: JsonSchema | boolean,
+  pointer: string
+): string[] {
+  if (typeof schema === 'boolean') {
+    return [];
+  }
+  const unsupported: string[] = [];
+  for (const keyword of Object.keys(schema)) {
+    if (!supportedKeywords.has(keyword)) {
+      unsupported.push(`${JSON.stringify(keyword)} at ${pointer}`);
+    }
+  }
+  if (
+    schema.$ref !== undefined &&
+    resolvePointer(root, schema.$ref) === undefined
+  ) {
+    unsupported.push(
+      `"$ref" to ${JSON.stringify(schema.$ref)} at ${pointer}, only references inside the document are supported`
+    );
+  }
+  for (const type of toArray(schema.type)) {
+    if (!jsonSchemaTypes.has(type)) {
+      unsupported.push(`"type" ${JSON.stringify(type)} at ${pointer}`);
+    }
+  }
+  if (schema.format !== undefined && !stringFormats.has(schema.format)) {
+    unsupported.push(`"format" ${JSON.stringify(schema.format)} at ${pointer}`);
+  }
+  if (
+    schema.contentEncoding !== undefined &&
+    schema.contentEncoding !== 'base64'
+  ) {
+    unsupported.push(
+      `"contentEncoding" ${JSON.stringify(schema.contentEncoding)} at ${pointer}`
+    );
+  }
+  for (const [subschema, subpointer] of subschemas(schema, pointer)) {
+    unsupported.push(...unsupportedKeywords(subschema, root, subpointer));
+  }
+  return unsupported;
+}
+
+function subschemas(
+  schema: JsonSchema,
+  pointer: string
+): Array<[JsonSchema | boolean, string]> {
+  const result: Array<[JsonSchema | boolean, string]> = [];
+  for (const keyword of ['$defs', 'properties'] as const) {
+    const schemas = schema[keyword] ?? {};
+    for (const key of Object.keys(schemas)) {
+      result.push([schemas[key], `${pointer}/${keyword}/${escape(key)}`]);
+    }
+  }
+  for (const keyword of ['additionalProperties', 'items', 'not'] as const) {
+    const subschema = schema[keyword];
+    if (subschema !== undefined) {
+      result.push([subschema, `${pointer}/${keyword}`]);
+    }
+  }
+  for (const keyword of ['prefixItems', 'anyOf', 'oneOf', 'allOf'] as const) {
+    (schema[keyword] ?? []).forEach((subschema, i) =>
+      result.push([subschema, `${pointer}/${keyword}/${i}`])
+    );
+  }
+  return result;
+}
+
+function decoderFor(
+  schema: JsonSchema | boolean,
+  pointer: string,
+  context: Context
+): Decoder<unknown> {
+  if (schema === true) {
+    return anyValue;
+  }
+  if (schema === false) {
+    return new Decoder(json =>
+      Result.err(
+        constraintDecodeError(json, `value, the schema at ${pointer} is false`)
+      )
+    );
+  }
+  const cached = context.decoders.get(schema);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const name = schema.title ?? pointer;
+  const checks: Decoder<unknown>[] = [];
+  const $ref = schema.$ref;
+  if ($ref !== undefined) {
+    checks.push(
+      lazy(() => decoderFor(resolvePointer(context.root, $ref)!, $ref, context))
+    );
+  }
+  if (schema.type !== undefined) {
+    const types = toArray(schema.type);
+    checks.push(
+      types.length === 1
+        ? typeDecoder(types[0])
+        : oneOf(types.map(typeDecoder), types.join(' | '))
+    );
+  }
+  if ('const' in schema) {
+    checks.push(constDecoder(schema.const));
+  }
+  if (schema.enum !== undefined) {
+    checks.push(enumDecoder(schema.enum, name));
+  }
+  checks.push(...stringConstraints(schema), ...numberConstraints(schema));
+  checks.push(...objectChecks(schema, name, pointer, context));
+  checks.push(...arrayChecks(schema, name, pointer, context));
+  if (schema.anyOf !== undefined) {
+    checks.push(
+      oneOf(
+        schema.anyOf.map((subschema, i) =>
+          decoderFor(subschema, `${pointer}/anyOf/${i}`, context)
+        ),
+        name
+      )
+    );
+  }
+  if (schema.oneOf !== undefined) {
+    checks.push(
+      exactlyOneOf(
+        schema.oneOf.map((subschema, i) =>
+          decoderFor(subschema, `${pointer}/oneOf/${i}`, context)
+        ),
+        name
+      )
+    );
+  }
+  if (schema.allOf !== undefined) {
+    checks.push(
+      allOf(
+        schema.allOf.map((subschema, i) =>
+          decoderFor(subschema, `${pointer}/allOf/${i}`, context)
+        ),
+        name
+      )
+    );
+  }
+  if (schema.not !== undefined) {
+    checks.push(
+      not(decoderFor(schema.not, `${pointer}/not`, context), pointer)
+    );
+  }
+  const decoder = every(checks);
+  context.decoders.set(schema, decoder);
+  return decoder;
+}
+
+const anyValue = new Decoder<unknown>(json => Result.ok(json));
+
+/**
+ * Runs all the checks on the JSON value and returns it unchanged, or the first failure.
+ */
+function every(checks: Decoder<unknown>[]): Decoder<unknown> {
+  return new Decoder<unknown>((json, options) => {
+    for (const check of checks) {
+      const result = check.decode(json, options);
+      if (!result.isOk()) {
+        return Result.err(result.error);
+      }
+    }
+    return Result.ok(json);
+  });
+}
+
+function typeDecoder(type: JsonSchemaType): Decoder<unknown> {
+  switch (type) {
+    case 'string':
+      return string();
+    case 'number':
+      return number();
+    case 'boolean':
+      return boolean();
+    case 'null':
+      return null_();
+    case 'integer':
+      return check(
+        json => Number.isInteger(json),
+        json => primitiveDecodeError(json, 'integer')
+      );
+    case 'object':
+      return check(isObject, json => primitiveDecodeError(json, 'object'));
+    case 'array':
+      return check(Array.isArray, json => primitiveDecodeError(json, 'array'));
+  }
+}
+
+function constDecoder(value: unknown): Decoder<unknown> {
+  return check(
+    json => jsonEqual(json, value),
+    json => exactlyDecodeError(json, value)
+  );
+}
+
+function enumDecoder(values: unknown[], name: string): Decoder<unknown> {
+  return check(
+    json => values.some(value => jsonEqual(json, value)),
+    json => enumValueDecodeError(name, json)
+  );
+}
+
+function stringConstraints(schema: JsonSchema): Decoder<unknown>[] {
+  const checks: Decoder<unknown>[] = [];
+  const { minLength, maxLength, pattern } = schema;
+  if (typeof minLength === 'number') {
+    checks.push(
+      constraint(
+        isString,
+        str => codePointLength(str) >= minLength,
+        `string with at least ${minLength} characters`
+      )
+    );
+  }
+  if (typeof maxLength === 'number') {
+    checks.push(
+      constraint(
+        isString,
+        str => codePointLength(str) <= maxLength,
+        `string with at most ${maxLength} characters`
+      )
+    );
+  }
+  if (typeof pattern === 'string') {
+    const regExp = new RegExp(pattern, 'u');
+    checks.push(
+      constraint(
+        isString,
+        str => regExp.test(str),
+        `string matching /${pattern}/`
+      )
+    );
+  }
+  const format = stringFormats.get(schema.format);
+  if (format !== undefined) {
+    checks.push(onlyFor(isString, string({ format })));
+  }
+  if (schema.contentEncoding === 'base64') {
+    checks.push(onlyFor(isString, string({ format: 'base64' })));
+  }
+  return checks;
+}
+
+function numberConstraints(schema: JsonSchema): Decoder<unknown>[] {
+  const checks: Decoder<unknown>[] = [];
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } =
+    schema;
+  if (typeof minimum === 'number') {
+    checks.push(
+      constraint(isNumber, n => n >= minimum, `number >= ${minimum}`)
+    );
+  }
+  if (typeof maximum === 'number') {
+    checks.push(
+      constraint(isNumber, n => n <= maximum, `number <= ${maximum}`)
+    );
+  }
+  if (typeof exclusiveMinimum === 'number') {
+    checks.push(
+      constraint(
+        isNumber,
+        n => n > exclusiveMinimum,
+        `number > ${exclusiveMinimum}`
+      )
+    );
+  }
+  if (typeof exclusiveMaximum === 'number') {
+    checks.push(
+      constraint(
+        isNumber,
+        n => n < exclusiveMaximum,
+        `number < ${exclusiveMaximum}`
+      )
+    );
+  }
+  if (typeof multipleOf === 'number') {
+    checks.push(
+      constraint(
+        isNumber,
+        n => isMultipleOf(n, multipleOf),
+        `multiple of ${multipleOf}`
+      )
+    );
+  }
+  return checks;
+}
+
+function objectChecks(
+  schema: JsonSchema,
+  name: string,
+  pointer: string,
+  context: Context
+): Decoder<unknown>[] {
+  const checks: Decoder<unknown>[] = [];
+  const properties = schema.properties ?? {};
+  const required = schema.required ?? [];
+  const { additionalProperties, minProperties, maxProperties } = schema;
+  if (
+    schema.properties !== undefined ||
+    required.length > 0 ||
+    additionalProperties === false
+  ) {
+    const fields: DecoderObject<{ [key: string]: unknown }> = {};
+    for (const key of new Set([...Object.keys(properties), ...required])) {
+      const property = Object.prototype.hasOwnProperty.call(properties, key)
+        ? decoderFor(
+            properties[key],
+            `${pointer}/properties/${escape(key)}`,
+            context
+          )
+        : anyValue;
+      fields[key] = required.includes(key)
+        ? requiredProperty(property)
+        : optional(property);
+    }
+    checks.push(
+      onlyFor(
+        isObject,
+        additionalProperties === false
+          ? objectStrict(fields, name)
+          : object(fields, name)
+      )
+    );
+  }
+  if (
+    additionalProperties !== undefined &&
+    typeof additionalProperties !== 'boolean'
+  ) {
+    const additional = record(
+      decoderFor(
+        additionalProperties,
+        `${pointer}/additionalProperties`,
+        context
+      ),
+      name
+    );
+    checks.push(
+      onlyFor(
+        isObject,
+        new Decoder((json, options) => {
+          const extra: { [key: string]: unknown } = {};
+          for (const key of Object.keys(json)) {
+            if (!Object.prototype.hasOwnProperty.call(properties, key)) {
+              extra[key] = json[key];
+            }
+          }
+          return additional.decode(extra, options);
+        })
+      )
+    );
+  }
+  if (typeof minProperties === 'number') {
+    checks.push(
+      constraint(
+        isObject,
+        obj => Object.keys(obj).length >= minProperties,
+        `object with at least ${minProperties} properties`
+      )
+    );
+  }
+  if (typeof maxProperties === 'number') {
+    checks.push(
+      constraint(
+        isObject,
+        obj => Object.keys(obj).length <= maxProperties,
+        `object with at most ${maxProperties} properties`
+      )
+    );
+  }
+  return checks;
+}
+
+function arrayChecks(
+  schema: JsonSchema,
+  name: string,
+  pointer: string,
+  context: Context
+): Decoder<unknown>[] {
+  const checks: Decoder<unknown>[] = [];
+  const { items, prefixItems, minItems, maxItems } = schema;
+  const rest =
+    items === undefined
+      ? anyValue
+      : decoderFor(items, `${pointer}/items`, context);
+  if (prefixItems !== undefined) {
+    const prefix = prefixItems.map((subschema, i) =>
+      decoderFor(subschema, `${pointer}/prefixItems/${i}`, context)
+    );
+    checks.push(
+      onlyFor(
+        Array.isArray,
+        new Decoder((json: unknown[], options) => {
+          const failures: KeyedDecodeError<number>[] = [];
+          for (let i = 0; i < json.length; i++) {
+            const result = (i < prefix.length ? prefix[i] : rest).decode(
+              json[i],
+              options
+            );
+            if (!result.isOk()) {
+              failures.push({ key: i, error: result.error });
+              if (!options.allErrors) {
+                break;
+              }
+            }
+          }
+          return failures.length > 0
+            ? Result.err(arrayDecodeError(name, json, failures, 'tuple'))
+            : Result.ok(json);
+        })
+      )
+    );
+  } else if (items !== undefined) {
+    checks.push(onlyFor(Array.isArray, array(rest, name)));
+  }
+  if (typeof minItems === 'number') {
+    checks.push(
+      constraint(
+        Array.isArray,
+        arr => arr.length >= minItems,
+        `array with at least ${minItems} items`
+      )
+    );
+  }
+  if (typeof maxItems === 'number') {
+    checks.push(
+      constraint(
+        Array.isArray,
+        arr => arr.length <= maxItems,
+        `array with at most ${maxItems} items`
+      )
+    );
+  }
+  return checks;
+}
+
+/**
+ * Succeeds when exactly one of the decoders succeeds, as the JSON Schema `oneOf` keyword.
+ */
+function exactlyOneOf(
+  decoders: Decoder<unknown>[],
+  name: string
+): Decoder<unknown> {
+  return new Decoder((json, options) => {
+    const errors: DecodeError[] = [];
+    for (const decoder of decoders) {
+      const result = decoder.decode(json, options);
+      if (!result.isOk()) {
+        errors.push(result.error);
+      }
+    }
+    if (errors.length === decoders.length) {
+      return Result.err(oneOfDecodeError(name, json, errors));
+    }
+    if (errors.length < decoders.length - 1) {
+      return Result.err(
+        constraintDecodeError(
+          json,
+          `value for exactly one of the <${name}> oneOf schemas`
+        )
+      );
+    }
+    return Result.ok(json);
+  });
+}
+
+function not(decoder: Decoder<unknown>, pointer: string): Decoder<unknown> {
+  return check(
+    json => !decoder.decode(json).isOk(),
+    json =>
+      constraintDecodeError(
+        json,
+        `value, it matches the schema at ${pointer}/not`
+      )
+  );
+}
+
+function requiredProperty(decoder: Decoder<unknown>): Decoder<unknown> {
+  return new Decoder((json, options) => {
+    const result = decoder.decode(json, options);
+    if (result.isOk() && json === undefined) {
+      return Result.err(constraintDecodeError(json, 'required property'));
+    }
+    return result;
+  });
+}
+
+function check(
+  isValid: (json: any) => boolean,
+  error: (json: unknown) => DecodeError
+): Decoder<unknown> {
+  return new Decoder(json =>
+    isValid(json) ? Result.ok(json) : Result.err(error(json))
+  );
+}
+
+/**
+ * A JSON Schema constraint: it only applies to values of a given type, the others are valid.
+ */
+function constraint<V>(
+  appliesTo: (json: unknown) => json is V,
+  isValid: (value: V) => boolean,
+  expected: string
+): Decoder<unknown> {
+  return check(
+    json => !appliesTo(json) || isValid(json),
+    json => constraintDecodeError(json, expected)
+  );
+}
+
+function onlyFor(
+  appliesTo: (json: unknown) => boolean,
+  decoder: Decoder<unknown>
+): Decoder<unknown> {
+  return new Decoder((json, options) =>
+    appliesTo(json) ? decoder.decode(json, options) : Result.ok(json)
+  );
+}
+
+function resolvePointer(
+  root: JsonSchema | boolean,
+  ref: string
+): JsonSchema | boolean | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+  let current: unknown = root;
+  for (const segment of ref.slice(1).split('/').slice(1)) {
+    const key = decodeURIComponent(segment)
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(current, key)
+    ) {
+      return undefined;
+    }
+    current = (current as { [key: string]: unknown })[key];
+  }
+  return typeof current === 'boolean' || isObject(current)
+    ? current
+    : undefined;
+}
+
+function escape(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function isObject(json: unknown): json is { [key: string]: any } {
+  return json !== null && typeof json === 'object' && !Array.isArray(json);
+}
+
+function isString(json: unknown): json is string {
+  return typeof json === 'string';
+}
+
+function isNumber(json: unknown): json is number {
+  return typeof json === 'number';
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        key =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          jsonEqual(a[key], b[key])
+      )
+    );
+  }
+  return false;
+}
@@ -0,0 +1,9 @@
+/**
+ * This module contains the JSON Schema interoperability helpers.
+ * @module json-schema
+ * @category Api docs
+ */
+
+export * from './from-json-schema';
+export * from './json-schema';
+export * from './to-json-schema';
@@ -0,0 +1,62 @@
+/**
+ * @module
+ * @mergeModuleWith json-schema
+ * @category Api docs
+ */
+
+/**
+ * The JSON types that a JSON Schema `type` keyword can name.
+ */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+  | 'object'
+  | 'array';
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema.
+ * Only the keywords supported by ts.data.json are typed, any other keyword is allowed as `unknown`.
+ * Subschemas can be `true` (any value is valid) or `false` (no value is valid).
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: { [name: string]: JsonSchema | boolean };
+  $comment?: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  properties?: { [key: string]: JsonSchema | boolean };
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  propertyNames?: JsonSchema | boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  items?: JsonSchema | boolean;
+  prefixItems?: Array<JsonSchema | boolean>;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  anyOf?: Array<JsonSchema | boolean>;
+  oneOf?: Array<JsonSchema | boolean>;
+  allOf?: Array<JsonSchema | boolean>;
+  not?: JsonSchema | boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  contentEncoding?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  [keyword: string]: unknown;
+}
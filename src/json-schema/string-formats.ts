@@ -0,0 +1,21 @@
+import type { StringFormat } from '../utils/string-format';
+
+/**
+ * The JSON Schema `format` of each string format. `base64` has no format,
+ * it is the `contentEncoding` keyword instead. `url` is exported as a `uri`, while a `uri` format
+ * is read back as the looser `uri` string format.
+ * @internal
+ */
+export const jsonSchemaFormats: {
+  readonly [F in Exclude<StringFormat, 'base64'>]: string;
+} = {
+  email: 'email',
+  uuid: 'uuid',
+  url: 'uri',
+  uri: 'uri',
+  hostname: 'hostname',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+  date: 'date',
+  'date-time': 'date-time'
+};
@@ -0,0 +1,533 @@
+/**
+ * @module
+ * @mergeModuleWith json-schema
+ * @category Api docs
+ */
+
+import { Codec, type Decoder } from '../core';
+import type { BigIntConstraints } from '../schemas/bigint';
+import type { CoercionTarget } from '../schemas/coerce';
+import type { DecimalConstraints } from '../schemas/decimal';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import type { NumberConstraints } from '../schemas/number';
+import {
+  booleanStrings,
+  integerStringPattern,
+  numberStringPattern
+} from '../utils/string-format';
+import type { StringConstraints } from '../schemas/string';
+import type { JsonSchema } from './json-schema';
+import { jsonSchemaFormats } from './string-formats';
+
+/**
+ * The `$schema` URI of the JSON Schema draft produced by {@link toJsonSchema}.
+ */
+export const JSON_SCHEMA_DRAFT_2020_12 =
+  'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Exports a decoder as a JSON Schema (draft 2020-12) that describes the JSON it accepts.
+ *
+ * - Primitives map to their JSON `type`, `literal` to `const` and `enumeration` to `enum`.
+ *   `string` constraints map to `minLength`, `maxLength`, `pattern` (without the regular expression flags)
+ *   and `format`, or `contentEncoding` for `base64`. `number` constraints map to `type: 'integer'`,
+ *   `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum` and `multipleOf`.
+ * - `object` and `objectStrict` map to `properties`, keyed by their JSON key (`fromKey`).
+ *   Properties that accept a missing value (`optional`...) are left out of `required`,
+ *   and `objectStrict` sets `additionalProperties: false`.
+ * - `array` maps to `items`, `record` to `additionalProperties` (and `propertyNames` for its key decoder)
+ *   and `tuple` to `prefixItems`, with `items` for its rest elements. `set` maps to an array with `uniqueItems` when it rejects duplicates,
+ *   and `map` to either an object or an array of `[key, value]` pairs.
+ * - `oneOf` and `discriminatedUnion` map to `anyOf`, `allOf` to `allOf`, `nullable` adds `{ type: 'null' }`.
+ * - `lazy` decoders are exported once in `$defs` and referenced with `$ref`, so recursive decoders are supported.
+ * - `bigint` maps to an integer string or a safe integer, and `decimal` to a decimal string `pattern`.
+ *   Their bounds are written in a `$comment`, since JSON Schema can't compare strings as numbers.
+ * - `coerce` decoders map to the strings they parse, with a `$comment` that names the decoded type.
+ * - `map`, `flatMap`, `fallback` and custom decoders can't be described by JSON Schema:
+ *   they are marked with a `$comment` that says what the schema leaves out.
+ *
+ * @param decoder The decoder to export
+ * @returns A JSON Schema document
+ *
+ * @example
+ * ```ts
+ * const userDecoder = JsonDecoder.objectStrict(
+ *   {
+ *     name: { fromKey: 'user_name', decoder: JsonDecoder.string() },
+ *     age: JsonDecoder.optional(JsonDecoder.number())
+ *   },
+ *   'User'
+ * );
+ *
+ * JsonDecoder.toJsonSchema(userDecoder);
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   type: 'object',
+ * //   title: 'User',
+ * //   properties: { user_name: { type: 'string' }, age: { type: 'number' } },
+ * //   required: ['user_name'],
+ * //   additionalProperties: false
+ * // }
+ * ```
+ */
+export function toJsonSchema(decoder: Decoder<unknown>): JsonSchema {
+  const context: Context = { defs: {}, lazyNames: new Map() };
+  const schema = convert(decoder, context);
+  return Object.keys(context.defs).length > 0
+    ? { $schema: JSON_SCHEMA_DRAFT_2020_12, ...schema, $defs: context.defs }
+    : { $schema: JSON_SCHEMA_DRAFT_2020_12, ...schema };
+}
+
+type Context = {
+  defs: { [name: string]: JsonSchema };
+  lazyNames: Map<Decoder<unknown>, string>;
+};
+
+function convert(decoder: Decoder<unknown>, context: Context): JsonSchema {
+  const descriptor = decoder.descriptor;
+  switch (descriptor.kind) {
+    case 'string':
+      return descriptor.constraints === undefined
+        ? { type: 'string' }
+        : stringSchema(descriptor.constraints);
+    case 'number':
+      return descriptor.constraints === undefined
+        ? { type: 'number' }
+        : numberSchema(descriptor.constraints);
+    case 'boolean':
+    case 'null':
+      return { type: descriptor.kind };
+    case 'undefined':
+      return { not: {} };
+    case 'bigint':
+      return bigintSchema(descriptor.constraints);
+    case 'decimal':
+      return decimalSchema(descriptor.constraints);
+    case 'date-time':
+      return dateTimeSchema(descriptor);
+    case 'coerce':
+      return withComment(
+        coercedSchema(descriptor.target),
+        `coerce: the decoded value is a ${descriptor.target} parsed from this string`
+      );
+    case 'literal':
+      return descriptor.value === undefined
+        ? { not: {} }
+        : { const: descriptor.value };
+    case 'enum':
+      return { title: descriptor.decoderName, enum: [...descriptor.values] };
+    case 'object': {
+      const properties: { [key: string]: JsonSchema } = {};
+      const required: string[] = [];
+      for (const key in descriptor.fields) {
+        const { fromKey, decoder: field } = descriptor.fields[key];
+        properties[fromKey] = convert(field, context);
+        if (!acceptsMissing(field)) {
+          required.push(fromKey);
+        }
+      }
+      return {
+        type: 'object',
+        title: descriptor.decoderName,
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+        ...(descriptor.strict ? { additionalProperties: false } : {}),
+        ...(typeof descriptor.unknownKeys === 'object'
+          ? {
+              additionalProperties: convert(
+                descriptor.unknownKeys.catchall,
+                context
+              )
+            }
+          : {})
+      };
+    }
+    case 'empty-object':
+      return { type: 'object', maxProperties: 0 };
+    case 'array':
+      return {
+        type: 'array',
+        title: descriptor.decoderName,
+        items: convert(descriptor.element, context)
+      };
+    case 'record':
+      return {
+        type: 'object',
+        title: descriptor.decoderName,
+        ...(descriptor.key === undefined
+          ? {}
+          : { propertyNames: convert(descriptor.key, context) }),
+        additionalProperties: convert(descriptor.element, context)
+      };
+    case 'map-collection': {
+      const key = convert(descriptor.key, context);
+      const element = convert(descriptor.element, context);
+      return {
+        title: descriptor.decoderName,
+        anyOf: [
+          { type: 'object', propertyNames: key, additionalProperties: element },
+          {
+            type: 'array',
+            items: {
+              type: 'array',
+              prefixItems: [key, element],
+              minItems: 2,
+              maxItems: 2
+            }
+          }
+        ]
+      };
+    }
+    case 'set':
+      return {
+        type: 'array',
+        title: descriptor.decoderName,
+        items: convert(descriptor.element, context),
+        ...(descriptor.rejectDuplicates ? { uniqueItems: true } : {})
+      };
+    case 'tuple': {
+      const { elements, rest } = descriptor;
+      let minItems = elements.length;
+      while (
+        minItems > 0 &&
+        elements[minItems - 1].descriptor.kind === 'optional'
+      ) {
+        minItems--;
+      }
+      return {
+        type: 'array',
+        title: descriptor.decoderName,
+        prefixItems: elements.map(element => convert(element, context)),
+        minItems,
+        ...(rest === undefined
+          ? { maxItems: elements.length }
+          : { items: convert(rest, context) })
+      };
+    }
+    case 'one-of':
+      return {
+        title: descriptor.decoderName,
+        anyOf: descriptor.members
+          .filter(member => member.descriptor.kind !== 'undefined')
+          .map(member => convert(member, context))
+      };
+    case 'discriminated-union':
+      return {
+        title: descriptor.decoderName,
+        anyOf: Object.values(descriptor.members).map(member =>
+          convert(member, context)
+        )
+      };
+    case 'all-of':
+      return {
+        title: descriptor.decoderName,
+        allOf: descriptor.members.map(member => convert(member, context))
+      };
+    case 'optional':
+    case 'exact-optional':
+      return convert(descriptor.decoder, context);
+    case 'nullable':
+      return {
+        anyOf: [convert(descriptor.decoder, context), { type: 'null' }]
+      };
+    case 'lazy':
+      return {
+        $ref: `#/$defs/${jsonPointerSegment(
+          lazyDefinition(decoder, descriptor.resolve, context)
+        )}`
+      };
+    case 'map':
+      return withComment(
+        convert(descriptor.decoder, context),
+        'map: the decoded value is a transformation of this JSON value'
+      );
+    case 'flat-map':
+      return withComment(
+        convert(descriptor.decoder, context),
+        'flatMap: the decoder applies further validation that is not described here'
+      );
+    case 'with-default': {
+      const { decoder: inner, getDefault, nullAsMissing } = descriptor;
+      const schema = convert(inner, context);
+      return {
+        ...(nullAsMissing ? { anyOf: [schema, { type: 'null' }] } : schema),
+        // Only codecs can tell the JSON value of the default value
+        ...(inner instanceof Codec
+          ? { default: inner.encode(getDefault()) }
+          : {})
+      };
+    }
+    case 'fallback':
+      return withComment(
+        convert(descriptor.decoder, context),
+        'fallback: any other value is accepted and decoded to a default value'
+      );
+    case 'constant':
+    case 'succeed':
+      return {};
+    case 'fail':
+      return { not: {} };
+    case 'custom':
+      return withComment(
+        {},
+        'custom: the decoder applies validation that is not described here'
+      );
+  }
+}
+
+/**
+ * Adds the schema of a lazy decoder to `$defs`, the first time it is found, and returns its name.
+ * The name is taken before converting the decoder, so that recursive references find it.
+ */
+function lazyDefinition(
+  lazy: Decoder<unknown>,
+  resolve: () => Decoder<unknown>,
+  context: Context
+): string {
+  const existing = context.lazyNames.get(lazy);
+  if (existing !== undefined) {
+    return existing;
+  }
+  const decoder = resolve();
+  // Other lazy decoders of the same decoder share its definition
+  const resolvedName = context.lazyNames.get(decoder);
+  if (resolvedName !== undefined) {
+    context.lazyNames.set(lazy, resolvedName);
+    return resolvedName;
+  }
+  const baseName =
+    'decoderName' in decoder.descriptor
+      ? decoder.descriptor.decoderName
+      : 'Lazy';
+  let name = baseName;
+  for (let i = 2; name in context.defs; i++) {
+    name = `${baseName}${i}`;
+  }
+  context.lazyNames.set(lazy, name);
+  context.lazyNames.set(decoder, name);
+  context.defs[name] = {};
+  context.defs[name] = convert(decoder, context);
+  return name;
+}
+
+/**
+ * Whether a decoder accepts a missing object key, judging from its descriptor rather than by running it.
+ * `custom` and `flatMap` decoders can't be inspected, so their keys are required.
+ */
+function acceptsMissing(
+  decoder: Decoder<unknown>,
+  visited: Set<Decoder<unknown>> = new Set()
+): boolean {
+  const descriptor = decoder.descriptor;
+  switch (descriptor.kind) {
+    case 'optional':
+    case 'exact-optional':
+    case 'with-default':
+    case 'fallback':
+    case 'undefined':
+    case 'succeed':
+    case 'constant':
+      return true;
+    case 'literal':
+      return descriptor.value === undefined;
+    case 'nullable':
+    case 'map':
+      return acceptsMissing(descriptor.decoder, visited);
+    case 'lazy': {
+      if (visited.has(decoder)) {
+        return false;
+      }
+      visited.add(decoder);
+      const accepts = acceptsMissing(descriptor.resolve(), visited);
+      visited.delete(decoder);
+      return accepts;
+    }
+    case 'one-of':
+      return descriptor.members.some(member => acceptsMissing(member, visited));
+    case 'all-of':
+      return descriptor.members.every(member =>
+        acceptsMissing(member, visited)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Escapes a `$defs` name to be used in a `$ref` URI fragment.
+ */
+function jsonPointerSegment(name: string): string {
+  return encodeURIComponent(name.replace(/~/g, '~0').replace(/\//g, '~1'));
+}
+
+function stringSchema(constraints: StringConstraints): JsonSchema {
+  const { nonEmpty, length, startsWith, endsWith, pattern, format } =
+    constraints;
+  const minLengths = [
+    nonEmpty ? 1 : undefined,
+    length,
+    constraints.minLength
+  ].filter(isNumber);
+  const maxLengths = [length, constraints.maxLength].filter(isNumber);
+  const patterns = [
+    startsWith === undefined ? undefined : `^${escapeRegExp(startsWith)}`,
+    endsWith === undefined ? undefined : `${escapeRegExp(endsWith)}$`,
+    pattern?.source
+  ].filter((p): p is string => p !== undefined);
+  return {
+    type: 'string',
+    ...(minLengths.length > 0 ? { minLength: Math.max(...minLengths) } : {}),
+    ...(maxLengths.length > 0 ? { maxLength: Math.min(...maxLengths) } : {}),
+    ...(patterns.length === 1 ? { pattern: patterns[0] } : {}),
+    ...(patterns.length > 1
+      ? { allOf: patterns.map(p => ({ pattern: p })) }
+      : {}),
+    ...(format === 'base64'
+      ? { contentEncoding: 'base64' }
+      : format !== undefined
+        ? { format: jsonSchemaFormats[format] }
+        : {})
+  };
+}
+
+function bigintSchema(constraints: BigIntConstraints = {}): JsonSchema {
+  const { min, exclusiveMin, max, exclusiveMax } = constraints;
+  const schema: JsonSchema = {
+    anyOf: [
+      { type: 'string', pattern: integerStringPattern.source },
+      {
+        type: 'integer',
+        minimum: Number.MIN_SAFE_INTEGER,
+        maximum: Number.MAX_SAFE_INTEGER
+      }
+    ]
+  };
+  // the bounds are bigints, that JSON Schema can't compare to strings
+  const bounds = [
+    min === undefined ? undefined : `>= ${min}`,
+    exclusiveMin === undefined ? undefined : `> ${exclusiveMin}`,
+    max === undefined ? undefined : `<= ${max}`,
+    exclusiveMax === undefined ? undefined : `< ${exclusiveMax}`
+  ].filter(bound => bound !== undefined);
+  return bounds.length > 0
+    ? withComment(schema, `bigint: ${bounds.join(', ')}`)
+    : schema;
+}
+
+function decimalSchema(constraints: DecimalConstraints = {}): JsonSchema {
+  const { scale, maxScale, maxDigits, min, max } = constraints;
+  const fraction =
+    scale !== undefined
+      ? scale > 0
+        ? `\\.\\d{${scale}}`
+        : ''
+      : maxScale !== undefined
+        ? maxScale > 0
+          ? `(\\.\\d{1,${maxScale}})?`
+          : ''
+        : '(\\.\\d+)?';
+  const schema: JsonSchema = { type: 'string', pattern: `^-?\\d+${fraction}$` };
+  const limits = [
+    min === undefined ? undefined : `>= ${min}`,
+    max === undefined ? undefined : `<= ${max}`,
+    maxDigits === undefined ? undefined : `at most ${maxDigits} digits`
+  ].filter(limit => limit !== undefined);
+  return limits.length > 0
+    ? withComment(schema, `decimal: ${limits.join(', ')}`)
+    : schema;
+}
+
+function dateTimeSchema(
+  descriptor: Extract<DecoderDescriptor, { kind: 'date-time' }>
+): JsonSchema {
+  const { format, offset, after, before } = descriptor;
+  if (format === 'epoch-seconds' || format === 'epoch-milliseconds') {
+    const unit = format === 'epoch-seconds' ? 1000 : 1;
+    return {
+      type: 'number',
+      ...(after !== undefined
+        ? { exclusiveMinimum: after.getTime() / unit }
+        : {}),
+      ...(before !== undefined
+        ? { exclusiveMaximum: before.getTime() / unit }
+        : {})
+    };
+  }
+  const schema: JsonSchema =
+    format === 'date' || format === 'duration'
+      ? { type: 'string', format }
+      : format === 'time'
+        ? { type: 'string', pattern: '^\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?$' }
+        : offset === 'required'
+          ? { type: 'string', format: 'date-time' }
+          : {
+              type: 'string',
+              pattern: `^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${offset === 'optional' ? '(Z|[+-]\\d{2}:\\d{2})?' : ''}$`
+            };
+  const bounds = [
+    after === undefined ? undefined : `after ${after.toISOString()}`,
+    before === undefined ? undefined : `before ${before.toISOString()}`
+  ].filter(bound => bound !== undefined);
+  return bounds.length > 0
+    ? withComment(schema, `${format}: ${bounds.join(', ')}`)
+    : schema;
+}
+
+function coercedSchema(target: CoercionTarget): JsonSchema {
+  switch (target) {
+    case 'number':
+      return { type: 'string', pattern: numberStringPattern.source };
+    case 'boolean':
+      return { enum: Object.keys(booleanStrings) };
+    case 'date':
+      return {
+        type: 'string',
+        anyOf: [{ format: 'date' }, { format: 'date-time' }]
+      };
+    case 'bigint':
+      return { type: 'string', pattern: integerStringPattern.source };
+  }
+}
+
+function numberSchema(constraints: NumberConstraints): JsonSchema {
+  const { integer, safeInteger, positive, nonNegative, multipleOf } =
+    constraints;
+  const minimums = [
+    nonNegative ? 0 : undefined,
+    safeInteger ? Number.MIN_SAFE_INTEGER : undefined,
+    constraints.min
+  ].filter(isNumber);
+  const maximums = [
+    safeInteger ? Number.MAX_SAFE_INTEGER : undefined,
+    constraints.max
+  ].filter(isNumber);
+  const exclusiveMinimums = [
+    positive ? 0 : undefined,
+    constraints.exclusiveMin
+  ].filter(isNumber);
+  const exclusiveMaximum = constraints.exclusiveMax;
+  return {
+    type: integer || safeInteger ? 'integer' : 'number',
+    ...(minimums.length > 0 ? { minimum: Math.max(...minimums) } : {}),
+    ...(exclusiveMinimums.length > 0
+      ? { exclusiveMinimum: Math.max(...exclusiveMinimums) }
+      : {}),
+    ...(maximums.length > 0 ? { maximum: Math.min(...maximums) } : {}),
+    ...(exclusiveMaximum !== undefined ? { exclusiveMaximum } : {}),
+    ...(multipleOf !== undefined ? { multipleOf } : {})
+  };
+}
+
+function isNumber(n: number | undefined): n is number {
+  return n !== undefined;
+}
+
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function withComment(schema: JsonSchema, comment: string): JsonSchema {
+  return schema.$comment === undefined
+    ? { ...schema, $comment: comment }
+    : { $comment: comment, allOf: [schema] };
+}
@@ -5,7 +5,8 @@
  */
 
 import { Decoder } from '../core';
-import { allOfError } from '../errors/all-of-error';
+import { allOfDecodeError } from '../errors/all-of-error';
+import type { KeyedDecodeError } from '../errors/error-list';
 import * as Result from '../utils/result';
 
 /**
@@ -60,23 +61,33 @@ export function allOf<T extends readonly Decoder<any>[]>(
   decoders: T,
   decoderName: string
 ): Decoder<AllOfOutput<T>> {
-  return new Decoder((json: any) => {
-    const isObj = isPlainObject(json);
-    let lastJson = json;
-    for (let i = 0; i < decoders.length; i++) {
-      const result = decoders[i].decode(lastJson);
-      if (result.isOk()) {
-        if (isObj) {
-          lastJson = deepMerge({ target: lastJson, source: result.value });
-        } else if (!Array.isArray(json)) {
-          lastJson = result.value;
+  return new Decoder(
+    (json: any, options) => {
+      const isObj = isPlainObject(json);
+      let lastJson = json;
+      const failures: KeyedDecodeError<number>[] = [];
+      for (let i = 0; i < decoders.length; i++) {
+        const result = decoders[i].decode(lastJson, options);
+        if (result.isOk()) {
+          if (isObj) {
+            lastJson = deepMerge({ target: lastJson, source: result.value });
+          } else if (!Array.isArray(json)) {
+            lastJson = result.value;
+          }
+        } else {
+          failures.push({ key: i, error: result.error });
+          if (!options.allErrors) {
+            break;
+          }
         }
-      } else {
-        return Result.err<T>(allOfError(decoderName, i, result.error));
       }
-    }
-    return Result.ok(lastJson);
-  });
+      if (failures.length > 0) {
+        return Result.err<T>(allOfDecodeError(decoderName, json, failures));
+      }
+      return Result.ok(lastJson);
+    },
+    { kind: 'all-of', decoderName, members: decoders }
+  );
 }
 
 /**
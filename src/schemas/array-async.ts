@@ -0,0 +1,65 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { AsyncDecoder, Decoder, toAsync } from '../core';
+import { arrayDecodeError } from '../errors/array-error';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import * as Result from '../utils/result';
+
+/**
+ * Async decoder for arrays whose elements are decoded by an async decoder, like {@link array} otherwise.
+ * The elements are decoded concurrently, within the `concurrency` limit of the decoding.
+ *
+ * @category Data Structures
+ * @param decoder The decoder, or async decoder, for array elements
+ * @param decoderName How to display the name of the object being decoded in errors
+ * @returns An async decoder that validates and returns arrays
+ *
+ * @example
+ * ```ts
+ * const memberIdsDecoder = JsonDecoder.arrayAsync(
+ *   JsonDecoder.number().refineAsync(users.existsById, 'unknown user'),
+ *   'MemberIds'
+ * );
+ *
+ * await memberIdsDecoder.decode([1, 2, 404], { concurrency: 5 });
+ * // Err({error: '<MemberIds> decoder failed at index "2" with error: unknown user'})
+ * ```
+ */
+export function arrayAsync<T>(
+  decoder: Decoder<T> | AsyncDecoder<T>,
+  decoderName: string
+): AsyncDecoder<Array<T>> {
+  const elementDecoder = toAsync(decoder);
+  return new AsyncDecoder<Array<T>>(async (json, options) => {
+    if (!(json instanceof Array)) {
+      return Result.err<Array<T>>(primitiveDecodeError(json, 'array'));
+    }
+    const results = await Promise.all(
+      json.map(element => elementDecoder.decode(element, options))
+    );
+    const arr: Array<T> = [];
+    const failures: KeyedDecodeError<number>[] = [];
+    results.forEach((result, i) => {
+      if (result.isOk()) {
+        arr.push(result.value);
+      } else {
+        failures.push({ key: i, error: result.error });
+      }
+    });
+    if (failures.length > 0) {
+      return Result.err<Array<T>>(
+        arrayDecodeError(
+          decoderName,
+          json,
+          options.allErrors ? failures : failures.slice(0, 1)
+        )
+      );
+    }
+    return Result.ok<Array<T>>(arr);
+  });
+}
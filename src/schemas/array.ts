@@ -4,9 +4,11 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { arrayError } from '../errors/array-error';
-import { primitiveError } from '../errors/primitive-error';
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import { arrayDecodeError } from '../errors/array-error';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
 import * as Result from '../utils/result';
 
 /**
@@ -15,7 +17,7 @@ import * as Result from '../utils/result';
  * @category Data Structures
  * @param decoder The decoder for array elements
  * @param decoderName How to display the name of the object being decoded in errors
- * @returns A decoder that validates and returns arrays
+ * @returns A decoder that validates and returns arrays, or a codec when `decoder` is a codec
  *
  * @example
  * ```ts
@@ -25,24 +27,57 @@ import * as Result from '../utils/result';
  * numberArray.decode([1, '2', 3]); // Err({error: '<NumberArray> decoder failed at index "1" with error: "2" is not a valid number'})
  * ```
  */
+export function array<T, J>(
+  decoder: Codec<T, J>,
+  decoderName: string
+): Codec<Array<T>, Array<J>>;
+export function array<T>(
+  decoder: Decoder<T>,
+  decoderName: string
+): Decoder<Array<T>>;
 export function array<T>(
   decoder: Decoder<T>,
   decoderName: string
 ): Decoder<Array<T>> {
-  return new Decoder<Array<T>>(json => {
+  const decodeFn = (
+    json: any,
+    options: DecodeOptions
+  ): Result.Result<Array<T>> => {
     if (json instanceof Array) {
       const arr: Array<T> = [];
+      const failures: KeyedDecodeError<number>[] = [];
       for (let i = 0; i < json.length; i++) {
-        const result = decoder.decode(json[i]);
+        const result = decoder.decode(json[i], options);
         if (result.isOk()) {
           arr.push(result.value);
         } else {
-          return Result.err<Array<T>>(arrayError(decoderName, i, result.error));
+          failures.push({ key: i, error: result.error });
+          if (!options.allErrors) {
+            break;
+          }
         }
       }
+      if (failures.length > 0) {
+        return Result.err<Array<T>>(
+          arrayDecodeError(decoderName, json, failures)
+        );
+      }
       return Result.ok<Array<T>>(arr);
     } else {
-      return Result.err<Array<T>>(primitiveError(json, 'array'));
+      return Result.err<Array<T>>(primitiveDecodeError(json, 'array'));
     }
-  });
+  };
+  const descriptor: DecoderDescriptor = {
+    kind: 'array',
+    decoderName,
+    element: decoder
+  };
+  if (decoder instanceof Codec) {
+    return new Codec<Array<T>, Array<unknown>>(
+      decodeFn,
+      arr => arr.map(value => decoder.encode(value)),
+      descriptor
+    );
+  }
+  return new Decoder<Array<T>>(decodeFn, descriptor);
 }
@@ -0,0 +1,103 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec } from '../core';
+import * as Result from '../utils/result';
+import { constraintDecodeError } from '../errors/constraint-error';
+import { precisionLostDecodeError } from '../errors/precision-lost-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import { integerStringPattern } from '../utils/string-format';
+
+/**
+ * Bounds checked by the {@link bigint} decoder.
+ */
+export interface BigIntConstraints {
+  /** The inclusive lower bound of the integer. */
+  readonly min?: bigint;
+  /** The exclusive lower bound of the integer. */
+  readonly exclusiveMin?: bigint;
+  /** The inclusive upper bound of the integer. */
+  readonly max?: bigint;
+  /** The exclusive upper bound of the integer. */
+  readonly exclusiveMax?: bigint;
+}
+
+/**
+ * Decoder for integers of any size, such as 64-bit ids and amounts, that returns `bigint` values.
+ *
+ * It accepts integer strings (`'9007199254740993'`) and safe integer numbers (`42`).
+ * Integer numbers beyond `Number.MAX_SAFE_INTEGER` are rejected, because `JSON.parse`
+ * has already rounded them: `9007199254740993` arrives as `9007199254740992`.
+ * They must be sent as strings instead.
+ *
+ * The decoder is a codec that encodes bigints as strings, so that they survive `JSON.stringify`.
+ *
+ * @category Primitives
+ * @param constraints Optional bounds of the integer
+ * @returns A codec from integer strings and safe integers to bigints
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.bigint().decode('9007199254740993'); // Ok<bigint>({value: 9007199254740993n})
+ * JsonDecoder.bigint().decode(42); // Ok<bigint>({value: 42n})
+ * JsonDecoder.bigint().decode(9007199254740993);
+ * // Err({error: '9007199254740992 is not a valid bigint, precision lost: integers beyond Number.MAX_SAFE_INTEGER must be sent as strings'})
+ * JsonDecoder.bigint({ min: 1n }).decode('0'); // Err({error: '"0" is not a valid bigint >= 1'})
+ * JsonDecoder.bigint().encode(9007199254740993n); // '9007199254740993'
+ * ```
+ */
+export function bigint(constraints?: BigIntConstraints): Codec<bigint, string> {
+  const check =
+    constraints === undefined ? undefined : constraintCheck(constraints);
+  return new Codec<bigint, string>(
+    (json: any) => {
+      let value: bigint;
+      if (typeof json === 'bigint') {
+        value = json;
+      } else if (typeof json === 'string' && integerStringPattern.test(json)) {
+        value = BigInt(json);
+      } else if (Number.isSafeInteger(json)) {
+        value = BigInt(json);
+      } else if (Number.isInteger(json)) {
+        return Result.err<bigint>(precisionLostDecodeError(json, 'bigint'));
+      } else {
+        return Result.err<bigint>(primitiveDecodeError(json, 'bigint'));
+      }
+      const broken = check?.(value);
+      if (broken !== undefined) {
+        return Result.err<bigint>(constraintDecodeError(json, broken));
+      }
+      return Result.ok<bigint>(value);
+    },
+    value => value.toString(),
+    constraints === undefined
+      ? { kind: 'bigint' }
+      : { kind: 'bigint', constraints }
+  );
+}
+
+/**
+ * Returns a function that describes the first bound an integer breaks, if any.
+ */
+function constraintCheck(
+  constraints: BigIntConstraints
+): (n: bigint) => string | undefined {
+  const checks: Array<[(n: bigint) => boolean, string]> = [];
+  const { min, exclusiveMin, max, exclusiveMax } = constraints;
+  if (min !== undefined) {
+    checks.push([n => n >= min, `bigint >= ${min}`]);
+  }
+  if (exclusiveMin !== undefined) {
+    checks.push([n => n > exclusiveMin, `bigint > ${exclusiveMin}`]);
+  }
+  if (max !== undefined) {
+    checks.push([n => n <= max, `bigint <= ${max}`]);
+  }
+  if (exclusiveMax !== undefined) {
+    checks.push([n => n < exclusiveMax, `bigint < ${exclusiveMax}`]);
+  }
+  return n => checks.find(([isValid]) => !isValid(n))?.[1];
+}
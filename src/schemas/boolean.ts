@@ -4,15 +4,15 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
+import { Codec } from '../core';
 import * as Result from '../utils/result';
-import { primitiveError } from '../errors/primitive-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
 
 /**
  * Decoder for `boolean` values.
  *
  * @category Primitives
- * @returns A decoder that validates and returns boolean values
+ * @returns A codec that validates and returns boolean values
  *
  * @example
  * ```ts
@@ -20,12 +20,16 @@ import { primitiveError } from '../errors/primitive-error';
  * JsonDecoder.boolean().decode('true'); // Err({error: 'true is not a valid boolean'})
  * ```
  */
-export function boolean(): Decoder<boolean> {
-  return new Decoder<boolean>((json: any) => {
-    if (typeof json === 'boolean') {
-      return Result.ok<boolean>(json);
-    } else {
-      return Result.err<boolean>(primitiveError(json, 'boolean'));
-    }
-  });
+export function boolean(): Codec<boolean, boolean> {
+  return new Codec<boolean, boolean>(
+    (json: any) => {
+      if (typeof json === 'boolean') {
+        return Result.ok<boolean>(json);
+      } else {
+        return Result.err<boolean>(primitiveDecodeError(json, 'boolean'));
+      }
+    },
+    value => value,
+    { kind: 'boolean' }
+  );
 }
@@ -0,0 +1,161 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec } from '../core';
+import * as Result from '../utils/result';
+import { coercionDecodeError } from '../errors/coercion-error';
+import { constraintDecodeError } from '../errors/constraint-error';
+import {
+  booleanStrings,
+  integerStringPattern,
+  isStringFormat,
+  numberStringPattern
+} from '../utils/string-format';
+import { number, type NumberConstraints } from './number';
+
+/**
+ * The types that {@link coerce} decoders parse strings into.
+ */
+export type CoercionTarget = 'number' | 'boolean' | 'date' | 'bigint';
+
+/**
+ * Decoders for values that arrive as strings: URL query strings, HTML forms, CSV cells, environment variables...
+ * They parse the string into the target type, and also accept values that already have the target type.
+ *
+ * Parsing is strict: the whole string must be a literal of the target type, without surrounding spaces,
+ * so `''`, `' 1'`, `'1px'` or `'0x10'` are not numbers (unlike with `Number()`).
+ * Errors mention both the raw value and the target type.
+ *
+ * The decoders are codecs that encode values back to strings.
+ *
+ * @category Transformations
+ *
+ * @example
+ * ```ts
+ * const queryDecoder = JsonDecoder.object(
+ *   {
+ *     page: JsonDecoder.coerce.number({ integer: true, min: 1 }),
+ *     draft: JsonDecoder.coerce.boolean(),
+ *     since: JsonDecoder.optional(JsonDecoder.coerce.date())
+ *   },
+ *   'Query'
+ * );
+ *
+ * queryDecoder.decode({ page: '2', draft: '0' }); // Ok({value: {page: 2, draft: false}})
+ * queryDecoder.decode({ page: '', draft: '0' });
+ * // Err({error: '<Query> decoder failed at key "page" with error: "" can\'t be coerced to number'})
+ * queryDecoder.encode({ page: 2, draft: false }); // { page: '2', draft: 'false' }
+ * ```
+ */
+export const coerce = {
+  /**
+   * Parses decimal number strings such as `'42'`, `'-1.5'` or `'1e3'`,
+   * then checks the optional number constraints.
+   * Strings too large to be a finite number, like `'1e999'`, are rejected.
+   *
+   * @param constraints Optional constraints that the parsed number must meet
+   * @returns A codec from number strings to numbers
+   */
+  number(constraints?: NumberConstraints): Codec<number, string> {
+    const numberDecoder = number(constraints);
+    return new Codec<number, string>(
+      (json: any, options) => {
+        const parsed =
+          typeof json === 'string' && numberStringPattern.test(json)
+            ? Number(json)
+            : NaN;
+        if (Number.isFinite(parsed)) {
+          const result = numberDecoder.decode(parsed, options);
+          // Broken constraints cite the raw string rather than the parsed number
+          return result.isOk() || result.error.expected === undefined
+            ? result
+            : Result.err<number>(
+                constraintDecodeError(json, result.error.expected)
+              );
+        }
+        if (typeof json === 'number') {
+          return numberDecoder.decode(json, options);
+        }
+        return Result.err<number>(coercionDecodeError(json, 'number'));
+      },
+      value => String(value),
+      constraints === undefined
+        ? { kind: 'coerce', target: 'number' }
+        : { kind: 'coerce', target: 'number', constraints }
+    );
+  },
+
+  /**
+   * Parses `'true'` and `'1'` as `true`, `'false'` and `'0'` as `false`.
+   * Other strings, like `'yes'` or `'TRUE'`, are rejected.
+   *
+   * @returns A codec from boolean strings to booleans
+   */
+  boolean(): Codec<boolean, string> {
+    return new Codec<boolean, string>(
+      (json: any) => {
+        if (typeof json === 'boolean') {
+          return Result.ok<boolean>(json);
+        }
+        if (
+          typeof json === 'string' &&
+          Object.prototype.hasOwnProperty.call(booleanStrings, json)
+        ) {
+          return Result.ok<boolean>(booleanStrings[json]);
+        }
+        return Result.err<boolean>(coercionDecodeError(json, 'boolean'));
+      },
+      value => String(value),
+      { kind: 'coerce', target: 'boolean' }
+    );
+  },
+
+  /**
+   * Parses ISO 8601 dates (`'2024-02-29'`, at midnight UTC) and date-times with an offset
+   * (`'2024-02-29T13:45:00Z'`) into `Date` objects. Dates that don't exist, like `'2023-02-29'`, are rejected.
+   *
+   * @returns A codec from ISO strings to dates, that encodes dates with `toISOString()`
+   */
+  date(): Codec<Date, string> {
+    return new Codec<Date, string>(
+      (json: any) => {
+        if (json instanceof Date && !isNaN(json.getTime())) {
+          return Result.ok<Date>(json);
+        }
+        if (
+          typeof json === 'string' &&
+          (isStringFormat('date', json) || isStringFormat('date-time', json))
+        ) {
+          return Result.ok<Date>(new Date(json));
+        }
+        return Result.err<Date>(coercionDecodeError(json, 'date'));
+      },
+      value => value.toISOString(),
+      { kind: 'coerce', target: 'date' }
+    );
+  },
+
+  /**
+   * Parses integer strings of any size, such as `'9007199254740993'`, into `bigint` values.
+   *
+   * @returns A codec from integer strings to bigints
+   */
+  bigint(): Codec<bigint, string> {
+    return new Codec<bigint, string>(
+      (json: any) => {
+        if (typeof json === 'bigint') {
+          return Result.ok<bigint>(json);
+        }
+        if (typeof json === 'string' && integerStringPattern.test(json)) {
+          return Result.ok<bigint>(BigInt(json));
+        }
+        return Result.err<bigint>(coercionDecodeError(json, 'bigint'));
+      },
+      value => value.toString(),
+      { kind: 'coerce', target: 'bigint' }
+    );
+  }
+};
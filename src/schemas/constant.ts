@@ -24,5 +24,5 @@ import * as Result from '../utils/result';
  * ```
  */
 export function constant<T>(value: T): Decoder<T> {
-  return new Decoder<T>(() => Result.ok(value));
+  return new Decoder<T>(() => Result.ok(value), { kind: 'constant', value });
 }
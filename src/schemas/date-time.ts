@@ -0,0 +1,392 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec } from '../core';
+import * as Result from '../utils/result';
+import type { DecodeError } from '../utils/decode-error';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import { constraintDecodeError } from '../errors/constraint-error';
+import { dateTimeDecodeError } from '../errors/date-time-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import {
+  parseIsoDate,
+  parseIsoDateTime,
+  parseIsoTime,
+  toDate
+} from '../utils/iso-8601';
+
+/**
+ * The formats read by the date and time decoders.
+ */
+export type DateTimeFormat =
+  | 'date'
+  | 'date-time'
+  | 'time'
+  | 'epoch-seconds'
+  | 'epoch-milliseconds'
+  | 'duration';
+
+/**
+ * Whether an ISO date-time must have an offset from UTC (`Z` or `±HH:mm`):
+ * - `required`: the offset is mandatory, so that the instant is unambiguous
+ * - `forbidden`: the offset is not allowed, the date-time is read as UTC
+ * - `optional`: date-times without an offset are read as UTC
+ */
+export type OffsetPolicy = 'required' | 'forbidden' | 'optional';
+
+/**
+ * Bounds of the decoded dates. Both are exclusive.
+ */
+export interface DateBounds {
+  /** The date must be strictly after this one. */
+  readonly after?: Date;
+  /** The date must be strictly before this one. */
+  readonly before?: Date;
+}
+
+/**
+ * Options of the {@link isoDateTime} decoder.
+ */
+export interface IsoDateTimeOptions extends DateBounds {
+  /** Whether the date-time must have an offset. Defaults to `required`. */
+  readonly offset?: OffsetPolicy;
+}
+
+/**
+ * A time of day, as decoded by {@link isoTime}.
+ */
+export interface IsoTime {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+/**
+ * A duration, as decoded by {@link isoDuration}. Missing components are 0.
+ */
+export interface IsoDuration {
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/**
+ * Decoder for ISO 8601 calendar dates, `YYYY-MM-DD`, that returns the `Date` at midnight UTC.
+ * Dates that don't exist, like `2023-02-29`, are rejected with the field that is out of range.
+ *
+ * @category Dates
+ * @param bounds Optional exclusive bounds of the date
+ * @returns A codec from ISO date strings to dates
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.isoDate().decode('2024-02-29'); // Ok<Date>({value: new Date('2024-02-29T00:00:00.000Z')})
+ * JsonDecoder.isoDate().decode('2023-02-29');
+ * // Err({error: '"2023-02-29" is not a valid ISO date, day 29 is out of range for 2023-02'})
+ * ```
+ */
+export function isoDate(bounds: DateBounds = {}): Codec<Date, string> {
+  return dateCodec(
+    'ISO date',
+    json => {
+      const fields = parseIsoDate(json);
+      return typeof fields === 'string' ? fields : toDate(fields);
+    },
+    date => date.toISOString().slice(0, 10),
+    bounds,
+    { kind: 'date-time', format: 'date', ...bounds }
+  );
+}
+
+/**
+ * Decoder for ISO 8601 date-times, `YYYY-MM-DDTHH:mm:ss[.sss][Z|±HH:mm]`, that returns a `Date`.
+ * Unlike `new Date(str)`, it never depends on the local time zone and never returns an invalid date.
+ *
+ * @category Dates
+ * @param options Whether the offset is required (the default), forbidden or optional, and exclusive bounds
+ * @returns A codec from ISO date-time strings to dates
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.isoDateTime().decode('2024-02-29T13:45:00+02:00'); // Ok<Date>({value: new Date('2024-02-29T11:45:00.000Z')})
+ * JsonDecoder.isoDateTime().decode('2024-02-29T13:45:00');
+ * // Err({error: '"2024-02-29T13:45:00" is not a valid ISO date-time, the offset is missing'})
+ * JsonDecoder.isoDateTime({ after: new Date('2025-01-01T00:00:00Z') }).decode('2024-02-29T13:45:00Z');
+ * // Err({error: '"2024-02-29T13:45:00Z" is not a valid ISO date-time after 2025-01-01T00:00:00.000Z'})
+ * ```
+ */
+export function isoDateTime(
+  options: IsoDateTimeOptions = {}
+): Codec<Date, string> {
+  const { offset = 'required', ...bounds } = options;
+  return dateCodec(
+    'ISO date-time',
+    json => {
+      const fields = parseIsoDateTime(json);
+      if (typeof fields === 'string') {
+        return fields;
+      }
+      if (offset === 'required' && fields.offsetMinutes === undefined) {
+        return 'the offset is missing';
+      }
+      if (offset === 'forbidden' && fields.offsetMinutes !== undefined) {
+        return 'the offset is not allowed';
+      }
+      return toDate(fields);
+    },
+    date =>
+      offset === 'forbidden'
+        ? date.toISOString().slice(0, -1)
+        : date.toISOString(),
+    bounds,
+    { kind: 'date-time', format: 'date-time', offset, ...bounds }
+  );
+}
+
+/**
+ * Decoder for ISO 8601 times of day, `HH:mm[:ss[.sss]]`, that returns the time fields.
+ *
+ * @category Dates
+ * @returns A codec from ISO time strings to times of day
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.isoTime().decode('13:45'); // Ok<IsoTime>({value: {hours: 13, minutes: 45, seconds: 0, milliseconds: 0}})
+ * JsonDecoder.isoTime().decode('24:00'); // Err({error: '"24:00" is not a valid ISO time, hour 24 is out of range'})
+ * ```
+ */
+export function isoTime(): Codec<IsoTime, string> {
+  return new Codec<IsoTime, string>(
+    (json: any) => {
+      if (typeof json !== 'string') {
+        return Result.err<IsoTime>(primitiveDecodeError(json, 'string'));
+      }
+      const fields = parseIsoTime(json);
+      return typeof fields === 'string'
+        ? Result.err<IsoTime>(dateTimeDecodeError(json, 'ISO time', fields))
+        : Result.ok<IsoTime>(fields);
+    },
+    time =>
+      [time.hours, time.minutes, time.seconds].map(n => pad(n)).join(':') +
+      (time.milliseconds > 0 ? `.${pad(time.milliseconds, 3)}` : ''),
+    { kind: 'date-time', format: 'time' }
+  );
+}
+
+/**
+ * Decoder for Unix timestamps in seconds, that returns a `Date`.
+ *
+ * @category Dates
+ * @param bounds Optional exclusive bounds of the date
+ * @returns A codec from timestamps in seconds to dates
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.epochSeconds().decode(1709214300); // Ok<Date>({value: new Date('2024-02-29T13:45:00.000Z')})
+ * ```
+ */
+export function epochSeconds(bounds: DateBounds = {}): Codec<Date, number> {
+  return epochCodec('epoch-seconds', 1000, bounds);
+}
+
+/**
+ * Decoder for Unix timestamps in milliseconds, as returned by `Date.now()`, that returns a `Date`.
+ *
+ * @category Dates
+ * @param bounds Optional exclusive bounds of the date
+ * @returns A codec from timestamps in milliseconds to dates
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.epochMilliseconds().decode(1709214300000); // Ok<Date>({value: new Date('2024-02-29T13:45:00.000Z')})
+ * JsonDecoder.epochMilliseconds().decode(1e20);
+ * // Err({error: '100000000000000000000 is not a valid epoch in milliseconds, it is out of the Date range'})
+ * ```
+ */
+export function epochMilliseconds(
+  bounds: DateBounds = {}
+): Codec<Date, number> {
+  return epochCodec('epoch-milliseconds', 1, bounds);
+}
+
+/**
+ * Decoder for ISO 8601 durations, `PnYnMnWnDTnHnMnS`, that returns the duration components.
+ * Durations are not converted to a number of seconds, because months and years don't have a fixed length.
+ *
+ * @category Dates
+ * @returns A codec from ISO duration strings to durations
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.isoDuration().decode('P1DT12H');
+ * // Ok<IsoDuration>({value: {years: 0, months: 0, weeks: 0, days: 1, hours: 12, minutes: 0, seconds: 0}})
+ * JsonDecoder.isoDuration().decode('1 day');
+ * // Err({error: '"1 day" is not a valid ISO duration, expected PnYnMnWnDTnHnMnS'})
+ * ```
+ */
+export function isoDuration(): Codec<IsoDuration, string> {
+  return new Codec<IsoDuration, string>(
+    (json: any) => {
+      if (typeof json !== 'string') {
+        return Result.err<IsoDuration>(primitiveDecodeError(json, 'string'));
+      }
+      const duration = parseDuration(json);
+      return duration === undefined
+        ? Result.err<IsoDuration>(
+            dateTimeDecodeError(
+              json,
+              'ISO duration',
+              'expected PnYnMnWnDTnHnMnS'
+            )
+          )
+        : Result.ok<IsoDuration>(duration);
+    },
+    formatDuration,
+    { kind: 'date-time', format: 'duration' }
+  );
+}
+
+/**
+ * A codec from strings to dates, that checks the parsed date against the bounds.
+ */
+function dateCodec(
+  expected: string,
+  parse: (json: string) => Date | string,
+  encode: (date: Date) => string,
+  bounds: DateBounds,
+  descriptor: DecoderDescriptor
+): Codec<Date, string> {
+  return new Codec<Date, string>(
+    (json: any) => {
+      if (typeof json !== 'string') {
+        return Result.err<Date>(primitiveDecodeError(json, 'string'));
+      }
+      const date = parse(json);
+      if (typeof date === 'string') {
+        return Result.err<Date>(dateTimeDecodeError(json, expected, date));
+      }
+      const error = boundsError(json, date, expected, bounds);
+      return error === undefined
+        ? Result.ok<Date>(date)
+        : Result.err<Date>(error);
+    },
+    encode,
+    descriptor
+  );
+}
+
+function epochCodec(
+  format: 'epoch-seconds' | 'epoch-milliseconds',
+  unit: number,
+  bounds: DateBounds
+): Codec<Date, number> {
+  const expected =
+    format === 'epoch-seconds' ? 'epoch in seconds' : 'epoch in milliseconds';
+  return new Codec<Date, number>(
+    (json: any) => {
+      if (typeof json !== 'number') {
+        return Result.err<Date>(primitiveDecodeError(json, 'number'));
+      }
+      const date = new Date(json * unit);
+      if (isNaN(date.getTime())) {
+        return Result.err<Date>(
+          dateTimeDecodeError(
+            json,
+            expected,
+            Number.isFinite(json)
+              ? 'it is out of the Date range'
+              : 'it is not a finite number'
+          )
+        );
+      }
+      const error = boundsError(json, date, expected, bounds);
+      return error === undefined
+        ? Result.ok<Date>(date)
+        : Result.err<Date>(error);
+    },
+    date => date.getTime() / unit,
+    { kind: 'date-time', format, ...bounds }
+  );
+}
+
+function boundsError(
+  json: unknown,
+  date: Date,
+  expected: string,
+  { after, before }: DateBounds
+): DecodeError | undefined {
+  if (after !== undefined && date.getTime() <= after.getTime()) {
+    return constraintDecodeError(
+      json,
+      `${expected} after ${after.toISOString()}`
+    );
+  }
+  if (before !== undefined && date.getTime() >= before.getTime()) {
+    return constraintDecodeError(
+      json,
+      `${expected} before ${before.toISOString()}`
+    );
+  }
+  return undefined;
+}
+
+const durationComponent = '(\\d+(?:[.,]\\d+)?)';
+const durationPattern = new RegExp(
+  `^P(?:${durationComponent}Y)?(?:${durationComponent}M)?(?:${durationComponent}W)?(?:${durationComponent}D)?` +
+    `(?:T(?:${durationComponent}H)?(?:${durationComponent}M)?(?:${durationComponent}S)?)?$`
+);
+
+function parseDuration(str: string): IsoDuration | undefined {
+  const match = durationPattern.exec(str);
+  // `P` alone and a `T` without time components are not durations
+  if (
+    match === null ||
+    match.slice(1).every(component => component === undefined) ||
+    str.endsWith('T')
+  ) {
+    return undefined;
+  }
+  const [years, months, weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map(component =>
+      component === undefined ? 0 : Number(component.replace(',', '.'))
+    );
+  return { years, months, weeks, days, hours, minutes, seconds };
+}
+
+function formatDuration(duration: IsoDuration): string {
+  const date = [
+    [duration.years, 'Y'],
+    [duration.months, 'M'],
+    [duration.weeks, 'W'],
+    [duration.days, 'D']
+  ] as const;
+  const time = [
+    [duration.hours, 'H'],
+    [duration.minutes, 'M'],
+    [duration.seconds, 'S']
+  ] as const;
+  const format = (components: ReadonlyArray<readonly [number, string]>) =>
+    components
+      .filter(([n]) => n !== 0)
+      .map(([n, unit]) => `${n}${unit}`)
+      .join('');
+  const datePart = format(date);
+  const timePart = format(time);
+  if (datePart === '' && timePart === '') {
+    return 'PT0S';
+  }
+  return `P${datePart}${timePart === '' ? '' : `T${timePart}`}`;
+}
+
+function pad(n: number, size = 2): string {
+  return String(n).padStart(size, '0');
+}
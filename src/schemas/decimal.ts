@@ -0,0 +1,126 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec } from '../core';
+import * as Result from '../utils/result';
+import { constraintDecodeError } from '../errors/constraint-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import {
+  compareDecimals,
+  decimalStringPattern,
+  parseDecimal,
+  significantDigits,
+  type DecimalParts
+} from '../utils/decimal';
+
+/**
+ * Constraints checked by the {@link decimal} decoder. Bounds are decimal strings, so that they are exact.
+ */
+export interface DecimalConstraints {
+  /** The exact number of decimal places, e.g. `2` for amounts in cents. */
+  readonly scale?: number;
+  /** The maximum number of decimal places. */
+  readonly maxScale?: number;
+  /** The maximum number of significant digits, before and after the decimal point. */
+  readonly maxDigits?: number;
+  /** The inclusive lower bound, e.g. `'0.01'`. */
+  readonly min?: string;
+  /** The inclusive upper bound, e.g. `'1000000'`. */
+  readonly max?: string;
+}
+
+/**
+ * Decoder for decimal strings, such as money amounts, that returns the string as it is.
+ *
+ * Decimals are kept as strings so that they are exact and keep their scale: `'12.50'` stays `'12.50'`,
+ * where a number would be `12.5`, and `'0.10'` isn't rounded to a binary fraction.
+ * Numbers are rejected for the same reason: their scale is already lost when they are parsed.
+ * The strings have no exponent nor leading `+`, like `'42'`, `'-0.5'` or `'12.50'`.
+ *
+ * @category Primitives
+ * @param constraints Optional constraints on the scale, digits and value of the decimal
+ * @returns A codec that validates decimal strings
+ *
+ * @example
+ * ```ts
+ * const amountDecoder = JsonDecoder.decimal({ scale: 2, min: '0' });
+ *
+ * amountDecoder.decode('12.50'); // Ok<string>({value: '12.50'})
+ * amountDecoder.decode('12.5'); // Err({error: '"12.5" is not a valid decimal with 2 decimal places'})
+ * amountDecoder.decode('-1.00'); // Err({error: '"-1.00" is not a valid decimal >= 0'})
+ * amountDecoder.decode(12.5); // Err({error: '12.5 is not a valid decimal string'})
+ * ```
+ */
+export function decimal(
+  constraints?: DecimalConstraints
+): Codec<string, string> {
+  const check =
+    constraints === undefined ? undefined : constraintCheck(constraints);
+  return new Codec<string, string>(
+    (json: any) => {
+      if (typeof json !== 'string') {
+        return Result.err<string>(primitiveDecodeError(json, 'decimal string'));
+      }
+      if (!decimalStringPattern.test(json)) {
+        return Result.err<string>(
+          constraintDecodeError(json, 'decimal string')
+        );
+      }
+      const broken = check?.(parseDecimal(json));
+      if (broken !== undefined) {
+        return Result.err<string>(constraintDecodeError(json, broken));
+      }
+      return Result.ok<string>(json);
+    },
+    value => value,
+    constraints === undefined
+      ? { kind: 'decimal' }
+      : { kind: 'decimal', constraints }
+  );
+}
+
+/**
+ * Returns a function that describes the first constraint a decimal breaks, if any.
+ */
+function constraintCheck(
+  constraints: DecimalConstraints
+): (decimal: DecimalParts) => string | undefined {
+  const checks: Array<[(decimal: DecimalParts) => boolean, string]> = [];
+  const { scale, maxScale, maxDigits, min, max } = constraints;
+  if (scale !== undefined) {
+    checks.push([
+      decimal => decimal.scale === scale,
+      `decimal with ${scale} decimal places`
+    ]);
+  }
+  if (maxScale !== undefined) {
+    checks.push([
+      decimal => decimal.scale <= maxScale,
+      `decimal with at most ${maxScale} decimal places`
+    ]);
+  }
+  if (maxDigits !== undefined) {
+    checks.push([
+      decimal => significantDigits(decimal) <= maxDigits,
+      `decimal with at most ${maxDigits} digits`
+    ]);
+  }
+  if (min !== undefined) {
+    const bound = parseDecimal(min);
+    checks.push([
+      decimal => compareDecimals(decimal, bound) >= 0,
+      `decimal >= ${min}`
+    ]);
+  }
+  if (max !== undefined) {
+    const bound = parseDecimal(max);
+    checks.push([
+      decimal => compareDecimals(decimal, bound) <= 0,
+      `decimal <= ${max}`
+    ]);
+  }
+  return decimal => checks.find(([isValid]) => !isValid(decimal))?.[1];
+}
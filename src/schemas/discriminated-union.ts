@@ -0,0 +1,114 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import {
+  unknownTagDecodeError,
+  unknownTagError
+} from '../errors/unknown-tag-error';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import * as Result from '../utils/result';
+import type { DecoderOutput } from './all-of';
+
+/**
+ * Decoder for discriminated unions: objects that share a tag property whose
+ * value tells which shape the object has.
+ *
+ * Unlike `oneOf`, which tries every decoder in sequence, the tag value is used to pick
+ * the only decoder that can apply, so errors come from that decoder alone.
+ *
+ * @category Data Structures
+ * @param tag The name of the discriminator property
+ * @param decoders Decoders for each tag value
+ * @param decoderName How to display the name of the object being decoded in errors
+ * @returns A decoder that validates and returns the union of the decoders' types,
+ * or a codec when all `decoders` are codecs. Encoding picks the codec from the tag of the value.
+ *
+ * @example
+ * ```ts
+ * const shapeDecoder = JsonDecoder.discriminatedUnion(
+ *   'type',
+ *   {
+ *     circle: JsonDecoder.object(
+ *       { type: JsonDecoder.literal('circle'), radius: JsonDecoder.number() },
+ *       'Circle'
+ *     ),
+ *     square: JsonDecoder.object(
+ *       { type: JsonDecoder.literal('square'), side: JsonDecoder.number() },
+ *       'Square'
+ *     )
+ *   },
+ *   'Shape'
+ * );
+ * // Decoder<{ type: 'circle'; radius: number } | { type: 'square'; side: number }>
+ *
+ * shapeDecoder.decode({ type: 'circle', radius: 1 }); // Ok<Shape>
+ * shapeDecoder.decode({ type: 'square', side: '1' }); // Err({error: '<Square> decoder failed at key "side" with error: "1" is not a valid number'})
+ * shapeDecoder.decode({ type: 'triangle' }); // Err({error: '<Shape> decoder failed at key "type" because of unknown tag "triangle", expected one of "circle" | "square"'})
+ * ```
+ */
+export function discriminatedUnion<
+  M extends { [tag: string]: Codec<any, any> }
+>(
+  tag: string,
+  decoders: M,
+  decoderName: string
+): Codec<DecoderOutput<M[keyof M]>, unknown>;
+export function discriminatedUnion<M extends { [tag: string]: Decoder<any> }>(
+  tag: string,
+  decoders: M,
+  decoderName: string
+): Decoder<DecoderOutput<M[keyof M]>>;
+export function discriminatedUnion<M extends { [tag: string]: Decoder<any> }>(
+  tag: string,
+  decoders: M,
+  decoderName: string
+): Decoder<DecoderOutput<M[keyof M]>> {
+  type T = DecoderOutput<M[keyof M]>;
+  const decodeFn = (json: any, options: DecodeOptions): Result.Result<T> => {
+    if (json !== null && typeof json === 'object') {
+      const value = json[tag];
+      if (
+        typeof value === 'string' &&
+        Object.prototype.hasOwnProperty.call(decoders, value)
+      ) {
+        return decoders[value].decode(json, options);
+      }
+      return Result.err<DecoderOutput<M[keyof M]>>(
+        unknownTagDecodeError(decoderName, tag, value, Object.keys(decoders))
+      );
+    } else {
+      return Result.err<DecoderOutput<M[keyof M]>>(
+        primitiveDecodeError(json, decoderName)
+      );
+    }
+  };
+  const descriptor: DecoderDescriptor = {
+    kind: 'discriminated-union',
+    decoderName,
+    tag,
+    members: decoders
+  };
+  const tags = Object.keys(decoders);
+  if (!tags.every(key => decoders[key] instanceof Codec)) {
+    return new Decoder<T>(decodeFn, descriptor);
+  }
+  return new Codec<T, unknown>(
+    decodeFn,
+    value => {
+      const tagValue = value[tag];
+      if (
+        typeof tagValue !== 'string' ||
+        !Object.prototype.hasOwnProperty.call(decoders, tagValue)
+      ) {
+        throw unknownTagError(decoderName, tag, tagValue, tags);
+      }
+      return (decoders[tagValue] as Codec<T, unknown>).encode(value);
+    },
+    descriptor
+  );
+}
@@ -5,7 +5,7 @@
  */
 
 import { Decoder } from '../core';
-import { primitiveError } from '../errors/primitive-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
 import * as Result from '../utils/result';
 
 /**
@@ -28,15 +28,20 @@ export type EmptyObject = Record<string, never>;
  * ```
  */
 export function emptyObject(): Decoder<EmptyObject> {
-  return new Decoder<EmptyObject>((json: any) => {
-    if (
-      json !== null &&
-      typeof json === 'object' &&
-      Object.keys(json).length === 0
-    ) {
-      return Result.ok<EmptyObject>(json);
-    } else {
-      return Result.err<EmptyObject>(primitiveError(json, 'empty object'));
-    }
-  });
+  return new Decoder<EmptyObject>(
+    (json: any) => {
+      if (
+        json !== null &&
+        typeof json === 'object' &&
+        Object.keys(json).length === 0
+      ) {
+        return Result.ok<EmptyObject>(json);
+      } else {
+        return Result.err<EmptyObject>(
+          primitiveDecodeError(json, 'empty object')
+        );
+      }
+    },
+    { kind: 'empty-object' }
+  );
 }
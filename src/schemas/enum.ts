@@ -4,9 +4,9 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
+import { Codec } from '../core';
 import * as Result from '../utils/result';
-import { enumValueError } from '../errors/enum-value-error';
+import { enumValueDecodeError } from '../errors/enum-value-error';
 
 /**
  * Decoder for `enumeration` values.
@@ -14,7 +14,7 @@ import { enumValueError } from '../errors/enum-value-error';
  * @category Data Structures
  * @param enumObj The enum object to use for decoding. Must not be a const enum.
  * @param decoderName How to display the name of the object being decoded in errors.
- * @returns A decoder that validates and returns enum values
+ * @returns A codec that validates and returns enum values
  *
  * @example
  * ```ts
@@ -31,12 +31,17 @@ import { enumValueError } from '../errors/enum-value-error';
 export function enumeration<E>(
   enumObj: object,
   decoderName: string
-): Decoder<E> {
-  return new Decoder<E>((json: any) => {
-    const enumValue = Object.values(enumObj).find((x: any) => x === json);
-    if (enumValue !== undefined) {
-      return Result.ok<E>(enumValue);
-    }
-    return Result.err<E>(enumValueError(decoderName, json));
-  });
+): Codec<E, E> {
+  const values = Object.values(enumObj);
+  return new Codec<E, E>(
+    (json: any) => {
+      const enumValue = values.find((x: any) => x === json);
+      if (enumValue !== undefined) {
+        return Result.ok<E>(enumValue);
+      }
+      return Result.err<E>(enumValueDecodeError(decoderName, json));
+    },
+    value => value,
+    { kind: 'enum', decoderName, values }
+  );
 }
@@ -0,0 +1,69 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec, Decoder } from '../core';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+
+declare const exactOptionalKey: unique symbol;
+
+/**
+ * Marks the decoders returned by {@link exactOptional}, so that the objects whose type is inferred
+ * make their field optional. The mark only exists in types.
+ *
+ * @category Internal Types
+ */
+export type ExactOptional = { readonly [exactOptionalKey]: true };
+
+/**
+ * Decoder for an object field that may be missing, but is never `undefined` when it is present.
+ * A missing key is left out of the decoded object, while a key that is present with an `undefined` value fails,
+ * unlike {@link optional} which accepts both. This matches `exactOptionalPropertyTypes`, where `name?: string`
+ * doesn't allow `{ name: undefined }`.
+ *
+ * The decoded type is `T`: objects whose type is inferred get a `name?: T` property,
+ * and interfaces with an optional property can be given to {@link object} as well.
+ *
+ * @category Utils
+ * @param decoder The decoder for the field when it is present
+ * @returns A decoder of fields that may be missing, or a codec when `decoder` is a codec
+ *
+ * @example
+ * ```ts
+ * interface UserPatch {
+ *   name?: string;
+ * }
+ *
+ * const patchDecoder = JsonDecoder.object<UserPatch>(
+ *   { name: JsonDecoder.exactOptional(JsonDecoder.string()) },
+ *   'UserPatch'
+ * );
+ *
+ * patchDecoder.decode({}); // Ok<UserPatch>({value: {}})
+ * patchDecoder.decode({ name: 'Ada' }); // Ok<UserPatch>({value: {name: 'Ada'}})
+ * patchDecoder.decode({ name: undefined });
+ * // Err({error: '<UserPatch> decoder failed at key "name" with error: undefined is not a valid string'})
+ * ```
+ */
+export function exactOptional<T, J>(
+  decoder: Codec<T, J>
+): Codec<T, J> & ExactOptional;
+export function exactOptional<T>(
+  decoder: Decoder<T>
+): Decoder<T> & ExactOptional;
+export function exactOptional<T>(decoder: Decoder<T>): Decoder<T> {
+  const descriptor: DecoderDescriptor = { kind: 'exact-optional', decoder };
+  if (decoder instanceof Codec) {
+    return new Codec<T, unknown>(
+      (json, options) => decoder.decode(json, options),
+      value => (value === undefined ? undefined : decoder.encode(value)),
+      descriptor
+    );
+  }
+  return new Decoder<T>(
+    (json, options) => decoder.decode(json, options),
+    descriptor
+  );
+}
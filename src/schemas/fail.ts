@@ -21,7 +21,10 @@ import * as Result from '../utils/result';
  * ```
  */
 export function fail<T>(error: string): Decoder<T> {
-  return new Decoder<T>(() => {
-    return Result.err<any>(error);
-  });
+  return new Decoder<T>(
+    () => {
+      return Result.err<any>(error);
+    },
+    { kind: 'fail', message: error }
+  );
 }
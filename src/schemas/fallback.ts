@@ -23,14 +23,17 @@ import * as Result from '../utils/result';
  * ```
  */
 export function fallback<T>(defaultValue: T, decoder: Decoder<T>): Decoder<T> {
-  return new Decoder<T>((json: any) => {
-    const result = decoder.decode(json);
-    if (result.isOk()) {
-      return result;
-    } else {
-      return Result.ok<T>(defaultValue);
-    }
-  });
+  return new Decoder<T>(
+    (json: any, options) => {
+      const result = decoder.decode(json, options);
+      if (result.isOk()) {
+        return result;
+      } else {
+        return Result.ok<T>(defaultValue);
+      }
+    },
+    { kind: 'fallback', decoder, defaultValue }
+  );
 }
 
 /* v8 ignore start */
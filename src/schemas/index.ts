@@ -6,23 +6,36 @@
 
 export * from './all-of';
 export * from './array';
+export * from './array-async';
+export * from './bigint';
 export * from './boolean';
+export * from './coerce';
 export * from './constant';
+export * from './date-time';
+export * from './decimal';
+export * from './discriminated-union';
 export * from './empty-object';
 export * from './enum';
+export * from './exact-optional';
 export * from './fail';
 export * from './fallback';
 export * from './lazy';
 export * from './literal';
+export * from './map';
 export * from './null';
 export * from './nullable';
+export * from './nullish';
 export * from './number';
 export * from './object';
+export * from './object-async';
+export * from './object-operations';
 export * from './object-strict';
 export * from './one-of';
 export * from './optional';
 export * from './record';
+export * from './set';
 export * from './string';
 export * from './succeed';
 export * from './tuple';
 export * from './undefined';
+export * from './with-default';
@@ -32,5 +32,8 @@ import { Decoder } from '../core';
  * ```
  */
 export function lazy<T>(mkDecoder: () => Decoder<T>): Decoder<T> {
-  return new Decoder((json: any) => mkDecoder().decode(json));
+  return new Decoder(
+    (json: any, options) => mkDecoder().decode(json, options),
+    { kind: 'lazy', resolve: mkDecoder }
+  );
 }
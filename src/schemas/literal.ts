@@ -4,8 +4,8 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { exactlyError } from '../errors/exactly-error';
+import { Codec } from '../core';
+import { exactlyDecodeError } from '../errors/exactly-error';
 import * as Result from '../utils/result';
 
 /**
@@ -13,7 +13,7 @@ import * as Result from '../utils/result';
  *
  * @category Utils
  * @param value The exact value to accept
- * @returns A decoder that only accepts the specified value
+ * @returns A codec that only accepts the specified value
  *
  * @example
  * ```ts
@@ -23,14 +23,18 @@ import * as Result from '../utils/result';
  * oneDecoder.decode(2); // Err({error: '2 is not exactly 1'})
  * ```
  */
-export function literal<const T>(value: T): Decoder<T> {
-  return new Decoder((json: any) => {
-    if (json === value) {
-      return Result.ok<T>(value);
-    } else {
-      return Result.err<T>(exactlyError(json, value));
-    }
-  });
+export function literal<const T>(value: T): Codec<T, T> {
+  return new Codec<T, T>(
+    (json: any) => {
+      if (json === value) {
+        return Result.ok<T>(value);
+      } else {
+        return Result.err<T>(exactlyDecodeError(json, value));
+      }
+    },
+    value => value,
+    { kind: 'literal', value }
+  );
 }
 
 /* v8 ignore start */
@@ -40,7 +44,7 @@ export function literal<const T>(value: T): Decoder<T> {
  * @deprecated Use `literal` directly instead.
  * @ignore
  */
-export function isExactly<const T>(value: T): Decoder<T> {
+export function isExactly<const T>(value: T): Codec<T, T> {
   return literal(value);
 }
 /* v8 ignore stop */
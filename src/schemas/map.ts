@@ -0,0 +1,89 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import { decodeEntries } from '../utils/decode-entries';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import * as Result from '../utils/result';
+import { array } from './array';
+import { tuple } from './tuple';
+
+/**
+ * Decoder for `Map` objects with typed keys.
+ *
+ * It accepts two JSON shapes:
+ * - an object, whose keys are decoded by `keyDecoder` as strings (like with {@link record})
+ * - an array of `[key, value]` pairs, whose keys can be any JSON value. Later pairs override earlier ones
+ *
+ * @category Data Structures
+ * @param keyDecoder The decoder for the map keys
+ * @param valueDecoder The decoder for the map values
+ * @param decoderName How to display the name of the object being decoded in errors
+ * @returns A decoder that validates and returns a `Map`, or a codec when both decoders are codecs,
+ * that encodes maps as arrays of pairs
+ *
+ * @example
+ * ```ts
+ * const pricesDecoder = JsonDecoder.map(
+ *   JsonDecoder.coerce.number({ integer: true }),
+ *   JsonDecoder.number(),
+ *   'Prices'
+ * );
+ *
+ * pricesDecoder.decode({ '1': 9.99, '2': 19.99 }); // Ok<Map<number, number>>({value: Map {1 => 9.99, 2 => 19.99}})
+ * pricesDecoder.decode([[1, 9.99], [2, 19.99]]); // Ok<Map<number, number>>({value: Map {1 => 9.99, 2 => 19.99}})
+ * pricesDecoder.encode(new Map([[1, 9.99]])); // [['1', 9.99]]
+ * ```
+ */
+export function map<K, V, KJ, VJ>(
+  keyDecoder: Codec<K, KJ>,
+  valueDecoder: Codec<V, VJ>,
+  decoderName: string
+): Codec<Map<K, V>, Array<[KJ, VJ]>>;
+export function map<K, V>(
+  keyDecoder: Decoder<K>,
+  valueDecoder: Decoder<V>,
+  decoderName: string
+): Decoder<Map<K, V>>;
+export function map<K, V>(
+  keyDecoder: Decoder<K>,
+  valueDecoder: Decoder<V>,
+  decoderName: string
+): Decoder<Map<K, V>> {
+  const pairsDecoder = array(
+    // the pair can only be shorter when the value decoder accepts undefined
+    tuple([keyDecoder, valueDecoder], `${decoderName} entry`) as Decoder<
+      [K, V]
+    >,
+    decoderName
+  );
+  const decodeFn = (
+    json: any,
+    options: DecodeOptions
+  ): Result.Result<Map<K, V>> =>
+    (json instanceof Array
+      ? pairsDecoder.decode(json, options)
+      : decodeEntries(json, keyDecoder, valueDecoder, decoderName, options)
+    ).map(entries => new Map(entries));
+  const descriptor: DecoderDescriptor = {
+    kind: 'map-collection',
+    decoderName,
+    key: keyDecoder,
+    element: valueDecoder
+  };
+  if (keyDecoder instanceof Codec && valueDecoder instanceof Codec) {
+    return new Codec<Map<K, V>, Array<[unknown, unknown]>>(
+      decodeFn,
+      value =>
+        Array.from(value, ([key, element]) => [
+          keyDecoder.encode(key),
+          valueDecoder.encode(element)
+        ]),
+      descriptor
+    );
+  }
+  return new Decoder<Map<K, V>>(decodeFn, descriptor);
+}
@@ -4,15 +4,15 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { nullError } from '../errors/null-error';
+import { Codec } from '../core';
+import { nullDecodeError } from '../errors/null-error';
 import * as Result from '../utils/result';
 
 /**
  * Decoder for `null` values.
  *
  * @category Primitives
- * @returns A decoder that only accepts `null` values
+ * @returns A codec that only accepts `null` values
  *
  * @example
  * ```ts
@@ -23,14 +23,18 @@ import * as Result from '../utils/result';
  * ```
  * @category Primitives
  */
-function null_(): Decoder<null> {
-  return new Decoder((json: any) => {
-    if (json === null) {
-      return Result.ok<null>(null);
-    } else {
-      return Result.err<null>(nullError(json));
-    }
-  });
+function null_(): Codec<null, null> {
+  return new Codec<null, null>(
+    (json: any) => {
+      if (json === null) {
+        return Result.ok<null>(null);
+      } else {
+        return Result.err<null>(nullDecodeError(json));
+      }
+    },
+    value => value,
+    { kind: 'null' }
+  );
 }
 
 export { null_ as null };
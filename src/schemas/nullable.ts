@@ -4,7 +4,8 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
 import * as Result from '../utils/result';
 
 /**
@@ -12,7 +13,7 @@ import * as Result from '../utils/result';
  *
  * @category Utils
  * @param decoder The decoder for the non-null value
- * @returns A decoder that accepts either the decoded value or null
+ * @returns A decoder that accepts either the decoded value or null, or a codec when `decoder` is a codec
  *
  * @example
  * ```ts
@@ -33,11 +34,25 @@ import * as Result from '../utils/result';
  * userDecoder.decode({name: 'John', age: 30}); // Ok<User>
  * ```
  */
+export function nullable<T, J>(decoder: Codec<T, J>): Codec<T | null, J | null>;
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null>;
 export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
-  return new Decoder<T | null>((json: any) => {
+  const decodeFn = (
+    json: any,
+    options: DecodeOptions
+  ): Result.Result<T | null> => {
     if (json === null) {
       return Result.ok<T | null>(null);
     }
-    return decoder.decode(json);
-  });
+    return decoder.decode(json, options);
+  };
+  const descriptor: DecoderDescriptor = { kind: 'nullable', decoder };
+  if (decoder instanceof Codec) {
+    return new Codec<T | null, unknown>(
+      decodeFn,
+      value => (value === null ? null : decoder.encode(value)),
+      descriptor
+    );
+  }
+  return new Decoder<T | null>(decodeFn, descriptor);
 }
@@ -0,0 +1,39 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import type { Codec, Decoder } from '../core';
+import { nullable } from './nullable';
+import { optional, type Optional } from './optional';
+
+/**
+ * Decoder for a value that may be missing, `undefined` or `null`.
+ * `null` is kept as it is, so that it can be told apart from a missing object field, which is left out.
+ *
+ * @category Utils
+ * @param decoder The decoder for the value when it is neither missing nor `null`
+ * @returns A decoder that accepts the decoded value, `undefined` or `null`, or a codec when `decoder` is a codec
+ *
+ * @example
+ * ```ts
+ * const patchDecoder = JsonDecoder.object(
+ *   { nickname: JsonDecoder.nullish(JsonDecoder.string()) },
+ *   'UserPatch'
+ * );
+ *
+ * patchDecoder.decode({}); // Ok({value: {}}), leave the nickname as it is
+ * patchDecoder.decode({ nickname: null }); // Ok({value: {nickname: null}}), clear the nickname
+ * patchDecoder.decode({ nickname: 'Ada' }); // Ok({value: {nickname: 'Ada'}})
+ * ```
+ */
+export function nullish<T, J>(
+  decoder: Codec<T, J>
+): Codec<T | null | undefined, J | null | undefined> & Optional;
+export function nullish<T>(
+  decoder: Decoder<T>
+): Decoder<T | null | undefined> & Optional;
+export function nullish<T>(decoder: Decoder<T>): Decoder<T | null | undefined> {
+  return optional(nullable(decoder));
+}
@@ -4,28 +4,148 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
+import { Codec } from '../core';
+import { isMultipleOf } from '../utils/constraint-checks';
 import * as Result from '../utils/result';
-import { primitiveError } from '../errors/primitive-error';
+import { constraintDecodeError } from '../errors/constraint-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+
+/**
+ * Constraints checked by the {@link number} decoder after the `typeof` check.
+ * They are available to tools in the decoder descriptor, e.g. `toJsonSchema` exports them as
+ * `type: 'integer'`, `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum` and `multipleOf`.
+ */
+export interface NumberConstraints {
+  /** The number must not be `NaN`, `Infinity` or `-Infinity`. */
+  readonly finite?: boolean;
+  /** The number must be an integer. */
+  readonly integer?: boolean;
+  /** The number must be an integer between `Number.MIN_SAFE_INTEGER` and `Number.MAX_SAFE_INTEGER`. */
+  readonly safeInteger?: boolean;
+  /** The number must be greater than 0. */
+  readonly positive?: boolean;
+  /** The number must be greater than or equal to 0. */
+  readonly nonNegative?: boolean;
+  /** The inclusive lower bound of the number. */
+  readonly min?: number;
+  /** The exclusive lower bound of the number. */
+  readonly exclusiveMin?: number;
+  /** The inclusive upper bound of the number. */
+  readonly max?: number;
+  /** The exclusive upper bound of the number. */
+  readonly exclusiveMax?: number;
+  /** The number must be a multiple of this value. */
+  readonly multipleOf?: number;
+}
+
+/**
+ * Constraints of common kinds of numbers, to use as they are or to extend:
+ * - `port`: a TCP/UDP port, an integer from 0 to 65535
+ * - `percentage`: a number from 0 to 100
+ *
+ * @example
+ * ```ts
+ * JsonDecoder.number(JsonDecoder.numberPresets.port).decode(8080); // Ok<number>({value: 8080})
+ * JsonDecoder.number({ ...JsonDecoder.numberPresets.percentage, integer: true }).decode(12.5);
+ * // Err({error: '12.5 is not a valid integer'})
+ * ```
+ */
+export const numberPresets: {
+  readonly port: NumberConstraints;
+  readonly percentage: NumberConstraints;
+} = {
+  port: { integer: true, min: 0, max: 65535 },
+  percentage: { min: 0, max: 100 }
+};
 
 /**
  * Decoder for `number` values.
  *
  * @category Primitives
- * @returns A decoder that validates and returns number values
+ * @param constraints Optional constraints that the number must meet
+ * @returns A codec that validates and returns number values
  *
  * @example
  * ```ts
  * JsonDecoder.number().decode(99); // Ok<number>({value: 99})
  * JsonDecoder.number().decode('hola'); // Err({error: 'hola is not a valid number'})
+ *
+ * JsonDecoder.number({ integer: true }).decode(1.5); // Err({error: '1.5 is not a valid integer'})
+ * JsonDecoder.number({ min: 0, exclusiveMax: 1 }).decode(1); // Err({error: '1 is not a valid number < 1'})
  * ```
  */
-export function number(): Decoder<number> {
-  return new Decoder<number>((json: any) => {
-    if (typeof json === 'number') {
+export function number(constraints?: NumberConstraints): Codec<number, number> {
+  const check =
+    constraints === undefined ? undefined : constraintCheck(constraints);
+  return new Codec<number, number>(
+    (json: any) => {
+      if (typeof json !== 'number') {
+        return Result.err<number>(primitiveDecodeError(json, 'number'));
+      }
+      const broken = check?.(json);
+      if (broken !== undefined) {
+        return Result.err<number>(constraintDecodeError(json, broken));
+      }
       return Result.ok<number>(json);
-    } else {
-      return Result.err<number>(primitiveError(json, 'number'));
-    }
-  });
+    },
+    value => value,
+    constraints === undefined
+      ? { kind: 'number' }
+      : { kind: 'number', constraints }
+  );
+}
+
+/**
+ * Returns a function that describes the first constraint a number breaks, if any.
+ */
+function constraintCheck(
+  constraints: NumberConstraints
+): (n: number) => string | undefined {
+  const checks: Array<[(n: number) => boolean, string]> = [];
+  const {
+    finite,
+    integer,
+    safeInteger,
+    positive,
+    nonNegative,
+    min,
+    exclusiveMin,
+    max,
+    exclusiveMax,
+    multipleOf
+  } = constraints;
+  if (finite) {
+    checks.push([Number.isFinite, 'finite number']);
+  }
+  if (integer) {
+    checks.push([Number.isInteger, 'integer']);
+  }
+  if (safeInteger) {
+    checks.push([Number.isSafeInteger, 'safe integer']);
+  }
+  if (positive) {
+    checks.push([n => n > 0, 'positive number']);
+  }
+  if (nonNegative) {
+    checks.push([n => n >= 0, 'non-negative number']);
+  }
+  if (min !== undefined) {
+    checks.push([n => n >= min, `number >= ${min}`]);
+  }
+  if (exclusiveMin !== undefined) {
+    checks.push([n => n > exclusiveMin, `number > ${exclusiveMin}`]);
+  }
+  if (max !== undefined) {
+    checks.push([n => n <= max, `number <= ${max}`]);
+  }
+  if (exclusiveMax !== undefined) {
+    checks.push([n => n < exclusiveMax, `number < ${exclusiveMax}`]);
+  }
+  if (multipleOf !== undefined) {
+    checks.push([
+      n => isMultipleOf(n, multipleOf),
+      `multiple of ${multipleOf}`
+    ]);
+  }
+  return n => checks.find(([isValid]) => !isValid(n))?.[1];
 }
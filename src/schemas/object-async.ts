@@ -0,0 +1,162 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { AsyncDecoder, Decoder } from '../core';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { objectDecodeError } from '../errors/object-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import { prependPath } from '../utils/decode-error';
+import * as Result from '../utils/result';
+import type { ObjectOf } from './object';
+
+/**
+ * Same as {@link DecoderObject}, but each property may also be decoded by an {@link AsyncDecoder}.
+ *
+ * @category Internal Types
+ */
+export type AsyncDecoderObject<T> = {
+  [P in keyof Required<T>]:
+    | Decoder<T[P]>
+    | AsyncDecoder<T[P]>
+    | { fromKey: string; decoder: Decoder<T[P]> | AsyncDecoder<T[P]> };
+};
+
+/**
+ * Same as {@link DecoderFields}, but each field may also be decoded by an {@link AsyncDecoder}.
+ *
+ * @category Internal Types
+ */
+export type AsyncDecoderFields = {
+  readonly [key: string]:
+    | Decoder<any>
+    | AsyncDecoder<any>
+    | {
+        readonly fromKey: string;
+        readonly decoder: Decoder<any> | AsyncDecoder<any>;
+      };
+};
+
+/**
+ * Async decoder for objects whose fields may be decoded by async decoders, like {@link object} otherwise.
+ * The async fields are decoded concurrently, within the `concurrency` limit of the decoding.
+ *
+ * The regular decoders go first: when one of them fails and `allErrors` is not set,
+ * the async checks don't run at all.
+ *
+ * Unknown keys are left out, like with the default `unknownKeys` policy of {@link object}.
+ *
+ * @category Data Structures
+ * @param decoders Key/value pairs of decoders, or async decoders, for each object field.
+ * @param decoderName How to display the name of the object being decoded in errors.
+ * @returns An async decoder that validates and returns objects matching the specified structure
+ *
+ * @example
+ * ```ts
+ * const signupDecoder = JsonDecoder.objectAsync(
+ *   {
+ *     username: JsonDecoder.string().refineAsync(
+ *       async (username, { signal }) => !(await users.exists(username, { signal })),
+ *       username => `${username} is already taken`
+ *     ),
+ *     teamId: {
+ *       fromKey: 'team_id',
+ *       decoder: JsonDecoder.number().refineAsync(teams.exists, 'unknown team')
+ *     },
+ *     email: JsonDecoder.string({ format: 'email' })
+ *   },
+ *   'Signup'
+ * );
+ *
+ * await signupDecoder.decode({ username: 'ada', team_id: 1, email: 'ada@example.com' }, { concurrency: 2 });
+ * // Err({error: '<Signup> decoder failed at key "username" with error: ada is already taken'})
+ * ```
+ */
+export function objectAsync<D extends AsyncDecoderFields>(
+  decoders: D,
+  decoderName: string
+): AsyncDecoder<ObjectOf<D>>;
+export function objectAsync<T>(
+  decoders: AsyncDecoderObject<T>,
+  decoderName: string
+): AsyncDecoder<T>;
+export function objectAsync<T>(
+  decoders: AsyncDecoderObject<T>,
+  decoderName: string
+): AsyncDecoder<T> {
+  const fields: Array<{
+    key: string;
+    fromKey: string;
+    decoder: Decoder<unknown> | AsyncDecoder<unknown>;
+  }> = Object.keys(decoders).map(key => {
+    const decoderObject: AsyncDecoderObject<{
+      [key: string]: unknown;
+    }>[string] = decoders[key as keyof T];
+    return decoderObject instanceof Decoder ||
+      decoderObject instanceof AsyncDecoder
+      ? { key, fromKey: key, decoder: decoderObject }
+      : { key, ...decoderObject };
+  });
+  return new AsyncDecoder<T>(async (json, options) => {
+    if (json === null || typeof json !== 'object') {
+      return Result.err<T>(primitiveDecodeError(json, decoderName));
+    }
+    // The results of the fields, in field order, or undefined for missing `exactOptional` fields
+    const results: Array<Result.Result<unknown> | undefined> = [];
+    for (const [i, { key, fromKey, decoder }] of fields.entries()) {
+      if (
+        decoder instanceof Decoder &&
+        (Object.prototype.hasOwnProperty.call(json, fromKey) ||
+          decoder.descriptor.kind !== 'exact-optional')
+      ) {
+        const r = decoder.decode(json[fromKey], options);
+        if (!r.isOk() && !options.allErrors) {
+          return Result.err<T>(
+            objectDecodeError(decoderName, json, [
+              { key, error: prependPath(r.error, fromKey) }
+            ])
+          );
+        }
+        results[i] = r;
+      }
+    }
+    await Promise.all(
+      fields.map(async ({ fromKey, decoder }, i) => {
+        if (decoder instanceof AsyncDecoder) {
+          results[i] = await decoder.decode(json[fromKey], options);
+        }
+      })
+    );
+    const failures: KeyedDecodeError<string>[] = [];
+    const result: any = {};
+    fields.forEach(({ key, fromKey }, i) => {
+      const r = results[i];
+      if (r === undefined) {
+        return;
+      }
+      if (r.isOk()) {
+        // Missing keys stay missing, unless their decoder gives them a value
+        if (
+          Object.prototype.hasOwnProperty.call(json, fromKey) ||
+          r.value !== undefined
+        ) {
+          result[key] = r.value;
+        }
+      } else {
+        failures.push({ key, error: prependPath(r.error, fromKey) });
+      }
+    });
+    if (failures.length > 0) {
+      return Result.err<T>(
+        objectDecodeError(
+          decoderName,
+          json,
+          options.allErrors ? failures : failures.slice(0, 1)
+        )
+      );
+    }
+    return Result.ok<T>(result);
+  });
+}
@@ -0,0 +1,423 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import { constraintDecodeError } from '../errors/constraint-error';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import * as Result from '../utils/result';
+import {
+  object,
+  type CodecFields,
+  type CodecObject,
+  type DecoderFields,
+  type DecoderObject,
+  type ObjectOf
+} from './object';
+import { objectStrict } from './object-strict';
+import { optional } from './optional';
+
+/**
+ * The type of an object decoder extended with more fields, which replace the fields with the same name.
+ *
+ * @typeParam T - The type of the object decoder
+ * @typeParam E - The type of the fields it is extended with
+ * @category Internal Types
+ */
+export type Extended<T, E> = Flatten<Omit<T, keyof E> & E>;
+
+/**
+ * Derives an object decoder that only decodes some of the fields of an `object` or `objectStrict` decoder.
+ * The fields keep their `fromKey`, and the decoder its strictness, so a strict decoder rejects the other fields.
+ *
+ * @category Data Structures
+ * @param decoder An `object` or `objectStrict` decoder
+ * @param keys The fields to keep
+ * @param decoderName The name of the new decoder. Defaults to the name of `decoder`
+ * @returns A decoder of the picked fields, or a codec when `decoder` is a codec
+ * @throws {Error} When `decoder` is not an `object` or `objectStrict` decoder
+ *
+ * @example
+ * ```ts
+ * const userDecoder = JsonDecoder.object(
+ *   {
+ *     id: JsonDecoder.number(),
+ *     firstName: { fromKey: 'first_name', decoder: JsonDecoder.string() },
+ *     email: JsonDecoder.string()
+ *   },
+ *   'User'
+ * );
+ *
+ * const summaryDecoder = JsonDecoder.pick(userDecoder, ['id', 'firstName'], 'UserSummary');
+ * summaryDecoder.decode({ id: 1, first_name: 'Ada' }); // Ok<Pick<User, 'id' | 'firstName'>>
+ * ```
+ */
+export function pick<T, K extends keyof T>(
+  decoder: Codec<T, any>,
+  keys: ReadonlyArray<K>,
+  decoderName?: string
+): Codec<Pick<T, K>, { [key: string]: unknown }>;
+export function pick<T, K extends keyof T>(
+  decoder: Decoder<T>,
+  keys: ReadonlyArray<K>,
+  decoderName?: string
+): Decoder<Pick<T, K>>;
+export function pick<T, K extends keyof T>(
+  decoder: Decoder<T>,
+  keys: ReadonlyArray<K>,
+  decoderName?: string
+): Decoder<ObjectOf<Fields>> {
+  const descriptor = objectDescriptor(decoder, 'pick');
+  const fields: Fields = {};
+  for (const key of keys as ReadonlyArray<string>) {
+    fields[key] = descriptor.fields[key];
+  }
+  return rebuild(descriptor, fields, decoderName);
+}
+
+/**
+ * Derives an object decoder without some of the fields of an `object` or `objectStrict` decoder.
+ * The other fields keep their `fromKey`, and the decoder its strictness, so a strict decoder rejects the omitted fields.
+ *
+ * @category Data Structures
+ * @param decoder An `object` or `objectStrict` decoder
+ * @param keys The fields to leave out
+ * @param decoderName The name of the new decoder. Defaults to the name of `decoder`
+ * @returns A decoder of the other fields, or a codec when `decoder` is a codec
+ * @throws {Error} When `decoder` is not an `object` or `objectStrict` decoder
+ *
+ * @example
+ * ```ts
+ * const createUserDecoder = JsonDecoder.omit(userDecoder, ['id'], 'CreateUser');
+ * createUserDecoder.decode({ first_name: 'Ada', email: 'ada@example.com' }); // Ok<Omit<User, 'id'>>
+ * ```
+ */
+export function omit<T, K extends keyof T>(
+  decoder: Codec<T, any>,
+  keys: ReadonlyArray<K>,
+  decoderName?: string
+): Codec<Omit<T, K>, { [key: string]: unknown }>;
+export function omit<T, K extends keyof T>(
+  decoder: Decoder<T>,
+  keys: ReadonlyArray<K>,
+  decoderName?: string
+): Decoder<Omit<T, K>>;
+export function omit<T, K extends keyof T>(
+  decoder: Decoder<T>,
+  keys: ReadonlyArray<K>,
+  decoderName?: string
+): Decoder<ObjectOf<Fields>> {
+  const descriptor = objectDescriptor(decoder, 'omit');
+  const fields: Fields = { ...descriptor.fields };
+  for (const key of keys as ReadonlyArray<string>) {
+    delete fields[key];
+  }
+  return rebuild(descriptor, fields, decoderName);
+}
+
+/**
+ * Derives an object decoder where every field of an `object` or `objectStrict` decoder is optional,
+ * for example to decode the body of a PATCH request.
+ *
+ * @category Data Structures
+ * @param decoder An `object` or `objectStrict` decoder
+ * @param decoderName The name of the new decoder. Defaults to the name of `decoder`
+ * @returns A decoder of the optional fields, or a codec when `decoder` is a codec
+ * @throws {Error} When `decoder` is not an `object` or `objectStrict` decoder
+ *
+ * @example
+ * ```ts
+ * const patchUserDecoder = JsonDecoder.partial(JsonDecoder.omit(userDecoder, ['id']), 'PatchUser');
+ * patchUserDecoder.decode({ email: 'ada@example.com' }); // Ok<Partial<Omit<User, 'id'>>>
+ * ```
+ */
+export function partial<T>(
+  decoder: Codec<T, any>,
+  decoderName?: string
+): Codec<Partial<T>, { [key: string]: unknown }>;
+export function partial<T>(
+  decoder: Decoder<T>,
+  decoderName?: string
+): Decoder<Partial<T>>;
+export function partial<T>(
+  decoder: Decoder<T>,
+  decoderName?: string
+): Decoder<ObjectOf<Fields>> {
+  const descriptor = objectDescriptor(decoder, 'partial');
+  const fields: Fields = {};
+  for (const [key, field] of Object.entries(descriptor.fields)) {
+    const kind = field.decoder.descriptor.kind;
+    fields[key] =
+      kind === 'optional' || kind === 'exact-optional'
+        ? field
+        : { fromKey: field.fromKey, decoder: optional(field.decoder) };
+  }
+  return rebuild(descriptor, fields, decoderName);
+}
+
+/**
+ * Derives an object decoder where the `optional` and `exactOptional` fields of an `object` or `objectStrict` decoder are required.
+ * The other fields that may decode to `undefined`, like a `oneOf` with an `undefined` decoder or a mapped `optional` field,
+ * fail when they do, so that no field of the decoded value is `undefined`.
+ *
+ * @category Data Structures
+ * @param decoder An `object` or `objectStrict` decoder
+ * @param decoderName The name of the new decoder. Defaults to the name of `decoder`
+ * @returns A decoder of the required fields, or a codec when `decoder` is a codec
+ * @throws {Error} When `decoder` is not an `object` or `objectStrict` decoder
+ *
+ * @example
+ * ```ts
+ * const draftDecoder = JsonDecoder.object(
+ *   { title: JsonDecoder.string(), body: JsonDecoder.optional(JsonDecoder.string()) },
+ *   'Draft'
+ * );
+ * const postDecoder = JsonDecoder.required(draftDecoder, 'Post');
+ * postDecoder.decode({ title: 'Hello' });
+ * // Err({error: '<Post> decoder failed at key "body" with error: undefined is not a valid string'})
+ * ```
+ */
+export function required<T>(
+  decoder: Codec<T, any>,
+  decoderName?: string
+): Codec<Required<T>, { [key: string]: unknown }>;
+export function required<T>(
+  decoder: Decoder<T>,
+  decoderName?: string
+): Decoder<Required<T>>;
+export function required<T>(
+  decoder: Decoder<T>,
+  decoderName?: string
+): Decoder<ObjectOf<Fields>> {
+  const descriptor = objectDescriptor(decoder, 'required');
+  const fields: Fields = {};
+  for (const [key, field] of Object.entries(descriptor.fields)) {
+    const fieldDescriptor = field.decoder.descriptor;
+    const fieldDecoder =
+      fieldDescriptor.kind === 'optional' ||
+      fieldDescriptor.kind === 'exact-optional'
+        ? fieldDescriptor.decoder
+        : field.decoder;
+    fields[key] = {
+      fromKey: field.fromKey,
+      decoder: mayDecodeUndefined(fieldDecoder)
+        ? definedValue(fieldDecoder)
+        : fieldDecoder
+    };
+  }
+  return rebuild(descriptor, fields, decoderName);
+}
+
+/**
+ * Derives an object decoder from an `object` or `objectStrict` decoder with more fields.
+ * Fields with the same name as an existing field replace it.
+ *
+ * @category Data Structures
+ * @param decoder An `object` or `objectStrict` decoder
+ * @param decoders The decoders of the new fields, like the ones of {@link object}
+ * @param decoderName The name of the new decoder. Defaults to the name of `decoder`
+ * @returns A decoder of all the fields, or a codec when `decoder` and the new decoders are codecs
+ * @throws {Error} When `decoder` is not an `object` or `objectStrict` decoder
+ *
+ * @example
+ * ```ts
+ * const adminDecoder = JsonDecoder.extend(
+ *   userDecoder,
+ *   { permissions: JsonDecoder.array(JsonDecoder.string(), 'Permissions') },
+ *   'Admin'
+ * );
+ * ```
+ */
+export function extend<T, D extends CodecFields>(
+  decoder: Codec<T, any>,
+  decoders: D,
+  decoderName?: string
+): Codec<Extended<T, ObjectOf<D>>, { [key: string]: unknown }>;
+export function extend<T, D extends DecoderFields>(
+  decoder: Decoder<T>,
+  decoders: D,
+  decoderName?: string
+): Decoder<Extended<T, ObjectOf<D>>>;
+export function extend<T, E>(
+  decoder: Codec<T, any>,
+  decoders: CodecObject<E>,
+  decoderName?: string
+): Codec<Extended<T, E>, { [key: string]: unknown }>;
+export function extend<T, E>(
+  decoder: Decoder<T>,
+  decoders: DecoderObject<E>,
+  decoderName?: string
+): Decoder<Extended<T, E>>;
+export function extend<T, E>(
+  decoder: Decoder<T>,
+  decoders: DecoderObject<E>,
+  decoderName?: string
+): Decoder<ObjectOf<Fields>> {
+  const descriptor = objectDescriptor(decoder, 'extend');
+  const extension = objectDescriptor(object(decoders, ''), 'extend');
+  return rebuild(
+    descriptor,
+    { ...descriptor.fields, ...extension.fields },
+    decoderName
+  );
+}
+
+/**
+ * Combines the fields of two `object` or `objectStrict` decoders into one decoder.
+ * Fields of the second decoder replace the fields of the first one with the same name,
+ * and the result is strict when the first decoder is.
+ *
+ * @category Data Structures
+ * @param first An `object` or `objectStrict` decoder
+ * @param second An `object` or `objectStrict` decoder
+ * @param decoderName The name of the new decoder. Defaults to the name of `first`
+ * @returns A decoder of all the fields, or a codec when both decoders are codecs
+ * @throws {Error} When a decoder is not an `object` or `objectStrict` decoder
+ *
+ * @example
+ * ```ts
+ * const timestampsDecoder = JsonDecoder.object(
+ *   { createdAt: JsonDecoder.isoDateTime(), updatedAt: JsonDecoder.isoDateTime() },
+ *   'Timestamps'
+ * );
+ * const storedUserDecoder = JsonDecoder.merge(userDecoder, timestampsDecoder, 'StoredUser');
+ * ```
+ */
+export function merge<A, B>(
+  first: Codec<A, any>,
+  second: Codec<B, any>,
+  decoderName?: string
+): Codec<Extended<A, B>, { [key: string]: unknown }>;
+export function merge<A, B>(
+  first: Decoder<A>,
+  second: Decoder<B>,
+  decoderName?: string
+): Decoder<Extended<A, B>>;
+export function merge<A, B>(
+  first: Decoder<A>,
+  second: Decoder<B>,
+  decoderName?: string
+): Decoder<ObjectOf<Fields>> {
+  const descriptor = objectDescriptor(first, 'merge');
+  return rebuild(
+    descriptor,
+    { ...descriptor.fields, ...objectDescriptor(second, 'merge').fields },
+    decoderName
+  );
+}
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type ObjectDescriptor = Extract<DecoderDescriptor, { kind: 'object' }>;
+
+type Fields = {
+  [key: string]: { fromKey: string; decoder: Decoder<unknown> };
+};
+
+function objectDescriptor(
+  decoder: Decoder<unknown>,
+  operation: string
+): ObjectDescriptor {
+  const descriptor = decoder.descriptor;
+  if (descriptor.kind !== 'object') {
+    throw new Error(
+      `${operation} expects an object or objectStrict decoder, but received a decoder of kind "${descriptor.kind}"`
+    );
+  }
+  return descriptor;
+}
+
+/**
+ * Builds a decoder of the same kind as the original one, so that it keeps its strictness
+ * and its policy for unknown keys.
+ */
+function rebuild<F extends DecoderFields>(
+  descriptor: ObjectDescriptor,
+  fields: F,
+  decoderName = descriptor.decoderName
+): Decoder<ObjectOf<F>> {
+  const { strict, unknownKeys } = descriptor;
+  if (typeof unknownKeys === 'object') {
+    return object(fields, decoderName, { unknownKeys });
+  }
+  if (strict && unknownKeys === undefined) {
+    return objectStrict(fields, decoderName);
+  }
+  return object(fields, decoderName, { unknownKeys });
+}
+
+/**
+ * Whether a decoder may decode to `undefined`, judging from its descriptor.
+ * `map`, `flatMap` and `custom` decoders can't be inspected, so they may.
+ */
+function mayDecodeUndefined(
+  decoder: Decoder<unknown>,
+  visited: Set<Decoder<unknown>> = new Set()
+): boolean {
+  const descriptor = decoder.descriptor;
+  switch (descriptor.kind) {
+    case 'optional':
+    case 'exact-optional':
+    case 'undefined':
+    case 'succeed':
+    case 'map':
+    case 'flat-map':
+    case 'custom':
+      return true;
+    case 'literal':
+    case 'constant':
+      return descriptor.value === undefined;
+    case 'fallback':
+      return (
+        descriptor.defaultValue === undefined ||
+        mayDecodeUndefined(descriptor.decoder, visited)
+      );
+    case 'nullable':
+      return mayDecodeUndefined(descriptor.decoder, visited);
+    case 'lazy': {
+      if (visited.has(decoder)) {
+        return false;
+      }
+      visited.add(decoder);
+      const may = mayDecodeUndefined(descriptor.resolve(), visited);
+      visited.delete(decoder);
+      return may;
+    }
+    case 'one-of':
+    case 'all-of':
+      return descriptor.members.some(member =>
+        mayDecodeUndefined(member, visited)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Fails when a field decodes to `undefined`, the way a missing required property does.
+ */
+function definedValue(decoder: Decoder<unknown>): Decoder<unknown> {
+  const decodeFn = (
+    json: any,
+    options: DecodeOptions
+  ): Result.Result<unknown> => {
+    const result = decoder.decode(json, options);
+    if (result.isOk() && result.value === undefined) {
+      return Result.err<unknown>(
+        constraintDecodeError(json, 'required property')
+      );
+    }
+    return result;
+  };
+  const descriptor: DecoderDescriptor = { kind: 'flat-map', decoder };
+  if (decoder instanceof Codec) {
+    return new Codec<unknown, unknown>(
+      decodeFn,
+      value => decoder.encode(value),
+      descriptor
+    );
+  }
+  return new Decoder<unknown>(decodeFn, descriptor);
+}
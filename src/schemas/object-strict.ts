@@ -4,10 +4,23 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { objectError } from '../errors/object-error';
-import { objectStrictUnknownKeyError } from '../errors/object-strict-unknown-key-error';
-import { primitiveError } from '../errors/primitive-error';
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import type {
+  CodecFields,
+  CodecObject,
+  DecoderFields,
+  ObjectOf
+} from './object';
+import { objectDecodeError } from '../errors/object-error';
+import { objectStrictUnknownKeyDecodeError } from '../errors/object-strict-unknown-key-error';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import {
+  decodeFields,
+  encodeFields,
+  objectFields
+} from '../utils/object-fields';
 import * as Result from '../utils/result';
 
 /**
@@ -43,11 +56,13 @@ export type DecoderObjectStrict<T> = {
 
 /**
  * Decoder for objects with specified field decoders that fails if unknown fields are present.
+ * It fails at the first unknown field, while {@link object} with the `unknownKeys: 'reject'` option reports all of them.
  *
  * @category Data Structures
  * @param decoders Key/value pairs of decoders for each object field.
  * @param decoderName How to display the name of the object being decoded in errors.
- * @returns A decoder that validates and returns objects matching the specified structure, failing if unknown fields are present
+ * @returns A decoder that validates and returns objects matching the specified structure, failing if unknown fields are present,
+ * or a codec when all `decoders` are codecs
  *
  * @example
  * ```ts
@@ -82,52 +97,77 @@ export type DecoderObjectStrict<T> = {
  * userDecoder.decode({user_name: 'John', age: 30}); // Ok<User>
  * ```
  */
+export function objectStrict<D extends CodecFields>(
+  decoders: D,
+  decoderName: string
+): Codec<ObjectOf<D>, { [key: string]: unknown }>;
+export function objectStrict<D extends DecoderFields>(
+  decoders: D,
+  decoderName: string
+): Decoder<ObjectOf<D>>;
+export function objectStrict<T>(
+  decoders: CodecObject<T>,
+  decoderName: string
+): Codec<T, { [key: string]: unknown }>;
+export function objectStrict<T>(
+  decoders: DecoderObjectStrict<T>,
+  decoderName: string
+): Decoder<T>;
 export function objectStrict<T>(
   decoders: DecoderObjectStrict<T>,
   decoderName: string
 ): Decoder<T> {
-  return new Decoder<T>((json: any) => {
+  const fields = objectFields(decoders);
+  // The allowed JSON keys are the `fromKey` of the fields that have one,
+  // and the TypeScript property names of the others
+  const allowedKeys = new Set(
+    Object.values(fields).map(field => field.fromKey)
+  );
+  const decodeFn = (json: any, options: DecodeOptions): Result.Result<T> => {
     if (json !== null && typeof json === 'object') {
-      // Build an allowed JSON key set from provided decoders. If a decoder
-      // entry uses `{ fromKey, decoder }`, then the allowed JSON key for that
-      // property is `fromKey`. Otherwise the allowed key is the TypeScript
-      // property name (the key of `decoders`).
-      const allowedKeys = new Set<string>();
-      for (const key in decoders) {
-        if (Object.prototype.hasOwnProperty.call(decoders, key)) {
-          const decoderObject = decoders[key];
-          if (decoderObject instanceof Decoder) {
-            allowedKeys.add(key);
-          } else {
-            allowedKeys.add(decoderObject.fromKey);
-          }
-        }
-      }
+      const failures: KeyedDecodeError<string>[] = [];
       for (const key in json) {
         if (!allowedKeys.has(key)) {
-          return Result.err<T>(objectStrictUnknownKeyError(decoderName, key));
+          const error = objectStrictUnknownKeyDecodeError(
+            decoderName,
+            key,
+            json[key]
+          );
+          if (!options.allErrors) {
+            return Result.err<T>(error);
+          }
+          failures.push({ key, error });
         }
       }
       const result: any = {};
-      for (const key in decoders) {
-        if (Object.prototype.hasOwnProperty.call(decoders, key)) {
-          let r;
-          const decoderObject = decoders[key];
-          if (decoderObject instanceof Decoder) {
-            r = decoderObject.decode(json[key]);
-          } else {
-            r = decoderObject.decoder.decode(json[decoderObject.fromKey]);
-          }
-          if (r.isOk()) {
-            result[key] = r.value;
-          } else {
-            return Result.err<T>(objectError(decoderName, key, r.error));
-          }
-        }
+      decodeFields(json, fields, options, result, failures);
+      if (failures.length === 1 && failures[0].error.kind === 'unknown-key') {
+        return Result.err<T>(failures[0].error);
+      }
+      if (failures.length > 0) {
+        return Result.err<T>(objectDecodeError(decoderName, json, failures));
       }
       return Result.ok<T>(result);
     } else {
-      return Result.err<T>(primitiveError(json, decoderName));
+      return Result.err<T>(primitiveDecodeError(json, decoderName));
     }
-  });
+  };
+  const descriptor: DecoderDescriptor = {
+    kind: 'object',
+    decoderName,
+    strict: true,
+    fields
+  };
+  if (!Object.values(fields).every(field => field.decoder instanceof Codec)) {
+    return new Decoder<T>(decodeFn, descriptor);
+  }
+  return new Codec<T, { [key: string]: unknown }>(
+    decodeFn,
+    value => {
+      const json: { [key: string]: unknown } = {};
+      encodeFields(value as { [key: string]: unknown }, fields, json);
+      return json;
+    },
+    descriptor
+  );
 }
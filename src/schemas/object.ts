@@ -4,10 +4,21 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { objectError } from '../errors/object-error';
-import { primitiveError } from '../errors/primitive-error';
+import { Codec, Decoder, type DecodeOptions, type FromDecoder } from '../core';
+import { objectDecodeError } from '../errors/object-error';
+import { objectStrictUnknownKeyDecodeError } from '../errors/object-strict-unknown-key-error';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import { prependPath } from '../utils/decode-error';
+import { defineKey } from '../utils/define-key';
+import {
+  decodeFields,
+  encodeFields,
+  objectFields
+} from '../utils/object-fields';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
 import * as Result from '../utils/result';
+import type { ExactOptional } from './exact-optional';
 
 /**
  * Represents an object that maps properties of a TypeScript type `T` to
@@ -41,15 +52,127 @@ export type DecoderObject<T> = {
     | { fromKey: string; decoder: Decoder<T[P]> };
 };
 
+/**
+ * Same as {@link DecoderObject}, but with codecs for each property, so that
+ * the resulting object decoder can also encode.
+ *
+ * @category Internal Types
+ */
+export type CodecObject<T> = {
+  [P in keyof Required<T>]:
+    | Codec<T[P], any>
+    | { fromKey: string; decoder: Codec<T[P], any> };
+};
+
+/**
+ * The field decoders of an {@link object} whose type is inferred: decoders, or decoders
+ * with the JSON key they read from.
+ *
+ * @category Internal Types
+ */
+export type DecoderFields = {
+  readonly [key: string]:
+    | Decoder<any>
+    | { readonly fromKey: string; readonly decoder: Decoder<any> };
+};
+
+/**
+ * Same as {@link DecoderFields}, but with codecs for each field.
+ *
+ * @category Internal Types
+ */
+export type CodecFields = {
+  readonly [key: string]:
+    | Codec<any, any>
+    | { readonly fromKey: string; readonly decoder: Codec<any, any> };
+};
+
+/**
+ * The type of the objects decoded by field decoders. The fields that may be missing are
+ * optional properties: the {@link optional}, {@link nullish} and {@link exactOptional} fields,
+ * and any other field whose decoded type includes `undefined`.
+ *
+ * @typeParam D - The field decoders, like {@link DecoderFields}
+ * @category Internal Types
+ *
+ * @example
+ * ```ts
+ * type User = ObjectOf<{ name: Decoder<string>; age: Decoder<number | undefined> }>; // { name: string; age?: number | undefined }
+ * ```
+ */
+export type ObjectOf<D> = Flatten<
+  {
+    [K in keyof D as IsOptionalField<D[K]> extends true ? never : K]: FieldType<
+      D[K]
+    >;
+  } & {
+    [K in keyof D as IsOptionalField<D[K]> extends true
+      ? K
+      : never]?: FieldType<D[K]>;
+  }
+>;
+
+/**
+ * What an {@link object} decoder does with the keys of the JSON object that none of its fields read:
+ * - `strip` (the default): leaves them out of the decoded value
+ * - `reject`: fails, reporting every unknown key, while {@link objectStrict} stops at the first one
+ * - `passthrough`: copies them as they are to the decoded value, typed as `unknown`, except the keys named like a field
+ * - `{ restKey, catchall }`: decodes their values with the `catchall` decoder, into an object at the `restKey` property
+ *
+ * @category Internal Types
+ */
+export type UnknownKeys = 'strip' | 'reject' | 'passthrough' | Catchall;
+
+/**
+ * The {@link UnknownKeys} policy that decodes the unknown keys with a `catchall` decoder
+ * and collects them into the `restKey` property of the decoded value.
+ *
+ * @category Internal Types
+ */
+export interface Catchall<
+  K extends string = string,
+  D extends Decoder<unknown> = Decoder<unknown>
+> {
+  readonly restKey: K;
+  readonly catchall: D;
+}
+
+/**
+ * Options of the {@link object} decoder.
+ *
+ * @category Internal Types
+ */
+export interface ObjectOptions<U extends UnknownKeys = UnknownKeys> {
+  /** What to do with the keys that no field reads. Defaults to `'strip'`. */
+  readonly unknownKeys?: U;
+}
+
+/**
+ * The type of an object decoded with the `strip`, `reject` or `passthrough` {@link UnknownKeys} policy.
+ *
+ * @category Internal Types
+ */
+export type WithUnknownKeys<T, U extends UnknownKeys> = U extends 'passthrough'
+  ? T & { [key: string]: unknown }
+  : T;
+
 /**
  * Decoder for objects with specified field decoders. Supports mapping a
  * TypeScript property to a different JSON key via a `{ fromKey, decoder }`
  * entry in the `decoders` map.
  *
+ * The keys of the JSON object that no field reads are left out by default.
+ * The `unknownKeys` option can reject them instead, pass them through, or decode them
+ * with a catchall decoder, see {@link UnknownKeys}.
+ *
  * @category Data Structures
  * @param decoders Key/value pairs of decoders for each object field.
  * @param decoderName How to display the name of the object being decoded in errors.
- * @returns A decoder that validates and returns objects matching the specified structure
+ * @param options What to do with the unknown keys
+ * @returns A decoder that validates and returns objects matching the specified structure,
+ * or a codec when all `decoders` (and the `catchall` decoder) are codecs.
+ * Encoding writes each property to its `fromKey` and leaves out `undefined` values.
+ * @throws {Error} When the `restKey` of a catchall is also the key of a field
  *
  * @example
  * ```ts
@@ -89,33 +212,209 @@ export type DecoderObject<T> = {
  *   'User'
  * );
  * ```
+ *
+ * @example
+ * ```ts
+ * // Unknown keys can be kept, decoded into a rest property, or rejected
+ * const labelsDecoder = JsonDecoder.object(
+ *   { name: JsonDecoder.string() },
+ *   'Labels',
+ *   { unknownKeys: { restKey: 'labels', catchall: JsonDecoder.string() } }
+ * );
+ * labelsDecoder.decode({ name: 'web', env: 'prod', team: 'core' });
+ * // Ok({value: {name: 'web', labels: {env: 'prod', team: 'core'}}})
+ *
+ * JsonDecoder.object({ name: JsonDecoder.string() }, 'Name', { unknownKeys: 'passthrough' })
+ *   .decode({ name: 'web', env: 'prod' }); // Ok({value: {name: 'web', env: 'prod'}})
+ * ```
  */
+export function object<
+  D extends CodecFields,
+  U extends 'strip' | 'reject' | 'passthrough' = 'strip'
+>(
+  decoders: D,
+  decoderName: string,
+  options?: ObjectOptions<U>
+): Codec<WithUnknownKeys<ObjectOf<D>, U>, { [key: string]: unknown }>;
+export function object<
+  D extends DecoderFields,
+  U extends 'strip' | 'reject' | 'passthrough' = 'strip'
+>(
+  decoders: D,
+  decoderName: string,
+  options?: ObjectOptions<U>
+): Decoder<WithUnknownKeys<ObjectOf<D>, U>>;
+export function object<D extends CodecFields, K extends string, R>(
+  decoders: D,
+  decoderName: string,
+  options: ObjectOptions<Catchall<K, Codec<R, any>>>
+): Codec<
+  ObjectOf<D> & { [P in K]: { [key: string]: R } },
+  { [key: string]: unknown }
+>;
+export function object<D extends DecoderFields, K extends string, R>(
+  decoders: D,
+  decoderName: string,
+  options: ObjectOptions<Catchall<K, Decoder<R>>>
+): Decoder<ObjectOf<D> & { [P in K]: { [key: string]: R } }>;
+export function object<
+  T,
+  U extends 'strip' | 'reject' | 'passthrough' = 'strip'
+>(
+  decoders: CodecObject<T>,
+  decoderName: string,
+  options?: ObjectOptions<U>
+): Codec<WithUnknownKeys<T, U>, { [key: string]: unknown }>;
+export function object<
+  T,
+  U extends 'strip' | 'reject' | 'passthrough' = 'strip'
+>(
+  decoders: DecoderObject<T>,
+  decoderName: string,
+  options?: ObjectOptions<U>
+): Decoder<WithUnknownKeys<T, U>>;
+export function object<T, K extends string, R>(
+  decoders: CodecObject<T>,
+  decoderName: string,
+  options: ObjectOptions<Catchall<K, Codec<R, any>>>
+): Codec<T & { [P in K]: { [key: string]: R } }, { [key: string]: unknown }>;
+export function object<T, K extends string, R>(
+  decoders: DecoderObject<T>,
+  decoderName: string,
+  options: ObjectOptions<Catchall<K, Decoder<R>>>
+): Decoder<T & { [P in K]: { [key: string]: R } }>;
 export function object<T>(
   decoders: DecoderObject<T>,
-  decoderName: string
+  decoderName: string,
+  options: ObjectOptions = {}
 ): Decoder<T> {
-  return new Decoder<T>((json: any) => {
+  const { unknownKeys = 'strip' } = options;
+  const fields = objectFields(decoders);
+  const catchall = typeof unknownKeys === 'object' ? unknownKeys : undefined;
+  if (
+    catchall !== undefined &&
+    Object.prototype.hasOwnProperty.call(fields, catchall.restKey)
+  ) {
+    throw new Error(
+      `The rest key "${catchall.restKey}" of <${decoderName}> is also the key of a field`
+    );
+  }
+  const knownKeys = new Set(Object.values(fields).map(field => field.fromKey));
+
+  const decodeFn = (json: any, options: DecodeOptions): Result.Result<T> => {
     if (json !== null && typeof json === 'object') {
+      const failures: KeyedDecodeError<string>[] = [];
       const result: any = {};
-      for (const key in decoders) {
-        if (Object.prototype.hasOwnProperty.call(decoders, key)) {
-          let r;
-          const decoderObject = decoders[key];
-          if (decoderObject instanceof Decoder) {
-            r = decoderObject.decode(json[key]);
-          } else {
-            r = decoderObject.decoder.decode(json[decoderObject.fromKey]);
+      const rest: { [key: string]: unknown } = {};
+      const extraKeys =
+        unknownKeys === 'strip' ? [] : keysNotIn(json, knownKeys);
+      for (const key of extraKeys) {
+        if (unknownKeys === 'passthrough') {
+          // An extra key named like a field would bypass its decoder
+          if (!Object.prototype.hasOwnProperty.call(fields, key)) {
+            defineKey(result, key, json[key]);
           }
+        } else if (unknownKeys === 'reject') {
+          failures.push({
+            key,
+            error: objectStrictUnknownKeyDecodeError(
+              decoderName,
+              key,
+              json[key]
+            )
+          });
+        } else if (catchall !== undefined) {
+          const r = catchall.catchall.decode(json[key], options);
           if (r.isOk()) {
-            result[key] = r.value;
+            defineKey(rest, key, r.value);
           } else {
-            return Result.err<T>(objectError(decoderName, key, r.error));
+            failures.push({ key, error: prependPath(r.error, key) });
+            if (!options.allErrors) {
+              break;
+            }
           }
         }
       }
+      if (failures.length === 0 || options.allErrors) {
+        decodeFields(json, fields, options, result, failures);
+      }
+      if (failures.length === 1 && failures[0].error.kind === 'unknown-key') {
+        return Result.err<T>(failures[0].error);
+      }
+      if (failures.length > 0) {
+        return Result.err<T>(objectDecodeError(decoderName, json, failures));
+      }
+      if (catchall !== undefined) {
+        result[catchall.restKey] = rest;
+      }
       return Result.ok<T>(result);
     } else {
-      return Result.err<T>(primitiveError(json, decoderName));
+      return Result.err<T>(primitiveDecodeError(json, decoderName));
     }
-  });
+  };
+  const descriptor: DecoderDescriptor = {
+    kind: 'object',
+    decoderName,
+    strict: unknownKeys === 'reject',
+    fields,
+    ...(unknownKeys === 'strip' ? {} : { unknownKeys })
+  };
+  if (
+    !Object.values(fields).every(field => field.decoder instanceof Codec) ||
+    (catchall !== undefined && !(catchall.catchall instanceof Codec))
+  ) {
+    return new Decoder<T>(decodeFn, descriptor);
+  }
+  return new Codec<T, { [key: string]: unknown }>(
+    decodeFn,
+    value => {
+      const json: { [key: string]: unknown } = {};
+      if (unknownKeys === 'passthrough') {
+        for (const key of Object.keys(value as object)) {
+          if (!Object.prototype.hasOwnProperty.call(fields, key)) {
+            defineKey(json, key, value[key as keyof T]);
+          }
+        }
+      } else if (catchall !== undefined) {
+        const rest = value[catchall.restKey as keyof T] as {
+          [key: string]: unknown;
+        };
+        for (const key of Object.keys(rest)) {
+          defineKey(
+            json,
+            key,
+            (catchall.catchall as Codec<unknown, unknown>).encode(rest[key])
+          );
+        }
+      }
+      encodeFields(value as { [key: string]: unknown }, fields, json);
+      return json;
+    },
+    descriptor
+  );
+}
+
+function keysNotIn(json: object, keys: Set<string>): string[] {
+  const result: string[] = [];
+  for (const key in json) {
+    if (!keys.has(key)) {
+      result.push(key);
+    }
+  }
+  return result;
 }
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type FieldDecoder<F> = F extends { decoder: infer D } ? D : F;
+
+type FieldType<F> = FromDecoder<FieldDecoder<F>>;
+
+type IsOptionalField<F> =
+  FieldDecoder<F> extends ExactOptional
+    ? true
+    : 0 extends 1 & FieldType<F> // any
+      ? false
+      : undefined extends FieldType<F>
+        ? true
+        : false;
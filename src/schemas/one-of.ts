@@ -4,17 +4,25 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
+import { Codec, Decoder, type DecodeOptions } from '../core';
 import * as Result from '../utils/result';
-import { oneOfError } from '../errors/one-of-error';
+import type { DecodeError } from '../utils/decode-error';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import { oneOfDecodeError, oneOfEncodeError } from '../errors/one-of-error';
 
 /**
  * Decoder that tries multiple decoders in sequence until one succeeds.
  *
+ * When all of them fail, the error lists the error of each decoder, starting with
+ * the decoder that got furthest into the value, which is most likely the intended one.
+ *
+ * When all the decoders are codecs, the result is a codec that encodes a value with
+ * the first codec whose output decodes back successfully. Encoding throws when none does.
+ *
  * @category Utils
  * @param decoders Array of decoders to try in sequence
  * @param decoderName How to display the name of the object being decoded in errors
- * @returns A decoder that tries each decoder in sequence until one succeeds
+ * @returns A decoder that tries each decoder in sequence until one succeeds, or a codec when all `decoders` are codecs
  *
  * @example
  * ```ts
@@ -25,20 +33,61 @@ import { oneOfError } from '../errors/one-of-error';
  *
  * stringOrNumber.decode('hello'); // Ok<string>({value: 'hello'})
  * stringOrNumber.decode(42); // Ok<number>({value: 42})
- * stringOrNumber.decode(true); // Err({error: '<StringOrNumber> decoder failed because true is not a valid value'})
+ * stringOrNumber.decode(true);
+ * // Err({error: '<StringOrNumber> decoder failed because true can't be decoded with any of the provided oneOf decoders:
+ * //   - true is not a valid string
+ * //   - true is not a valid number'})
  * ```
  */
+export function oneOf<T>(
+  decoders: Array<Codec<T, any>>,
+  decoderName: string
+): Codec<T, unknown>;
+export function oneOf<T>(
+  decoders: Array<Decoder<T>>,
+  decoderName: string
+): Decoder<T>;
 export function oneOf<T>(
   decoders: Array<Decoder<T>>,
   decoderName: string
 ): Decoder<T> {
-  return new Decoder<T>((json: any) => {
+  const decodeFn = (json: any, options: DecodeOptions): Result.Result<T> => {
+    const errors: DecodeError[] = [];
     for (let i = 0; i < decoders.length; i++) {
-      const result = decoders[i].decode(json);
+      const result = decoders[i].decode(json, options);
       if (result.isOk()) {
         return result;
       }
+      errors.push(result.error);
     }
-    return Result.err<T>(oneOfError(decoderName, json));
-  });
+    return Result.err<T>(oneOfDecodeError(decoderName, json, errors));
+  };
+  const descriptor: DecoderDescriptor = {
+    kind: 'one-of',
+    decoderName,
+    members: decoders
+  };
+  const codecs = decoders.filter(
+    (decoder): decoder is Codec<T, unknown> => decoder instanceof Codec
+  );
+  if (codecs.length !== decoders.length) {
+    return new Decoder<T>(decodeFn, descriptor);
+  }
+  return new Codec<T, unknown>(
+    decodeFn,
+    value => {
+      for (const codec of codecs) {
+        try {
+          const json = codec.encode(value);
+          if (codec.decode(json).isOk()) {
+            return json;
+          }
+        } catch {
+          // The value doesn't fit this codec, try the next one.
+        }
+      }
+      throw oneOfEncodeError(decoderName, value);
+    },
+    descriptor
+  );
 }
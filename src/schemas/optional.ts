@@ -4,15 +4,26 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
 import * as Result from '../utils/result';
 
+declare const optionalKey: unique symbol;
+
+/**
+ * Marks the decoders returned by {@link optional} and {@link nullish}, so that the tuples whose type
+ * is inferred make their trailing elements optional, like the tuple decoder does. The mark only exists in types.
+ *
+ * @category Internal Types
+ */
+export type Optional = { readonly [optionalKey]: true };
+
 /**
  * Decoder that makes a field optional.
  *
  * @category Utils
  * @param decoder The decoder for the field when it is present
- * @returns A decoder that accepts either the decoded value or undefined
+ * @returns A decoder that accepts either the decoded value or undefined, or a codec when `decoder` is a codec
  *
  * @example
  * ```ts
@@ -33,12 +44,30 @@ import * as Result from '../utils/result';
  * userDecoder.decode({name: 'John', age: 30}); // Ok<User>
  * ```
  */
+export function optional<T, J>(
+  decoder: Codec<T, J>
+): Codec<T | undefined, J | undefined> & Optional;
+export function optional<T>(
+  decoder: Decoder<T>
+): Decoder<T | undefined> & Optional;
 export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
-  return new Decoder<T | undefined>((json: any) => {
+  const decodeFn = (
+    json: any,
+    options: DecodeOptions
+  ): Result.Result<T | undefined> => {
     if (json === undefined) {
       return Result.ok<undefined>(undefined);
     } else {
-      return decoder.decode(json);
+      return decoder.decode(json, options);
     }
-  });
+  };
+  const descriptor: DecoderDescriptor = { kind: 'optional', decoder };
+  if (decoder instanceof Codec) {
+    return new Codec<T | undefined, unknown>(
+      decodeFn,
+      value => (value === undefined ? undefined : decoder.encode(value)),
+      descriptor
+    );
+  }
+  return new Decoder<T | undefined>(decodeFn, descriptor);
 }
@@ -4,18 +4,44 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { primitiveError } from '../errors/primitive-error';
-import { recordError } from '../errors/record-error';
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import { decodeEntries } from '../utils/decode-entries';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import { defineKey } from '../utils/define-key';
 import * as Result from '../utils/result';
 
 /**
- * Decoder for record types with string keys.
+ * The type of a record with typed keys: a `Record<K, V>` when any key of type `K` can be present,
+ * such as `string` or `` `${number}` ``, and a `Partial<Record<K, V>>` when `K` is a finite set of keys,
+ * such as a union of literals or an enum, since the record doesn't need to have all of them.
+ *
+ * @typeParam K - The type of the keys
+ * @typeParam V - The type of the values
+ * @category Internal Types
+ *
+ * @example
+ * ```typescript
+ * type Scores = RecordOf<string, number>; // Record<string, number>
+ * type Flags = RecordOf<'dark' | 'beta', boolean>; // Partial<Record<'dark' | 'beta', boolean>>
+ * ```
+ */
+export type RecordOf<K extends PropertyKey, V> =
+  // an empty object only has all the keys when they aren't a finite set
+  Record<never, never> extends Record<K, V>
+    ? Record<K, V>
+    : Partial<Record<K, V>>;
+
+/**
+ * Decoder for record types, with string keys or with keys checked by a key decoder.
+ *
+ * The key decoder receives each key as a string: use `string` constraints, `literal` or `enumeration`
+ * decoders, or `coerce.number()` for numeric keys. A key it rejects fails with an `invalid key` error.
  *
  * @category Data Structures
+ * @param keyDecoder Optional decoder for the record keys
  * @param decoder The decoder for the record values
  * @param decoderName How to display the name of the object being decoded in errors
- * @returns A decoder that validates and returns a record with string keys
+ * @returns A decoder that validates and returns a record, or a codec when `decoder` is a codec
  *
  * @example
  * ```ts
@@ -23,32 +49,76 @@ import * as Result from '../utils/result';
  *
  * numberRecord.decode({a: 1, b: 2}); // Ok<Record<string, number>>
  * numberRecord.decode({a: '1', b: 2}); // Err({error: '<NumberRecord> record decoder failed at key "a" with error: "1" is not a valid number'})
+ *
+ * const featureFlags = JsonDecoder.record(
+ *   JsonDecoder.oneOf([JsonDecoder.literal('dark'), JsonDecoder.literal('beta')], 'Feature'),
+ *   JsonDecoder.boolean(),
+ *   'FeatureFlags'
+ * );
+ *
+ * featureFlags.decode({dark: true}); // Ok<Partial<Record<'dark' | 'beta', boolean>>>
+ * featureFlags.decode({dark: true, legacy: false});
+ * // Err({error: '<FeatureFlags> record decoder failed at key "legacy" with error: invalid key: <Feature> decoder failed because "legacy" can\'t be decoded with any of the provided oneOf decoders'})
  * ```
  */
+export function record<V, J>(
+  decoder: Codec<V, J>,
+  decoderName: string
+): Codec<{ [K: string]: V }, { [K: string]: J }>;
 export function record<V>(
   decoder: Decoder<V>,
   decoderName: string
+): Decoder<{ [K: string]: V }>;
+export function record<K extends PropertyKey, V, J>(
+  keyDecoder: Decoder<K>,
+  decoder: Codec<V, J>,
+  decoderName: string
+): Codec<RecordOf<K, V>, { [K: string]: J }>;
+export function record<K extends PropertyKey, V>(
+  keyDecoder: Decoder<K>,
+  decoder: Decoder<V>,
+  decoderName: string
+): Decoder<RecordOf<K, V>>;
+export function record<V>(
+  keyDecoderOrDecoder: Decoder<any>,
+  decoderOrName: Decoder<V> | string,
+  name?: string
 ): Decoder<{ [K: string]: V }> {
-  return new Decoder<{ [K: string]: V }>(json => {
-    if (json !== null && typeof json === 'object') {
-      const obj: { [K: string]: V } = {};
-      for (const key in json) {
-        if (Object.prototype.hasOwnProperty.call(json, key)) {
-          const result = decoder.decode(json[key]);
-          if (result.isOk()) {
-            obj[key] = result.value;
-          } else {
-            return Result.err<{ [K: string]: V }>(
-              recordError(decoderName, key, result.error)
-            );
-          }
+  const [keyDecoder, decoder, decoderName] =
+    typeof decoderOrName === 'string'
+      ? [undefined, keyDecoderOrDecoder as Decoder<V>, decoderOrName]
+      : [keyDecoderOrDecoder as Decoder<PropertyKey>, decoderOrName, name!];
+  const decodeFn = (
+    json: any,
+    options: DecodeOptions
+  ): Result.Result<{ [K: string]: V }> =>
+    decodeEntries(json, keyDecoder, decoder, decoderName, options).map(
+      entries => {
+        const obj: { [K: string]: V } = {};
+        for (const [key, value] of entries) {
+          defineKey(obj, key as string, value);
         }
+        return obj;
       }
-      return Result.ok<{ [K: string]: V }>(obj);
-    } else {
-      return Result.err<{ [K: string]: V }>(primitiveError(json, decoderName));
-    }
-  });
+    );
+  const descriptor: DecoderDescriptor =
+    keyDecoder === undefined
+      ? { kind: 'record', decoderName, element: decoder }
+      : { kind: 'record', decoderName, element: decoder, key: keyDecoder };
+  if (decoder instanceof Codec) {
+    return new Codec<{ [K: string]: V }, { [K: string]: unknown }>(
+      decodeFn,
+      obj => {
+        const json: { [K: string]: unknown } = {};
+        for (const key of Object.keys(obj)) {
+          defineKey(json, key, decoder.encode(obj[key]));
+        }
+        return json;
+      },
+      descriptor
+    );
+  }
+  return new Decoder<{ [K: string]: V }>(decodeFn, descriptor);
 }
 
 /* v8 ignore start */
@@ -0,0 +1,110 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import { arrayDecodeError } from '../errors/array-error';
+import { duplicateDecodeError } from '../errors/duplicate-error';
+import type { KeyedDecodeError } from '../errors/error-list';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import * as Result from '../utils/result';
+import { array } from './array';
+
+/**
+ * Options of the {@link set} decoder.
+ */
+export interface SetOptions {
+  /**
+   * When `true`, arrays with two equal elements are rejected instead of deduplicated.
+   * Elements are compared after decoding, like `Set` does: primitives by value, objects by reference.
+   * Defaults to `false`.
+   */
+  readonly rejectDuplicates?: boolean;
+}
+
+/**
+ * Decoder for `Set` objects, from JSON arrays.
+ *
+ * @category Data Structures
+ * @param decoder The decoder for the set elements
+ * @param decoderName How to display the name of the object being decoded in errors
+ * @param options Whether duplicates are rejected
+ * @returns A decoder that validates and returns a `Set`, or a codec when `decoder` is a codec,
+ * that encodes sets as arrays
+ *
+ * @example
+ * ```ts
+ * const tagsDecoder = JsonDecoder.set(JsonDecoder.string(), 'Tags');
+ * tagsDecoder.decode(['a', 'b', 'a']); // Ok<Set<string>>({value: Set {'a', 'b'}})
+ *
+ * const uniqueTagsDecoder = JsonDecoder.set(JsonDecoder.string(), 'Tags', { rejectDuplicates: true });
+ * uniqueTagsDecoder.decode(['a', 'b', 'a']);
+ * // Err({error: '<Tags> decoder failed at index "2" with error: "a" is a duplicate of the element at index "0"'})
+ * ```
+ */
+export function set<T, J>(
+  decoder: Codec<T, J>,
+  decoderName: string,
+  options?: SetOptions
+): Codec<Set<T>, Array<J>>;
+export function set<T>(
+  decoder: Decoder<T>,
+  decoderName: string,
+  options?: SetOptions
+): Decoder<Set<T>>;
+export function set<T>(
+  decoder: Decoder<T>,
+  decoderName: string,
+  options: SetOptions = {}
+): Decoder<Set<T>> {
+  const rejectDuplicates = options.rejectDuplicates ?? false;
+  const arrayDecoder = array(decoder, decoderName);
+  const decodeFn = (
+    json: any,
+    decodeOptions: DecodeOptions
+  ): Result.Result<Set<T>> => {
+    const result = arrayDecoder.decode(json, decodeOptions);
+    if (!result.isOk()) {
+      return Result.err<Set<T>>(result.error);
+    }
+    if (!rejectDuplicates) {
+      return Result.ok<Set<T>>(new Set(result.value));
+    }
+    const firstIndexes = new Map<T, number>();
+    const failures: KeyedDecodeError<number>[] = [];
+    for (let i = 0; i < result.value.length; i++) {
+      const firstIndex = firstIndexes.get(result.value[i]);
+      if (firstIndex === undefined) {
+        firstIndexes.set(result.value[i], i);
+      } else {
+        failures.push({
+          key: i,
+          error: duplicateDecodeError(json[i], firstIndex)
+        });
+        if (!decodeOptions.allErrors) {
+          break;
+        }
+      }
+    }
+    if (failures.length > 0) {
+      return Result.err<Set<T>>(arrayDecodeError(decoderName, json, failures));
+    }
+    return Result.ok<Set<T>>(new Set(firstIndexes.keys()));
+  };
+  const descriptor: DecoderDescriptor = {
+    kind: 'set',
+    decoderName,
+    element: decoder,
+    rejectDuplicates
+  };
+  if (decoder instanceof Codec) {
+    return new Codec<Set<T>, unknown[]>(
+      decodeFn,
+      value => Array.from(value, element => decoder.encode(element)),
+      descriptor
+    );
+  }
+  return new Decoder<Set<T>>(decodeFn, descriptor);
+}
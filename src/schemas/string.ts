@@ -4,28 +4,147 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
+import { Codec } from '../core';
+import { codePointLength } from '../utils/constraint-checks';
 import * as Result from '../utils/result';
-import { primitiveError } from '../errors/primitive-error';
+import { constraintDecodeError } from '../errors/constraint-error';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import {
+  isStringFormat,
+  stringFormatNames,
+  type StringFormat
+} from '../utils/string-format';
+
+export type { StringFormat } from '../utils/string-format';
+
+/**
+ * Constraints checked by the {@link string} decoder after the `typeof` check.
+ * Lengths are counted in Unicode code points, so `'👍'` has 1 character.
+ * They are available to tools in the decoder descriptor, e.g. `toJsonSchema` exports them as
+ * `minLength`, `maxLength`, `pattern` and `format`.
+ */
+export interface StringConstraints {
+  /** The string must not be empty. */
+  readonly nonEmpty?: boolean;
+  /** The exact number of characters of the string. */
+  readonly length?: number;
+  /** The minimum number of characters of the string. */
+  readonly minLength?: number;
+  /** The maximum number of characters of the string. */
+  readonly maxLength?: number;
+  /** A prefix that the string must start with. */
+  readonly startsWith?: string;
+  /** A suffix that the string must end with. */
+  readonly endsWith?: string;
+  /** A regular expression that the string must match. */
+  readonly pattern?: RegExp;
+  /** A well-known format that the string must be in. */
+  readonly format?: StringFormat;
+}
 
 /**
  * Decoder for `string` values.
  *
  * @category Primitives
- * @returns A decoder that validates and returns string values
+ * @param constraints Optional constraints that the string must meet
+ * @returns A codec that validates and returns string values
  *
  * @example
  * ```ts
  * JsonDecoder.string().decode('hi'); // Ok<string>({value: 'hi'})
  * JsonDecoder.string().decode(5); // Err({error: '5 is not a valid string'})
+ *
+ * JsonDecoder.string({ minLength: 3 }).decode('hi'); // Err({error: '"hi" is not a valid string with at least 3 characters'})
+ * JsonDecoder.string({ format: 'email' }).decode('john@example.com'); // Ok<string>({value: 'john@example.com'})
+ * JsonDecoder.string({ format: 'uuid' }).decode('42'); // Err({error: '"42" is not a valid UUID'})
  * ```
  */
-export function string(): Decoder<string> {
-  return new Decoder<string>((json: any) => {
-    if (typeof json === 'string') {
+export function string(constraints?: StringConstraints): Codec<string, string> {
+  const check =
+    constraints === undefined ? undefined : constraintCheck(constraints);
+  return new Codec<string, string>(
+    (json: any) => {
+      if (typeof json !== 'string') {
+        return Result.err<string>(primitiveDecodeError(json, 'string'));
+      }
+      const broken = check?.(json);
+      if (broken !== undefined) {
+        return Result.err<string>(constraintDecodeError(json, broken));
+      }
       return Result.ok<string>(json);
-    } else {
-      return Result.err<string>(primitiveError(json, 'string'));
-    }
-  });
+    },
+    value => value,
+    constraints === undefined
+      ? { kind: 'string' }
+      : { kind: 'string', constraints }
+  );
+}
+
+/**
+ * Returns a function that describes the first constraint a string breaks, if any.
+ */
+function constraintCheck(
+  constraints: StringConstraints
+): (str: string) => string | undefined {
+  const checks: Array<[(str: string) => boolean, string]> = [];
+  const {
+    nonEmpty,
+    length,
+    minLength,
+    maxLength,
+    startsWith,
+    endsWith,
+    pattern,
+    format
+  } = constraints;
+  if (nonEmpty) {
+    checks.push([str => str.length > 0, 'non-empty string']);
+  }
+  if (length !== undefined) {
+    checks.push([
+      str => codePointLength(str) === length,
+      `string with exactly ${length} characters`
+    ]);
+  }
+  if (minLength !== undefined) {
+    checks.push([
+      str => codePointLength(str) >= minLength,
+      `string with at least ${minLength} characters`
+    ]);
+  }
+  if (maxLength !== undefined) {
+    checks.push([
+      str => codePointLength(str) <= maxLength,
+      `string with at most ${maxLength} characters`
+    ]);
+  }
+  if (startsWith !== undefined) {
+    checks.push([
+      str => str.startsWith(startsWith),
+      `string starting with ${JSON.stringify(startsWith)}`
+    ]);
+  }
+  if (endsWith !== undefined) {
+    checks.push([
+      str => str.endsWith(endsWith),
+      `string ending with ${JSON.stringify(endsWith)}`
+    ]);
+  }
+  if (pattern !== undefined) {
+    checks.push([
+      // `lastIndex` makes global and sticky regular expressions stateful
+      str => {
+        pattern.lastIndex = 0;
+        return pattern.test(str);
+      },
+      `string matching ${pattern}`
+    ]);
+  }
+  if (format !== undefined) {
+    checks.push([
+      str => isStringFormat(format, str),
+      stringFormatNames[format]
+    ]);
+  }
+  return str => checks.find(([isValid]) => !isValid(str))?.[1];
 }
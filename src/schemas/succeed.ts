@@ -20,7 +20,10 @@ import * as Result from '../utils/result';
  * ```
  */
 export function succeed(): Decoder<any> {
-  return new Decoder<any>((json: any) => {
-    return Result.ok<any>(json);
-  });
+  return new Decoder<any>(
+    (json: any) => {
+      return Result.ok<any>(json);
+    },
+    { kind: 'succeed' }
+  );
 }
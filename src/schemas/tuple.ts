@@ -4,17 +4,21 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { arrayError } from '../errors/array-error';
-import { primitiveError } from '../errors/primitive-error';
-import { tupleLengthMismatchError } from '../errors/tuple-length-mismatch-error';
+import { Codec, Decoder, type DecodeOptions, type FromDecoder } from '../core';
+import { arrayDecodeError } from '../errors/array-error';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import { tupleLengthMismatchDecodeError } from '../errors/tuple-length-mismatch-error';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
 import * as Result from '../utils/result';
+import type { Optional } from './optional';
 
 /**
  * Type-level helper that extracts the type parameters from an array of decoders.
  *
  * Given an array of decoders, this type will produce a tuple type where each element
- * corresponds to the type that each decoder produces.
+ * corresponds to the type that each decoder produces. Trailing {@link optional}
+ * and {@link nullish} elements are optional, the others are required even when they accept `undefined`.
  *
  * @typeParam T - An array of decoders
  * @category Internal Types
@@ -22,57 +26,196 @@ import * as Result from '../utils/result';
  * @example
  * ```typescript
  * type Point = TupleOfResults<[Decoder<number>, Decoder<number>]>; // [number, number]
+ * type Point3D = TupleOfResults<[Decoder<number>, Decoder<number>, Decoder<number | undefined> & Optional]>; // [number, number, number?]
  * ```
  */
-export type TupleOfResults<T extends readonly [] | readonly Decoder<any>[]> = {
-  [K in keyof T]: T[K] extends Decoder<infer R> ? R : never;
-};
+export type TupleOfResults<T extends readonly [] | readonly Decoder<any>[]> =
+  T extends readonly [
+    ...infer Init extends readonly Decoder<any>[],
+    infer Last extends Decoder<any>
+  ]
+    ? Last extends Optional
+      ? [...TupleOfResults<Init>, Exclude<FromDecoder<Last>, undefined>?]
+      : [...RequiredResults<Init>, FromDecoder<Last>]
+    : RequiredResults<T>;
 
 /**
- * Decoder for tuples with fixed length and types.
+ * Type-level helper that extracts the JSON types from an array of codecs.
+ * Trailing {@link optional} and {@link nullish} elements are optional.
+ *
+ * @typeParam T - An array of codecs
+ * @category Internal Types
+ *
+ * @example
+ * ```typescript
+ * type Point = TupleOfEncoded<[Codec<Date, string>, Codec<number, number>]>; // [string, number]
+ * ```
+ */
+export type TupleOfEncoded<T extends readonly [] | readonly Codec<any, any>[]> =
+  T extends readonly [
+    ...infer Init extends readonly Codec<any, any>[],
+    infer Last extends Codec<any, any>
+  ]
+    ? Last extends Optional
+      ? [...TupleOfEncoded<Init>, Exclude<EncodedOf<Last>, undefined>?]
+      : [...RequiredEncoded<Init>, EncodedOf<Last>]
+    : RequiredEncoded<T>;
+
+/**
+ * Options of the {@link tuple} decoder.
+ *
+ * @typeParam R - The type of the rest elements
+ */
+export interface TupleOptions<R> {
+  /** The decoder of the elements after the tuple decoders, if the tuple can have any number of them. */
+  readonly rest: Decoder<R>;
+}
+
+/**
+ * Decoder for tuples with fixed types, and optional or rest elements.
+ *
+ * Trailing positions with `optional` decoders can be missing.
+ * With a `rest` decoder, the elements after the tuple decoders are decoded by it,
+ * otherwise the tuple can't be longer than its decoders.
  *
  * @category Data Structures
  * @param decoders Array of decoders for each tuple element
  * @param decoderName How to display the name of the object being decoded in errors
- * @returns A decoder that validates and returns tuples
+ * @param options The decoder of the rest elements
+ * @returns A decoder that validates and returns tuples, or a codec when all `decoders` are codecs
  *
  * @example
  * ```ts
  * const pointDecoder = JsonDecoder.tuple(
- *   [JsonDecoder.number(), JsonDecoder.number()],
+ *   [JsonDecoder.number(), JsonDecoder.number(), JsonDecoder.optional(JsonDecoder.number())],
  *   'Point'
  * );
  *
- * pointDecoder.decode([1, 2]); // Ok<[number, number]>
- * pointDecoder.decode([1, 2, 3]); // Err({error: '<Point> tuple decoder failed because it received a tuple of length 3 but expected 2'})
+ * pointDecoder.decode([1, 2]); // Ok<[number, number, number?]>
+ * pointDecoder.decode([1, 2, 3, 4]); // Err({error: '<Point> tuple decoder failed because it received a tuple of length 4, but expected a length from 2 to 3.'})
+ *
+ * const commandDecoder = JsonDecoder.tuple([JsonDecoder.string()], 'Command', {
+ *   rest: JsonDecoder.number()
+ * });
+ *
+ * commandDecoder.decode(['move', 10, 20]); // Ok<[string, ...number[]]>
+ * commandDecoder.decode([]); // Err({error: '<Command> tuple decoder failed because it received a tuple of length 0, but expected a length of at least 1.'})
  * ```
  */
+export function tuple<T extends readonly [] | readonly Codec<any, any>[]>(
+  decoders: T,
+  decoderName: string
+): Codec<TupleOfResults<T>, TupleOfEncoded<T>>;
 export function tuple<T extends readonly [] | readonly Decoder<any>[]>(
   decoders: T,
   decoderName: string
+): Decoder<TupleOfResults<T>>;
+export function tuple<
+  T extends readonly [] | readonly Codec<any, any>[],
+  R,
+  RJ
+>(
+  decoders: T,
+  decoderName: string,
+  options: { readonly rest: Codec<R, RJ> }
+): Codec<[...TupleOfResults<T>, ...R[]], [...TupleOfEncoded<T>, ...RJ[]]>;
+export function tuple<T extends readonly [] | readonly Decoder<any>[], R>(
+  decoders: T,
+  decoderName: string,
+  options: TupleOptions<R>
+): Decoder<[...TupleOfResults<T>, ...R[]]>;
+export function tuple<T extends readonly [] | readonly Decoder<any>[]>(
+  decoders: T,
+  decoderName: string,
+  options?: TupleOptions<unknown>
 ): Decoder<TupleOfResults<T>> {
-  return new Decoder<TupleOfResults<T>>(json => {
+  const rest = options?.rest;
+  const required = requiredLength(decoders);
+  const decodeFn = (
+    json: any,
+    decodeOptions: DecodeOptions
+  ): Result.Result<TupleOfResults<T>> => {
     if (json instanceof Array) {
       const arr = [];
-      if (json.length !== decoders.length) {
+      const failures: KeyedDecodeError<number>[] = [];
+      if (
+        json.length < required ||
+        (rest === undefined && json.length > decoders.length)
+      ) {
         return Result.err<TupleOfResults<T>>(
-          tupleLengthMismatchError(decoderName, json, decoders)
+          tupleLengthMismatchDecodeError(
+            decoderName,
+            json,
+            required,
+            rest === undefined ? decoders.length : Infinity
+          )
         );
       }
       for (let i = 0; i < json.length; i++) {
-        const result = decoders[i].decode(json[i]);
+        const result = (decoders[i] ?? rest).decode(json[i], decodeOptions);
         if (result.isOk()) {
           arr.push(result.value);
         } else {
-          return Result.err<TupleOfResults<T>>(
-            arrayError(decoderName, i, result.error)
-          );
+          failures.push({ key: i, error: result.error });
+          if (!decodeOptions.allErrors) {
+            break;
+          }
         }
       }
+      if (failures.length > 0) {
+        return Result.err<TupleOfResults<T>>(
+          arrayDecodeError(decoderName, json, failures, 'tuple')
+        );
+      }
       // Cast to a tuple of the right type.
       return Result.ok<TupleOfResults<T>>(arr as unknown as TupleOfResults<T>);
     } else {
-      return Result.err<TupleOfResults<T>>(primitiveError(json, decoderName));
+      return Result.err<TupleOfResults<T>>(
+        primitiveDecodeError(json, decoderName)
+      );
     }
-  });
+  };
+  const descriptor: DecoderDescriptor =
+    rest === undefined
+      ? { kind: 'tuple', decoderName, elements: decoders }
+      : { kind: 'tuple', decoderName, elements: decoders, rest };
+  const codecs = (decoders as readonly Decoder<any>[]).filter(
+    (decoder): decoder is Codec<any, unknown> => decoder instanceof Codec
+  );
+  if (
+    codecs.length === decoders.length &&
+    (rest === undefined || rest instanceof Codec)
+  ) {
+    return new Codec<TupleOfResults<T>, unknown[]>(
+      decodeFn,
+      value =>
+        (value as readonly unknown[]).map((element, i) =>
+          (codecs[i] ?? rest).encode(element)
+        ),
+      descriptor
+    );
+  }
+  return new Decoder<TupleOfResults<T>>(decodeFn, descriptor);
+}
+
+type RequiredResults<T extends readonly Decoder<any>[]> = {
+  [K in keyof T]: T[K] extends Decoder<infer R> ? R : never;
+};
+
+type EncodedOf<C> = C extends Codec<any, infer J> ? J : never;
+
+type RequiredEncoded<T extends readonly Codec<any, any>[]> = {
+  [K in keyof T]: T[K] extends Codec<any, infer J> ? J : never;
+};
+
+/**
+ * The length of the tuple without its trailing `optional` elements, which can be missing.
+ * Other decoders that accept `undefined`, like {@link withDefault}, still need their element.
+ */
+function requiredLength(decoders: ReadonlyArray<Decoder<unknown>>): number {
+  let length = decoders.length;
+  while (length > 0 && decoders[length - 1].descriptor.kind === 'optional') {
+    length--;
+  }
+  return length;
 }
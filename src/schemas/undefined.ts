@@ -4,15 +4,15 @@
  * @category Api docs
  */
 
-import { Decoder } from '../core';
-import { undefinedError } from '../errors/undefined-error';
+import { Codec } from '../core';
+import { undefinedDecodeError } from '../errors/undefined-error';
 import * as Result from '../utils/result';
 
 /**
  * Decoder for `undefined` values.
  *
  * @category Primitives
- * @returns A decoder that only accepts `undefined` values
+ * @returns A codec that only accepts `undefined` values
  *
  * @example
  * ```ts
@@ -23,14 +23,18 @@ import * as Result from '../utils/result';
  * ```
  * @category Primitives
  */
-function undefined_(): Decoder<undefined> {
-  return new Decoder((json: any) => {
-    if (json === undefined) {
-      return Result.ok<undefined>(undefined);
-    } else {
-      return Result.err<undefined>(undefinedError(json));
-    }
-  });
+function undefined_(): Codec<undefined, undefined> {
+  return new Codec<undefined, undefined>(
+    (json: any) => {
+      if (json === undefined) {
+        return Result.ok<undefined>(undefined);
+      } else {
+        return Result.err<undefined>(undefinedDecodeError(json));
+      }
+    },
+    value => value,
+    { kind: 'undefined' }
+  );
 }
 
 export { undefined_ as undefined };
@@ -0,0 +1,103 @@
+/**
+ * @module
+ * @mergeModuleWith decoders
+ * @category Api docs
+ */
+
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import type { DecoderDescriptor } from '../utils/decoder-descriptor';
+import * as Result from '../utils/result';
+
+/**
+ * Options of the {@link withDefault} decoder.
+ *
+ * @category Internal Types
+ */
+export interface WithDefaultOptions<N extends boolean = boolean> {
+  /** Whether `null` also gets the default value, like a missing value. Defaults to `false`. */
+  readonly nullAsMissing?: N;
+}
+
+/**
+ * The type of the values decoded by {@link withDefault}: the missing values, and `null` when
+ * `nullAsMissing` is set, are replaced with the default value.
+ *
+ * @category Internal Types
+ */
+export type WithDefault<T, N extends boolean> = Exclude<
+  T,
+  undefined | (N extends true ? null : never)
+>;
+
+/**
+ * Decoder that returns a default value when the value is missing, for example when an object field is absent.
+ * Unlike {@link fallback}, values that are present but invalid still fail,
+ * so `{"limit": "ten"}` is reported instead of silently decoded to the default limit.
+ *
+ * The field is not optional in the decoded type, since it always has a value.
+ *
+ * @category Utils
+ * @param decoder The decoder of the value when it is present. It may be an `optional` decoder
+ * @param defaultValue The value to return when the value is missing, or a function that creates it.
+ * Use a function for mutable values such as arrays, so that each decoded value gets its own copy
+ * (and to default to a function, return it from another function)
+ * @param options Whether `null` also gets the default value
+ * @returns A decoder that returns the default value for missing values, or a codec when `decoder` is a codec
+ *
+ * @example
+ * ```ts
+ * const queryDecoder = JsonDecoder.object(
+ *   {
+ *     limit: JsonDecoder.withDefault(JsonDecoder.number({ integer: true }), 10),
+ *     tags: JsonDecoder.withDefault(JsonDecoder.array(JsonDecoder.string(), 'Tags'), () => []),
+ *     sort: JsonDecoder.withDefault(JsonDecoder.string(), 'name', { nullAsMissing: true })
+ *   },
+ *   'Query'
+ * );
+ *
+ * queryDecoder.decode({ sort: null }); // Ok({value: {limit: 10, tags: [], sort: 'name'}})
+ * queryDecoder.decode({ limit: 'ten' });
+ * // Err({error: '<Query> decoder failed at key "limit" with error: "ten" is not a valid number'})
+ * ```
+ */
+export function withDefault<T, J, N extends boolean = false>(
+  decoder: Codec<T, J>,
+  defaultValue: WithDefault<T, N> | (() => WithDefault<T, N>),
+  options?: WithDefaultOptions<N>
+): Codec<WithDefault<T, N>, J>;
+export function withDefault<T, N extends boolean = false>(
+  decoder: Decoder<T>,
+  defaultValue: WithDefault<T, N> | (() => WithDefault<T, N>),
+  options?: WithDefaultOptions<N>
+): Decoder<WithDefault<T, N>>;
+export function withDefault<T>(
+  decoder: Decoder<T>,
+  defaultValue: T | (() => T),
+  options: WithDefaultOptions = {}
+): Decoder<T> {
+  const { nullAsMissing = false } = options;
+  const getDefault =
+    typeof defaultValue === 'function'
+      ? (defaultValue as () => T)
+      : () => defaultValue;
+  const decodeFn = (json: any, options: DecodeOptions): Result.Result<T> => {
+    if (json === undefined || (nullAsMissing && json === null)) {
+      return Result.ok<T>(getDefault());
+    }
+    return decoder.decode(json, options);
+  };
+  const descriptor: DecoderDescriptor = {
+    kind: 'with-default',
+    decoder,
+    getDefault,
+    nullAsMissing
+  };
+  if (decoder instanceof Codec) {
+    return new Codec<T, unknown>(
+      decodeFn,
+      value => decoder.encode(value),
+      descriptor
+    );
+  }
+  return new Decoder<T>(decodeFn, descriptor);
+}
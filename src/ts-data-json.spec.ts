@@ -1,19 +1,37 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { describe, expect, it } from 'vitest';
-import { Decoder, FromDecoder } from './core';
-import { allOfError } from './errors/all-of-error';
-import { arrayError } from './errors/array-error';
+import { type Brand, Codec, Decoder, FromDecoder } from './core';
+import { allOfError, allOfErrors } from './errors/all-of-error';
+import { arrayError, arrayErrors } from './errors/array-error';
+import { coercionError } from './errors/coercion-error';
+import { constraintError } from './errors/constraint-error';
+import { dateTimeError } from './errors/date-time-error';
+import { duplicateError } from './errors/duplicate-error';
 import { enumValueError } from './errors/enum-value-error';
+import { envError } from './errors/env-error';
 import { exactlyError } from './errors/exactly-error';
 import { nullError } from './errors/null-error';
-import { objectError } from './errors/object-error';
+import { objectError, objectErrors } from './errors/object-error';
 import { objectStrictUnknownKeyError } from './errors/object-strict-unknown-key-error';
-import { oneOfError } from './errors/one-of-error';
+import { oneOfError, oneOfErrors } from './errors/one-of-error';
+import { precisionLostError } from './errors/precision-lost-error';
 import { primitiveError } from './errors/primitive-error';
-import { recordError } from './errors/record-error';
+import {
+  recordError,
+  recordErrors,
+  recordKeyError
+} from './errors/record-error';
 import { tupleLengthMismatchError } from './errors/tuple-length-mismatch-error';
 import { undefinedError } from './errors/undefined-error';
+import { unknownTagError } from './errors/unknown-tag-error';
+import { env, envDecoder, loadEnv } from './env';
+import { generate } from './generate';
+import { fromJsonSchema, toJsonSchema } from './json-schema';
 import * as JsonDecoder from './schemas';
+import type { StringFormat } from './schemas/string';
+import { toTypeScript } from './typescript';
+import { decoderChildren, walkDecoder } from './utils/decoder-descriptor';
+import { decodeError } from './utils/decode-error';
 import { Err, err, Ok, ok, Result } from './utils/result';
 import type { StandardSchemaV1 } from './utils/standard-schema-v1';
 
@@ -29,12 +47,16 @@ const expectStandardOkWithValue = <a>(
 const expectErr = <a>(result: Result<a>) => expect(result).toBeInstanceOf(Err);
 const expectErrWithMsg = <a>(result: Result<a>, expectedErrorMsg: string) => {
   expect(result).toBeInstanceOf(Err);
-  expect(result).toEqual(err(expectedErrorMsg));
+  expect((result as Err<a>).error.message).toEqual(expectedErrorMsg);
 };
 const expectStandardErrWithMsg = <a>(
   result: StandardSchemaV1.Result<a> | Promise<StandardSchemaV1.Result<a>>,
-  expectedErrorMsg: string
-) => expect(result).toEqual({ issues: [{ message: expectedErrorMsg }] });
+  expectedErrorMsg: string,
+  expectedPath: PropertyKey[] = []
+) =>
+  expect(result).toEqual({
+    issues: [{ message: expectedErrorMsg, path: expectedPath }]
+  });
 
 // Tests
 describe('json-decoder', () => {
@@ -61,6 +83,180 @@ describe('json-decoder', () => {
         primitiveError(null, tag)
       );
     });
+
+    describe('constraints', () => {
+      it('should check the length constraints', () => {
+        const decoder = JsonDecoder.string({ minLength: 2, maxLength: 3 });
+        expectOkWithValue(decoder.decode('ab'), 'ab');
+        expectOkWithValue(decoder.decode('👍👍'), '👍👍');
+        expectErrWithMsg(
+          decoder.decode('a'),
+          constraintError('a', 'string with at least 2 characters')
+        );
+        expectErrWithMsg(
+          decoder.decode('abcd'),
+          constraintError('abcd', 'string with at most 3 characters')
+        );
+        expectErrWithMsg(
+          JsonDecoder.string({ length: 2 }).decode('abc'),
+          constraintError('abc', 'string with exactly 2 characters')
+        );
+        expectErrWithMsg(
+          JsonDecoder.string({ nonEmpty: true }).decode(''),
+          constraintError('', 'non-empty string')
+        );
+      });
+
+      it('should check the prefix, suffix and pattern', () => {
+        const decoder = JsonDecoder.string({
+          startsWith: 'sk_',
+          endsWith: '_live',
+          pattern: /^[a-z_]+$/g
+        });
+        expectOkWithValue(decoder.decode('sk_abc_live'), 'sk_abc_live');
+        expectOkWithValue(decoder.decode('sk_abc_live'), 'sk_abc_live');
+        expectErrWithMsg(
+          decoder.decode('pk_abc_live'),
+          constraintError('pk_abc_live', 'string starting with "sk_"')
+        );
+        expectErrWithMsg(
+          decoder.decode('sk_abc_test'),
+          constraintError('sk_abc_test', 'string ending with "_live"')
+        );
+        expectErrWithMsg(
+          decoder.decode('sk_ABC_live'),
+          constraintError('sk_ABC_live', 'string matching /^[a-z_]+$/g')
+        );
+      });
+
+      it('should check the type before the constraints', () => {
+        expectErrWithMsg(
+          JsonDecoder.string({ minLength: 2 }).decode(42),
+          primitiveError(42, tag)
+        );
+      });
+
+      it('should report broken constraints as constraint errors', () => {
+        const result = JsonDecoder.string({ format: 'uuid' }).decode('42');
+        expect(result.isOk() ? undefined : result.error).toMatchObject({
+          kind: 'constraint',
+          expected: 'UUID',
+          received: '42',
+          message: '"42" is not a valid UUID'
+        });
+      });
+
+      it('should expose the constraints in the descriptor', () => {
+        expect(JsonDecoder.string().descriptor).toEqual({ kind: 'string' });
+        expect(
+          JsonDecoder.string({ nonEmpty: true, format: 'email' }).descriptor
+        ).toEqual({
+          kind: 'string',
+          constraints: { nonEmpty: true, format: 'email' }
+        });
+      });
+
+      const formats: Array<[StringFormat, string, string[], string[]]> = [
+        [
+          'email',
+          'email address',
+          ['john@example.com', 'john.doe+tag@mail.example.co.uk'],
+          ['john', 'john@', '@example.com', 'john@example', 'jo hn@example.com']
+        ],
+        [
+          'uuid',
+          'UUID',
+          [
+            '123e4567-e89b-12d3-a456-426614174000',
+            '123E4567-E89B-12D3-A456-426614174000'
+          ],
+          [
+            '123e4567e89b12d3a456426614174000',
+            '123e4567-e89b-12d3-a456-42661417400g'
+          ]
+        ],
+        [
+          'url',
+          'URL',
+          ['https://example.com', 'http://localhost:8080/path?q=1#top'],
+          ['example.com', 'https://', 'https://exa mple.com', '/path']
+        ],
+        [
+          'uri',
+          'URI',
+          [
+            'https://example.com',
+            'mailto:ada@example.com',
+            'urn:isbn:0451450523'
+          ],
+          [
+            'example.com',
+            '/path',
+            '1http://example.com',
+            'mailto:ada @example.com'
+          ]
+        ],
+        [
+          'hostname',
+          'hostname',
+          ['localhost', 'api.example.com', 'xn--bcher-kva.example'],
+          ['', '-example.com', 'example..com', 'exa_mple.com']
+        ],
+        [
+          'ipv4',
+          'IPv4 address',
+          ['192.168.0.1', '0.0.0.0', '255.255.255.255'],
+          ['256.0.0.1', '1.2.3', '01.2.3.4', '1.2.3.4.5']
+        ],
+        [
+          'ipv6',
+          'IPv6 address',
+          [
+            '2001:db8::1',
+            '::',
+            '::1',
+            'fe80:0:0:0:0:0:0:1',
+            '::ffff:192.168.0.1'
+          ],
+          ['2001:db8::1::1', '12345::', 'fe80:0:0:0:0:0:0', 'g::1']
+        ],
+        [
+          'date',
+          'ISO date',
+          ['2024-02-29', '1999-12-31'],
+          ['2023-02-29', '2024-13-01', '2024-1-01', '2024-01-01T00:00:00Z']
+        ],
+        [
+          'date-time',
+          'ISO date-time',
+          [
+            '2024-02-29T13:45:00Z',
+            '2024-02-29T13:45:00.123+02:00',
+            '2024-02-29t13:45:00z'
+          ],
+          [
+            '2024-02-29T13:45:00',
+            '2024-02-29T24:00:00Z',
+            '2024-02-29 13:45:00Z'
+          ]
+        ],
+        [
+          'base64',
+          'base64 string',
+          ['', 'aGVsbG8=', 'aGk=', 'aGV5'],
+          ['aGVsbG8', 'aGk', 'a===', 'aGV5!']
+        ]
+      ];
+      formats.forEach(([format, name, valid, invalid]) => {
+        it(`should check the ${format} format`, () => {
+          const decoder = JsonDecoder.string({ format });
+          valid.forEach(str => expectOkWithValue(decoder.decode(str), str));
+          invalid.forEach(str =>
+            expectErrWithMsg(decoder.decode(str), constraintError(str, name))
+          );
+        });
+      });
+    });
   });
 
   // number
@@ -84,6 +280,122 @@ describe('json-decoder', () => {
         primitiveError(undefined, tag)
       );
     });
+
+    describe('constraints', () => {
+      it('should check integers and finite numbers', () => {
+        expectOkWithValue(JsonDecoder.number({ integer: true }).decode(3), 3);
+        expectErrWithMsg(
+          JsonDecoder.number({ integer: true }).decode(1.5),
+          constraintError(1.5, 'integer')
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ safeInteger: true }).decode(2 ** 53),
+          constraintError(2 ** 53, 'safe integer')
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ finite: true }).decode(NaN),
+          'NaN is not a valid finite number'
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ finite: true }).decode(-Infinity),
+          '-Infinity is not a valid finite number'
+        );
+      });
+
+      it('should check the bounds', () => {
+        const decoder = JsonDecoder.number({ min: 1, exclusiveMax: 10 });
+        expectOkWithValue(decoder.decode(1), 1);
+        expectOkWithValue(decoder.decode(9.9), 9.9);
+        expectErrWithMsg(decoder.decode(0), constraintError(0, 'number >= 1'));
+        expectErrWithMsg(
+          decoder.decode(10),
+          constraintError(10, 'number < 10')
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ exclusiveMin: 0, max: 1 }).decode(2),
+          constraintError(2, 'number <= 1')
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ exclusiveMin: 0 }).decode(0),
+          constraintError(0, 'number > 0')
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ positive: true }).decode(0),
+          constraintError(0, 'positive number')
+        );
+        expectOkWithValue(
+          JsonDecoder.number({ nonNegative: true }).decode(0),
+          0
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ nonNegative: true }).decode(-1),
+          constraintError(-1, 'non-negative number')
+        );
+      });
+
+      it('should check multiples', () => {
+        const decoder = JsonDecoder.number({ multipleOf: 0.1 });
+        expectOkWithValue(decoder.decode(0.3), 0.3);
+        expectErrWithMsg(
+          decoder.decode(0.35),
+          constraintError(0.35, 'multiple of 0.1')
+        );
+      });
+
+      it('should check multiples of large and small numbers', () => {
+        expectOkWithValue(
+          JsonDecoder.number({ multipleOf: 0.1 }).decode(98765432.1),
+          98765432.1
+        );
+        expectOkWithValue(
+          JsonDecoder.number({ multipleOf: 0.01 }).decode(1234567890.12),
+          1234567890.12
+        );
+        expectOkWithValue(
+          JsonDecoder.number({ multipleOf: 0.0001 }).decode(0.0003),
+          0.0003
+        );
+        expectErrWithMsg(
+          JsonDecoder.number({ multipleOf: 1 }).decode(1e-10),
+          constraintError(1e-10, 'multiple of 1')
+        );
+      });
+
+      it('should provide presets', () => {
+        const portDecoder = JsonDecoder.number(JsonDecoder.numberPresets.port);
+        expectOkWithValue(portDecoder.decode(8080), 8080);
+        expectErrWithMsg(
+          portDecoder.decode(65536),
+          constraintError(65536, 'number <= 65535')
+        );
+        const percentageDecoder = JsonDecoder.number({
+          ...JsonDecoder.numberPresets.percentage,
+          integer: true
+        });
+        expectErrWithMsg(
+          percentageDecoder.decode(12.5),
+          constraintError(12.5, 'integer')
+        );
+        expectErrWithMsg(
+          percentageDecoder.decode(101),
+          constraintError(101, 'number <= 100')
+        );
+      });
+
+      it('should report broken constraints with machine-readable info', () => {
+        const decoder = JsonDecoder.number({ integer: true, min: 0 });
+        expect(decoder.descriptor).toEqual({
+          kind: 'number',
+          constraints: { integer: true, min: 0 }
+        });
+        const result = decoder.decode(-1);
+        expect(result.isOk() ? undefined : result.error).toMatchObject({
+          kind: 'constraint',
+          expected: 'number >= 0',
+          received: -1
+        });
+      });
+    });
   });
 
   // boolean
@@ -137,100 +449,713 @@ describe('json-decoder', () => {
     });
   });
 
-  // enumeration
-  describe('enumeration', () => {
-    enum IntEnum {
-      A,
-      B,
-      C
-    }
-    enum OddlyOrderedIntEnum {
-      A = 2,
-      B = 8,
-      C = -3,
-      D = 0
-    }
-    enum HeterogeneousEnum {
-      X = 1,
-      Y /* 2 */,
-      Z = 'foo'
-    }
-    it('should decode when the value is in the enum', () => {
+  // coerce
+  describe('bigint', () => {
+    it('should decode integer strings and safe integers', () => {
+      const decoder = JsonDecoder.bigint();
+      expectOkWithValue(decoder.decode('9007199254740993'), 9007199254740993n);
+      expectOkWithValue(decoder.decode('-42'), -42n);
+      expectOkWithValue(decoder.decode(42), 42n);
       expectOkWithValue(
-        JsonDecoder.enumeration<IntEnum>(IntEnum, 'IntEnum').decode(1),
-        IntEnum.B /* 1 */
+        decoder.decode(Number.MAX_SAFE_INTEGER),
+        9007199254740991n
       );
-      expectOkWithValue(
-        JsonDecoder.enumeration<OddlyOrderedIntEnum>(
-          OddlyOrderedIntEnum,
-          'OddlyOrderedIntEnum'
-        ).decode(-3),
-        OddlyOrderedIntEnum.C /* -3 */
+      expectOkWithValue(decoder.decode(7n), 7n);
+      expect(decoder.encode(9007199254740993n)).toBe('9007199254740993');
+    });
+
+    it('should reject numbers that lost precision', () => {
+      const decoder = JsonDecoder.bigint();
+      const json = JSON.parse('{"id": 9007199254740993}');
+      expectErrWithMsg(
+        decoder.decode(json.id),
+        precisionLostError(9007199254740992, 'bigint')
       );
-      expectOkWithValue(
-        JsonDecoder.enumeration<OddlyOrderedIntEnum>(
-          OddlyOrderedIntEnum,
-          'OddlyOrderedIntEnum'
-        ).decode(0),
-        OddlyOrderedIntEnum.D /* 0 */
+      expectErrWithMsg(
+        decoder.decode(1e21),
+        '1e+21 is not a valid bigint, precision lost: integers beyond Number.MAX_SAFE_INTEGER must be sent as strings'
       );
-      expectOkWithValue(
-        JsonDecoder.enumeration<HeterogeneousEnum>(
-          HeterogeneousEnum,
-          'HeterogeneousEnum'
-        ).decode(2),
-        HeterogeneousEnum.Y /* 2 */
+      expect((decoder.decode(json.id) as Err<bigint>).error.kind).toEqual(
+        'constraint'
       );
-      expectOkWithValue(
-        JsonDecoder.enumeration<HeterogeneousEnum>(
-          HeterogeneousEnum,
-          'HeterogeneousEnum'
-        ).decode('foo'),
-        HeterogeneousEnum.Z /* 'foo' */
+    });
+
+    it('should reject values that are not integers', () => {
+      const decoder = JsonDecoder.bigint();
+      [1.5, NaN, '1.5', '1e3', '', ' 1', true, null].forEach(json =>
+        expectErrWithMsg(decoder.decode(json), primitiveError(json, 'bigint'))
       );
     });
-    it('should fail when the value is not in the enum', () => {
+
+    it('should check the bounds', () => {
+      const decoder = JsonDecoder.bigint({ min: 1n, exclusiveMax: 2n ** 63n });
+      expect(decoder.decode('9223372036854775807').isOk()).toBe(true);
       expectErrWithMsg(
-        JsonDecoder.enumeration<IntEnum>(IntEnum, 'IntEnum').decode(3),
-        enumValueError('IntEnum', 3)
+        decoder.decode('9223372036854775808'),
+        constraintError('9223372036854775808', 'bigint < 9223372036854775808')
       );
+      expectErrWithMsg(decoder.decode(0), constraintError(0, 'bigint >= 1'));
       expectErrWithMsg(
-        JsonDecoder.enumeration<IntEnum>(
-          OddlyOrderedIntEnum,
-          'OddlyOrderedIntEnum'
-        ).decode(3),
-        enumValueError('OddlyOrderedIntEnum', 3)
+        JsonDecoder.bigint({ exclusiveMin: 0n, max: 10n }).decode(11n),
+        '11n is not a valid bigint <= 10'
       );
+    });
+  });
+
+  describe('decimal', () => {
+    it('should decode decimal strings and keep their scale', () => {
+      const decoder = JsonDecoder.decimal();
+      ['12.50', '-0.5', '42', '0.10', '123456789012345678901234.5'].forEach(
+        json => expectOkWithValue(decoder.decode(json), json)
+      );
+      expect(decoder.encode('12.50')).toBe('12.50');
+    });
+
+    it('should reject numbers and other strings', () => {
+      const decoder = JsonDecoder.decimal();
       expectErrWithMsg(
-        JsonDecoder.enumeration<HeterogeneousEnum>(
-          HeterogeneousEnum,
-          'HeterogeneousEnum'
-        ).decode(0),
-        enumValueError('HeterogeneousEnum', 0)
+        decoder.decode(12.5),
+        primitiveError(12.5, 'decimal string')
+      );
+      ['1e3', '+1', '.5', '1.', '1,5', '', 'NaN'].forEach(json =>
+        expectErrWithMsg(
+          decoder.decode(json),
+          constraintError(json, 'decimal string')
+        )
+      );
+    });
+
+    it('should check the constraints', () => {
+      const amountDecoder = JsonDecoder.decimal({
+        scale: 2,
+        min: '0.01',
+        max: '1000'
+      });
+      expect(amountDecoder.decode('1000.00').isOk()).toBe(true);
+      expectErrWithMsg(
+        amountDecoder.decode('12.5'),
+        constraintError('12.5', 'decimal with 2 decimal places')
+      );
+      expectErrWithMsg(
+        amountDecoder.decode('0.00'),
+        constraintError('0.00', 'decimal >= 0.01')
+      );
+      expectErrWithMsg(
+        amountDecoder.decode('1000.01'),
+        constraintError('1000.01', 'decimal <= 1000')
+      );
+      expectErrWithMsg(
+        JsonDecoder.decimal({ maxScale: 2 }).decode('0.125'),
+        constraintError('0.125', 'decimal with at most 2 decimal places')
+      );
+      const digitsDecoder = JsonDecoder.decimal({ maxDigits: 3 });
+      expect(digitsDecoder.decode('-0.00123').isOk()).toBe(true);
+      expectErrWithMsg(
+        digitsDecoder.decode('12.34'),
+        constraintError('12.34', 'decimal with at most 3 digits')
+      );
+    });
+
+    it('should be described by the tools', () => {
+      const transferDecoder = JsonDecoder.object(
+        {
+          id: JsonDecoder.bigint({ min: 1n }),
+          amount: JsonDecoder.decimal({ scale: 2, min: '0.01' }),
+          rate: JsonDecoder.decimal({ maxScale: 6 })
+        },
+        'Transfer'
+      );
+      expect(toJsonSchema(transferDecoder).properties).toEqual({
+        id: {
+          anyOf: [
+            { type: 'string', pattern: '^[+-]?\\d+$' },
+            {
+              type: 'integer',
+              minimum: Number.MIN_SAFE_INTEGER,
+              maximum: Number.MAX_SAFE_INTEGER
+            }
+          ],
+          $comment: 'bigint: >= 1'
+        },
+        amount: {
+          type: 'string',
+          pattern: '^-?\\d+\\.\\d{2}$',
+          $comment: 'decimal: >= 0.01'
+        },
+        rate: { type: 'string', pattern: '^-?\\d+(\\.\\d{1,6})?$' }
+      });
+      expect(toTypeScript(transferDecoder)).toEqual(
+        [
+          'export interface Transfer {',
+          '  id: bigint;',
+          '  amount: string;',
+          '  rate: string;',
+          '}',
+          ''
+        ].join('\n')
       );
+      for (let seed = 0; seed < 30; seed++) {
+        expect(
+          transferDecoder.decode(generate(transferDecoder, { seed })).isOk()
+        ).toBe(true);
+        expect(
+          transferDecoder
+            .decode(generate(transferDecoder, { seed, invalid: true }))
+            .isOk()
+        ).toBe(false);
+      }
     });
   });
 
-  // fallback
-  describe('fallback (on failure provide a default value)', () => {
-    it('should decode a value when value is provided', () => {
-      expectOkWithValue(
-        JsonDecoder.fallback('', JsonDecoder.string()).decode('algo'),
-        'algo'
+  describe('coerce', () => {
+    it('should parse number strings strictly', () => {
+      const decoder = JsonDecoder.coerce.number();
+      expectOkWithValue(decoder.decode('42'), 42);
+      expectOkWithValue(decoder.decode('-1.5'), -1.5);
+      expectOkWithValue(decoder.decode('.5'), 0.5);
+      expectOkWithValue(decoder.decode('1e3'), 1000);
+      expectOkWithValue(decoder.decode(7), 7);
+      [
+        '',
+        ' 1',
+        '1 ',
+        '1px',
+        '0x10',
+        'NaN',
+        'Infinity',
+        '1e999',
+        '-1e999',
+        '1_000',
+        '.'
+      ].forEach(str =>
+        expectErrWithMsg(decoder.decode(str), coercionError(str, 'number'))
       );
+      expectErrWithMsg(decoder.decode(null), coercionError(null, 'number'));
     });
-    it('should return the failoverValue when value is not provided', () => {
-      expectOkWithValue(
-        JsonDecoder.fallback('fallback value', JsonDecoder.string()).decode(44),
-        'fallback value'
+
+    it('should check the number constraints after parsing', () => {
+      const decoder = JsonDecoder.coerce.number({ integer: true, min: 1 });
+      expectOkWithValue(decoder.decode('3'), 3);
+      expectErrWithMsg(
+        decoder.decode('0'),
+        constraintError('0', 'number >= 1')
       );
+      expectErrWithMsg(
+        decoder.decode('1.5'),
+        constraintError('1.5', 'integer')
+      );
+      expectErrWithMsg(decoder.decode(0), constraintError(0, 'number >= 1'));
+      expect((decoder.decode('0') as Err<number>).error).toMatchObject({
+        kind: 'constraint',
+        expected: 'number >= 1',
+        received: '0'
+      });
+    });
+
+    it('should parse boolean strings', () => {
+      const decoder = JsonDecoder.coerce.boolean();
+      expectOkWithValue(decoder.decode('true'), true);
+      expectOkWithValue(decoder.decode('1'), true);
+      expectOkWithValue(decoder.decode('false'), false);
+      expectOkWithValue(decoder.decode('0'), false);
+      expectOkWithValue(decoder.decode(false), false);
+      ['', 'yes', 'TRUE', 'on', 'toString'].forEach(str =>
+        expectErrWithMsg(decoder.decode(str), coercionError(str, 'boolean'))
+      );
+      expectErrWithMsg(decoder.decode(1), coercionError(1, 'boolean'));
+    });
+
+    it('should parse ISO date strings', () => {
+      const decoder = JsonDecoder.coerce.date();
       expectOkWithValue(
-        JsonDecoder.fallback(2.1, JsonDecoder.number()).decode(null),
-        2.1
+        decoder.decode('2024-02-29'),
+        new Date(Date.UTC(2024, 1, 29))
       );
       expectOkWithValue(
-        JsonDecoder.fallback(false, JsonDecoder.boolean()).decode(undefined),
-        false
+        decoder.decode('2024-02-29T13:45:00+02:00'),
+        new Date(Date.UTC(2024, 1, 29, 11, 45))
+      );
+      [
+        '',
+        '2023-02-29',
+        '29/02/2024',
+        '2024-02-29T13:45:00',
+        '1709164800000'
+      ].forEach(str =>
+        expectErrWithMsg(decoder.decode(str), coercionError(str, 'date'))
+      );
+      expectErrWithMsg(
+        decoder.decode(new Date('nope')),
+        coercionError(new Date('nope'), 'date')
+      );
+    });
+
+    it('should parse integer strings into bigints', () => {
+      const decoder = JsonDecoder.coerce.bigint();
+      expectOkWithValue(
+        decoder.decode('9007199254740993'),
+        BigInt('9007199254740993')
+      );
+      expectOkWithValue(decoder.decode('-12'), BigInt(-12));
+      ['', '1.5', '1e3', '0x10', '1n'].forEach(str =>
+        expectErrWithMsg(decoder.decode(str), coercionError(str, 'bigint'))
+      );
+      expectErrWithMsg(decoder.decode(12), coercionError(12, 'bigint'));
+    });
+
+    it('should report the raw value and the target type', () => {
+      const result = JsonDecoder.coerce.number().decode('12px');
+      expect(result.isOk() ? undefined : result.error).toMatchObject({
+        kind: 'primitive',
+        expected: 'number',
+        received: '12px',
+        message: `"12px" can't be coerced to number`
+      });
+    });
+
+    it('should encode values back to strings', () => {
+      const queryCodec = JsonDecoder.object(
+        {
+          page: JsonDecoder.coerce.number(),
+          draft: JsonDecoder.coerce.boolean(),
+          since: JsonDecoder.coerce.date(),
+          id: JsonDecoder.coerce.bigint()
+        },
+        'Query'
+      );
+      const query = {
+        page: 2,
+        draft: false,
+        since: new Date(Date.UTC(2024, 1, 29)),
+        id: BigInt(7)
+      };
+      const encoded = queryCodec.encode(query);
+      expect(encoded).toEqual({
+        page: '2',
+        draft: 'false',
+        since: '2024-02-29T00:00:00.000Z',
+        id: '7'
+      });
+      expectOkWithValue(queryCodec.decode(encoded), query);
+    });
+
+    it('should be described by the tools', () => {
+      const decoder = JsonDecoder.coerce.number({ min: 1 });
+      expect(decoder.descriptor).toEqual({
+        kind: 'coerce',
+        target: 'number',
+        constraints: { min: 1 }
+      });
+      expect(toJsonSchema(JsonDecoder.coerce.boolean())).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        enum: ['0', '1', 'true', 'false'],
+        $comment:
+          'coerce: the decoded value is a boolean parsed from this string'
+      });
+      expect(
+        toTypeScript(
+          JsonDecoder.tuple(
+            [JsonDecoder.coerce.date(), JsonDecoder.coerce.bigint()],
+            'Pair'
+          )
+        )
+      ).toEqual('export type Pair = [Date, bigint];\n');
+      for (const coercion of [
+        JsonDecoder.coerce.number({ integer: true, min: 1 }),
+        JsonDecoder.coerce.boolean(),
+        JsonDecoder.coerce.date(),
+        JsonDecoder.coerce.bigint()
+      ]) {
+        for (let seed = 0; seed < 20; seed++) {
+          const sample = generate(coercion, { seed });
+          expect(typeof sample).toBe('string');
+          expect(coercion.decode(sample).isOk()).toBe(true);
+          expect(
+            coercion.decode(generate(coercion, { seed, invalid: true })).isOk()
+          ).toBe(false);
+        }
+      }
+    });
+  });
+
+  // enumeration
+  describe('date and time', () => {
+    it('should decode ISO dates at midnight UTC', () => {
+      const decoder = JsonDecoder.isoDate();
+      expectOkWithValue(
+        decoder.decode('2024-02-29'),
+        new Date('2024-02-29T00:00:00.000Z')
+      );
+      expectOkWithValue(
+        decoder.decode('0042-01-01'),
+        new Date('0042-01-01T00:00:00.000Z')
+      );
+      expectErrWithMsg(
+        decoder.decode(20240229),
+        primitiveError(20240229, 'string')
+      );
+      expectErrWithMsg(
+        decoder.decode('2023-02-29'),
+        dateTimeError(
+          '2023-02-29',
+          'ISO date',
+          'day 29 is out of range for 2023-02'
+        )
+      );
+      expectErrWithMsg(
+        decoder.decode('2024-13-01'),
+        dateTimeError('2024-13-01', 'ISO date', 'month 13 is out of range')
+      );
+      expectErrWithMsg(
+        decoder.decode('02/29/2024'),
+        dateTimeError('02/29/2024', 'ISO date', 'expected YYYY-MM-DD')
+      );
+      expect(decoder.encode(new Date('2024-02-29T00:00:00.000Z'))).toBe(
+        '2024-02-29'
+      );
+    });
+
+    it('should decode ISO date-times with an offset policy', () => {
+      const decoder = JsonDecoder.isoDateTime();
+      expectOkWithValue(
+        decoder.decode('2024-02-29T13:45:00.5+02:00'),
+        new Date('2024-02-29T11:45:00.500Z')
+      );
+      expectOkWithValue(
+        decoder.decode('2024-02-29t13:45:00z'),
+        new Date('2024-02-29T13:45:00.000Z')
+      );
+      expectErrWithMsg(
+        decoder.decode('2024-02-29T13:45:00'),
+        dateTimeError(
+          '2024-02-29T13:45:00',
+          'ISO date-time',
+          'the offset is missing'
+        )
+      );
+      expectErrWithMsg(
+        decoder.decode('2024-02-29T13:60:00Z'),
+        dateTimeError(
+          '2024-02-29T13:60:00Z',
+          'ISO date-time',
+          'minute 60 is out of range'
+        )
+      );
+      expectErrWithMsg(
+        decoder.decode('2024-02-29T13:45:00+24:00'),
+        dateTimeError(
+          '2024-02-29T13:45:00+24:00',
+          'ISO date-time',
+          'offset +24:00 is out of range'
+        )
+      );
+      expectErrWithMsg(
+        decoder.decode('2024-02-29T13:45Z'),
+        dateTimeError('2024-02-29T13:45Z', 'ISO date-time', 'expected HH:mm:ss')
+      );
+
+      const localDecoder = JsonDecoder.isoDateTime({ offset: 'forbidden' });
+      expectOkWithValue(
+        localDecoder.decode('2024-02-29T13:45:00'),
+        new Date('2024-02-29T13:45:00.000Z')
+      );
+      expectErrWithMsg(
+        localDecoder.decode('2024-02-29T13:45:00Z'),
+        dateTimeError(
+          '2024-02-29T13:45:00Z',
+          'ISO date-time',
+          'the offset is not allowed'
+        )
+      );
+      expect(localDecoder.encode(new Date('2024-02-29T13:45:00.000Z'))).toBe(
+        '2024-02-29T13:45:00.000'
+      );
+
+      const anyDecoder = JsonDecoder.isoDateTime({ offset: 'optional' });
+      expect(anyDecoder.decode('2024-02-29T13:45:00').isOk()).toBe(true);
+      expect(anyDecoder.decode('2024-02-29T13:45:00Z').isOk()).toBe(true);
+    });
+
+    it('should check the bounds', () => {
+      const after = new Date('2024-01-01T00:00:00.000Z');
+      const before = new Date('2025-01-01T00:00:00.000Z');
+      const decoder = JsonDecoder.isoDateTime({ after, before });
+      expect(decoder.decode('2024-06-01T00:00:00Z').isOk()).toBe(true);
+      expectErrWithMsg(
+        decoder.decode('2024-01-01T00:00:00Z'),
+        constraintError(
+          '2024-01-01T00:00:00Z',
+          'ISO date-time after 2024-01-01T00:00:00.000Z'
+        )
+      );
+      expectErrWithMsg(
+        JsonDecoder.isoDate({ before }).decode('2025-01-01'),
+        constraintError(
+          '2025-01-01',
+          'ISO date before 2025-01-01T00:00:00.000Z'
+        )
+      );
+      expectErrWithMsg(
+        JsonDecoder.epochSeconds({ after }).decode(0),
+        constraintError(0, 'epoch in seconds after 2024-01-01T00:00:00.000Z')
+      );
+    });
+
+    it('should decode ISO times', () => {
+      const decoder = JsonDecoder.isoTime();
+      expectOkWithValue(decoder.decode('13:45'), {
+        hours: 13,
+        minutes: 45,
+        seconds: 0,
+        milliseconds: 0
+      });
+      expectOkWithValue(decoder.decode('23:59:59.999'), {
+        hours: 23,
+        minutes: 59,
+        seconds: 59,
+        milliseconds: 999
+      });
+      expectErrWithMsg(
+        decoder.decode('24:00'),
+        dateTimeError('24:00', 'ISO time', 'hour 24 is out of range')
+      );
+      expectErrWithMsg(
+        decoder.decode('1:00'),
+        dateTimeError('1:00', 'ISO time', 'expected HH:mm[:ss]')
+      );
+      expect(
+        decoder.encode({ hours: 9, minutes: 5, seconds: 0, milliseconds: 20 })
+      ).toBe('09:05:00.020');
+    });
+
+    it('should decode epoch timestamps', () => {
+      expectOkWithValue(
+        JsonDecoder.epochSeconds().decode(1709214300),
+        new Date('2024-02-29T13:45:00.000Z')
+      );
+      expectOkWithValue(
+        JsonDecoder.epochMilliseconds().decode(1709214300000),
+        new Date('2024-02-29T13:45:00.000Z')
+      );
+      expectErrWithMsg(
+        JsonDecoder.epochMilliseconds().decode('1709214300000'),
+        primitiveError('1709214300000', 'number')
+      );
+      expectErrWithMsg(
+        JsonDecoder.epochMilliseconds().decode(1e20),
+        dateTimeError(
+          1e20,
+          'epoch in milliseconds',
+          'it is out of the Date range'
+        )
+      );
+      expectErrWithMsg(
+        JsonDecoder.epochSeconds().decode(NaN),
+        'NaN is not a valid epoch in seconds, it is not a finite number'
+      );
+      expect(
+        JsonDecoder.epochSeconds().encode(new Date('2024-02-29T13:45:00.000Z'))
+      ).toBe(1709214300);
+    });
+
+    it('should decode ISO durations', () => {
+      const decoder = JsonDecoder.isoDuration();
+      const zero = {
+        years: 0,
+        months: 0,
+        weeks: 0,
+        days: 0,
+        hours: 0,
+        minutes: 0,
+        seconds: 0
+      };
+      expectOkWithValue(decoder.decode('P1Y2M3DT4H5M6.5S'), {
+        ...zero,
+        years: 1,
+        months: 2,
+        days: 3,
+        hours: 4,
+        minutes: 5,
+        seconds: 6.5
+      });
+      expectOkWithValue(decoder.decode('P2W'), { ...zero, weeks: 2 });
+      expectOkWithValue(decoder.decode('PT0,5S'), { ...zero, seconds: 0.5 });
+      ['P', 'PT', 'P1DT', 'P1H', '1D', 'P-1D'].forEach(str =>
+        expectErrWithMsg(
+          decoder.decode(str),
+          dateTimeError(str, 'ISO duration', 'expected PnYnMnWnDTnHnMnS')
+        )
+      );
+      expect(decoder.encode({ ...zero, days: 1, minutes: 30 })).toBe('P1DT30M');
+      expect(decoder.encode(zero)).toBe('PT0S');
+    });
+
+    it('should be described by the tools', () => {
+      const eventDecoder = JsonDecoder.object(
+        {
+          day: JsonDecoder.isoDate(),
+          at: JsonDecoder.isoDateTime({ offset: 'optional' }),
+          start: JsonDecoder.isoTime(),
+          createdAt: JsonDecoder.epochSeconds({
+            after: new Date('2024-01-01T00:00:00.000Z')
+          }),
+          length: JsonDecoder.isoDuration()
+        },
+        'Event'
+      );
+      expect(
+        eventDecoder.descriptor.kind === 'object' &&
+          eventDecoder.descriptor.fields.at.decoder.descriptor
+      ).toEqual({
+        kind: 'date-time',
+        format: 'date-time',
+        offset: 'optional'
+      });
+      expect(toJsonSchema(eventDecoder).properties).toEqual({
+        day: { type: 'string', format: 'date' },
+        at: {
+          type: 'string',
+          pattern:
+            '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:\\d{2})?$'
+        },
+        start: {
+          type: 'string',
+          pattern: '^\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?$'
+        },
+        createdAt: { type: 'number', exclusiveMinimum: 1704067200 },
+        length: { type: 'string', format: 'duration' }
+      });
+      expect(toTypeScript(eventDecoder)).toEqual(
+        [
+          'export interface Event {',
+          '  day: Date;',
+          '  at: Date;',
+          '  start: {',
+          '    hours: number;',
+          '    minutes: number;',
+          '    seconds: number;',
+          '    milliseconds: number;',
+          '  };',
+          '  createdAt: Date;',
+          '  length: {',
+          '    years: number;',
+          '    months: number;',
+          '    weeks: number;',
+          '    days: number;',
+          '    hours: number;',
+          '    minutes: number;',
+          '    seconds: number;',
+          '  };',
+          '}',
+          ''
+        ].join('\n')
+      );
+      for (let seed = 0; seed < 30; seed++) {
+        expect(
+          eventDecoder.decode(generate(eventDecoder, { seed })).isOk()
+        ).toBe(true);
+        expect(
+          eventDecoder
+            .decode(generate(eventDecoder, { seed, invalid: true }))
+            .isOk()
+        ).toBe(false);
+      }
+    });
+  });
+
+  describe('enumeration', () => {
+    enum IntEnum {
+      A,
+      B,
+      C
+    }
+    enum OddlyOrderedIntEnum {
+      A = 2,
+      B = 8,
+      C = -3,
+      D = 0
+    }
+    enum HeterogeneousEnum {
+      X = 1,
+      Y /* 2 */,
+      Z = 'foo'
+    }
+    it('should decode when the value is in the enum', () => {
+      expectOkWithValue(
+        JsonDecoder.enumeration<IntEnum>(IntEnum, 'IntEnum').decode(1),
+        IntEnum.B /* 1 */
+      );
+      expectOkWithValue(
+        JsonDecoder.enumeration<OddlyOrderedIntEnum>(
+          OddlyOrderedIntEnum,
+          'OddlyOrderedIntEnum'
+        ).decode(-3),
+        OddlyOrderedIntEnum.C /* -3 */
+      );
+      expectOkWithValue(
+        JsonDecoder.enumeration<OddlyOrderedIntEnum>(
+          OddlyOrderedIntEnum,
+          'OddlyOrderedIntEnum'
+        ).decode(0),
+        OddlyOrderedIntEnum.D /* 0 */
+      );
+      expectOkWithValue(
+        JsonDecoder.enumeration<HeterogeneousEnum>(
+          HeterogeneousEnum,
+          'HeterogeneousEnum'
+        ).decode(2),
+        HeterogeneousEnum.Y /* 2 */
+      );
+      expectOkWithValue(
+        JsonDecoder.enumeration<HeterogeneousEnum>(
+          HeterogeneousEnum,
+          'HeterogeneousEnum'
+        ).decode('foo'),
+        HeterogeneousEnum.Z /* 'foo' */
+      );
+    });
+    it('should fail when the value is not in the enum', () => {
+      expectErrWithMsg(
+        JsonDecoder.enumeration<IntEnum>(IntEnum, 'IntEnum').decode(3),
+        enumValueError('IntEnum', 3)
+      );
+      expectErrWithMsg(
+        JsonDecoder.enumeration<IntEnum>(
+          OddlyOrderedIntEnum,
+          'OddlyOrderedIntEnum'
+        ).decode(3),
+        enumValueError('OddlyOrderedIntEnum', 3)
+      );
+      expectErrWithMsg(
+        JsonDecoder.enumeration<HeterogeneousEnum>(
+          HeterogeneousEnum,
+          'HeterogeneousEnum'
+        ).decode(0),
+        enumValueError('HeterogeneousEnum', 0)
+      );
+    });
+  });
+
+  // fallback
+  describe('fallback (on failure provide a default value)', () => {
+    it('should decode a value when value is provided', () => {
+      expectOkWithValue(
+        JsonDecoder.fallback('', JsonDecoder.string()).decode('algo'),
+        'algo'
+      );
+    });
+    it('should return the failoverValue when value is not provided', () => {
+      expectOkWithValue(
+        JsonDecoder.fallback('fallback value', JsonDecoder.string()).decode(44),
+        'fallback value'
+      );
+      expectOkWithValue(
+        JsonDecoder.fallback(2.1, JsonDecoder.number()).decode(null),
+        2.1
+      );
+      expectOkWithValue(
+        JsonDecoder.fallback(false, JsonDecoder.boolean()).decode(undefined),
+        false
       );
     });
   });
@@ -261,6 +1186,109 @@ describe('json-decoder', () => {
     });
   });
 
+  // withDefault
+  describe('withDefault (default value for a missing value)', () => {
+    const queryDecoder = JsonDecoder.object(
+      {
+        limit: JsonDecoder.withDefault(
+          JsonDecoder.number({ integer: true }),
+          10
+        ),
+        tags: JsonDecoder.withDefault(
+          JsonDecoder.array(JsonDecoder.string(), 'Tags'),
+          () => []
+        ),
+        sort: JsonDecoder.withDefault(
+          JsonDecoder.optional(JsonDecoder.string()),
+          'name',
+          { nullAsMissing: true }
+        )
+      },
+      'Query'
+    );
+    type Query = FromDecoder<typeof queryDecoder>;
+    type QueryTest = Expect<
+      Equal<Query, { limit: number; tags: string[]; sort: string }>
+    >;
+
+    it('should return the default value when the key is missing', () => {
+      expectOkWithValue(queryDecoder.decode({}), {
+        limit: 10,
+        tags: [],
+        sort: 'name'
+      });
+      expectOkWithValue(queryDecoder.decode({ limit: 5, sort: 'date' }), {
+        limit: 5,
+        tags: [],
+        sort: 'date'
+      });
+    });
+    it('should fail when the value is present but invalid', () => {
+      expectErrWithMsg(
+        queryDecoder.decode({ limit: 'ten' }),
+        objectError('Query', 'limit', primitiveError('ten', 'number'))
+      );
+    });
+    it('should only return the default value for null with nullAsMissing', () => {
+      expectOkWithValue(queryDecoder.decode({ sort: null }), {
+        limit: 10,
+        tags: [],
+        sort: 'name'
+      });
+      expectErrWithMsg(
+        queryDecoder.decode({ limit: null }),
+        objectError('Query', 'limit', primitiveError(null, 'number'))
+      );
+    });
+    it('should create a new default value with a factory', () => {
+      const first = queryDecoder.parse({});
+      const second = queryDecoder.parse({});
+      first.tags.push('mutated');
+      expect(second.tags).toEqual([]);
+    });
+    it('should be a codec when its decoder is a codec', () => {
+      expect(queryDecoder).toBeInstanceOf(Codec);
+      expect(
+        queryDecoder.encode({ limit: 10, tags: [], sort: 'name' })
+      ).toEqual({ limit: 10, tags: [], sort: 'name' });
+    });
+    it('should be described by the tools', () => {
+      expect(toJsonSchema(queryDecoder)).toMatchObject({
+        properties: {
+          limit: { type: 'integer', default: 10 },
+          tags: { type: 'array', default: [] },
+          sort: {
+            anyOf: [{ type: 'string' }, { type: 'null' }],
+            default: 'name'
+          }
+        }
+      });
+      expect(toJsonSchema(queryDecoder).required).toBeUndefined();
+      expect(toTypeScript(queryDecoder)).toEqual(
+        [
+          'export interface Query {',
+          '  limit: number;',
+          '  tags: Tags;',
+          '  sort: string;',
+          '}',
+          '',
+          'export type Tags = string[];',
+          ''
+        ].join('\n')
+      );
+      for (let seed = 0; seed < 30; seed++) {
+        expect(
+          queryDecoder.decode(generate(queryDecoder, { seed })).isOk()
+        ).toBe(true);
+        expect(
+          queryDecoder
+            .decode(generate(queryDecoder, { seed, invalid: true }))
+            .isOk()
+        ).toBe(false);
+      }
+    });
+  });
+
   // optional
   describe('optional', () => {
     type User = {
@@ -326,14 +1354,155 @@ describe('json-decoder', () => {
 
       expect(result).toEqual(expectedErrorResult);
     });
-  });
-
-  // nullable
-  describe('nullable', () => {
-    const nullableStringDecoder = JsonDecoder.nullable(JsonDecoder.string());
 
-    it('should decode a null value', () => {
-      expectOkWithValue(nullableStringDecoder.decode(null), null);
+    it('should leave missing keys out of the decoded object', () => {
+      const decoded = userDecoder.parse(user);
+      expect(Object.keys(decoded)).toEqual(['firstname', 'lastname']);
+      expect(
+        Object.keys(userDecoder.parse({ ...user, email: undefined }))
+      ).toEqual(['firstname', 'lastname', 'email']);
+      expect(
+        Object.keys(
+          JsonDecoder.objectStrict<User>(
+            {
+              firstname: JsonDecoder.string(),
+              lastname: JsonDecoder.string(),
+              email: JsonDecoder.optional(JsonDecoder.string())
+            },
+            'User'
+          ).parse(user)
+        )
+      ).toEqual(['firstname', 'lastname']);
+    });
+  });
+
+  // exactOptional
+  describe('exactOptional', () => {
+    type UserPatch = {
+      name?: string;
+      age?: number;
+    };
+    const patchDecoder = JsonDecoder.object<UserPatch>(
+      {
+        name: JsonDecoder.exactOptional(JsonDecoder.string()),
+        age: {
+          fromKey: 'user_age',
+          decoder: JsonDecoder.exactOptional(JsonDecoder.number())
+        }
+      },
+      'UserPatch'
+    );
+
+    it('should infer optional properties', () => {
+      const inferredDecoder = JsonDecoder.object(
+        {
+          id: JsonDecoder.number(),
+          name: JsonDecoder.exactOptional(JsonDecoder.string()),
+          nickname: JsonDecoder.nullish(JsonDecoder.string()),
+          email: {
+            fromKey: 'user_email',
+            decoder: JsonDecoder.optional(JsonDecoder.string())
+          }
+        },
+        'User'
+      );
+      type User = FromDecoder<typeof inferredDecoder>;
+      type UserTest = Expect<
+        Equal<
+          User,
+          {
+            id: number;
+            name?: string;
+            nickname?: string | null | undefined;
+            email?: string | undefined;
+          }
+        >
+      >;
+      type ExactOptionalTest = Expect<
+        Equal<
+          FromDecoder<ReturnType<typeof JsonDecoder.exactOptional<string>>>,
+          string
+        >
+      >;
+      const user: User = inferredDecoder.parse({ id: 1 });
+      expect(user).toStrictEqual({ id: 1 });
+    });
+    it('should leave missing keys out of the decoded object', () => {
+      expect(patchDecoder.parse({})).toStrictEqual({});
+      expect(patchDecoder.parse({ user_age: 3 })).toStrictEqual({ age: 3 });
+    });
+    it('should fail on keys that are present with an undefined value', () => {
+      expectErrWithMsg(
+        patchDecoder.decode({ name: undefined }),
+        objectError('UserPatch', 'name', primitiveError(undefined, 'string'))
+      );
+      expectErrWithMsg(
+        JsonDecoder.exactOptional(JsonDecoder.string()).decode(undefined),
+        primitiveError(undefined, 'string')
+      );
+    });
+    it('should be described by the tools', () => {
+      expect(toJsonSchema(patchDecoder)).toMatchObject({
+        properties: { name: { type: 'string' }, user_age: { type: 'number' } }
+      });
+      expect(toJsonSchema(patchDecoder).required).toBeUndefined();
+      expect(toTypeScript(patchDecoder)).toEqual(
+        [
+          'export interface UserPatch {',
+          '  name?: string;',
+          '  age?: number;',
+          '}',
+          ''
+        ].join('\n')
+      );
+      for (let seed = 0; seed < 30; seed++) {
+        expect(
+          patchDecoder.decode(generate(patchDecoder, { seed })).isOk()
+        ).toBe(true);
+      }
+    });
+  });
+
+  // nullish
+  describe('nullish', () => {
+    const patchDecoder = JsonDecoder.object(
+      { nickname: JsonDecoder.nullish(JsonDecoder.string()) },
+      'UserPatch'
+    );
+    type UserPatch = FromDecoder<typeof patchDecoder>;
+    type UserPatchTest = Expect<
+      Equal<UserPatch, { nickname?: string | null | undefined }>
+    >;
+
+    it('should tell missing keys and null apart', () => {
+      expect(patchDecoder.parse({})).toStrictEqual({});
+      expect(patchDecoder.parse({ nickname: null })).toStrictEqual({
+        nickname: null
+      });
+      expect(patchDecoder.parse({ nickname: 'Ada' })).toStrictEqual({
+        nickname: 'Ada'
+      });
+    });
+    it('should fail on other values', () => {
+      expectErrWithMsg(
+        patchDecoder.decode({ nickname: 1 }),
+        objectError('UserPatch', 'nickname', primitiveError(1, 'string'))
+      );
+    });
+    it('should be a codec when its decoder is a codec', () => {
+      const codec = JsonDecoder.nullish(JsonDecoder.string());
+      expect(codec).toBeInstanceOf(Codec);
+      expect(codec.encode(null)).toBeNull();
+      expect(codec.encode(undefined)).toBeUndefined();
+    });
+  });
+
+  // nullable
+  describe('nullable', () => {
+    const nullableStringDecoder = JsonDecoder.nullable(JsonDecoder.string());
+
+    it('should decode a null value', () => {
+      expectOkWithValue(nullableStringDecoder.decode(null), null);
     });
 
     it('should decode an actual value', () => {
@@ -381,8 +1550,68 @@ describe('json-decoder', () => {
           [JsonDecoder.string(), JsonDecoder.number()],
           'string | number'
         ).decode(true),
-        oneOfError('string | number', true)
+        oneOfErrors('string | number', true, [
+          primitiveError(true, 'string'),
+          primitiveError(true, 'number')
+        ])
+      );
+    });
+    it('should fail with the generic message when there are no decoders', () => {
+      expectErrWithMsg(
+        JsonDecoder.oneOf<string>([], 'never').decode(true),
+        oneOfError('never', true)
+      );
+    });
+    it('should report the error of each decoder, closest match first', () => {
+      const circleDecoder = JsonDecoder.object(
+        { type: JsonDecoder.literal('circle'), radius: JsonDecoder.number() },
+        'Circle'
+      );
+      const rectangleDecoder = JsonDecoder.object(
+        {
+          type: JsonDecoder.literal('rectangle'),
+          size: JsonDecoder.object(
+            { width: JsonDecoder.number(), height: JsonDecoder.number() },
+            'Size'
+          )
+        },
+        'Rectangle'
       );
+      const shapeDecoder = JsonDecoder.oneOf<unknown>(
+        [JsonDecoder.string(), circleDecoder, rectangleDecoder],
+        'Shape'
+      );
+      const json = { type: 'rectangle', size: { width: 1 } };
+      const result = shapeDecoder.decode(json);
+      const rectangleError = objectError(
+        'Rectangle',
+        'size',
+        objectError('Size', 'height', primitiveError(undefined, 'number'))
+      );
+      const circleError = objectError(
+        'Circle',
+        'type',
+        exactlyError('rectangle', 'circle')
+      );
+      expectErrWithMsg(
+        result,
+        oneOfErrors('Shape', json, [
+          rectangleError,
+          circleError,
+          primitiveError(json, 'string')
+        ])
+      );
+      const error = (result as Err<unknown>).error;
+      expect(error.kind).toEqual('one-of');
+      expect(error.causes.map(cause => [cause.kind, cause.expected])).toEqual([
+        ['object', 'Rectangle'],
+        ['object', 'Circle'],
+        ['primitive', 'string']
+      ]);
+      expect(error.causes[0].causes[0].causes[0].path).toEqual([
+        'size',
+        'height'
+      ]);
     });
     it('should apply transformations', () => {
       const optionalV2 = JsonDecoder.oneOf(
@@ -397,6 +1626,83 @@ describe('json-decoder', () => {
     });
   });
 
+  // discriminatedUnion
+  describe('discriminatedUnion', () => {
+    const circleDecoder = JsonDecoder.object(
+      { type: JsonDecoder.literal('circle'), radius: JsonDecoder.number() },
+      'Circle'
+    );
+    const squareDecoder = JsonDecoder.object(
+      { type: JsonDecoder.literal('square'), side: JsonDecoder.number() },
+      'Square'
+    );
+    const shapeDecoder = JsonDecoder.discriminatedUnion(
+      'type',
+      { circle: circleDecoder, square: squareDecoder },
+      'Shape'
+    );
+
+    it('should infer the union of the decoders types', () => {
+      type Shape = FromDecoder<typeof shapeDecoder>;
+      type ShapeTest = Expect<
+        Equal<
+          Shape,
+          { type: 'circle'; radius: number } | { type: 'square'; side: number }
+        >
+      >;
+      expect(true).eql(true);
+    });
+
+    it('should decode with the decoder of the tag', () => {
+      expectOkWithValue(shapeDecoder.decode({ type: 'circle', radius: 1 }), {
+        type: 'circle',
+        radius: 1
+      });
+      expectOkWithValue(shapeDecoder.decode({ type: 'square', side: 2 }), {
+        type: 'square',
+        side: 2
+      });
+    });
+
+    it('should fail with the error of the tag decoder', () => {
+      const json = { type: 'square', side: '2' };
+      expect(shapeDecoder.decode(json)).toEqual(squareDecoder.decode(json));
+    });
+
+    it('should fail when the tag is unknown', () => {
+      const result = shapeDecoder.decode({ type: 'triangle' });
+      expectErrWithMsg(
+        result,
+        unknownTagError('Shape', 'type', 'triangle', ['circle', 'square'])
+      );
+      expect((result as Err<unknown>).error).toMatchObject({
+        kind: 'unknown-tag',
+        path: ['type'],
+        expected: 'circle | square',
+        received: 'triangle'
+      });
+      expectErrWithMsg(
+        shapeDecoder.decode({ radius: 1 }),
+        unknownTagError('Shape', 'type', undefined, ['circle', 'square'])
+      );
+      expectErrWithMsg(
+        shapeDecoder.decode({ type: 'toString' }),
+        unknownTagError('Shape', 'type', 'toString', ['circle', 'square'])
+      );
+    });
+
+    it('should fail when the value is not an object', () => {
+      expectErrWithMsg(
+        shapeDecoder.decode('circle'),
+        primitiveError('circle', 'Shape')
+      );
+      expectErrWithMsg(
+        shapeDecoder.decode(null),
+        primitiveError(null, 'Shape')
+      );
+    });
+  });
+
   // allOf
   describe('allOf', () => {
     type User = { firstname: string; lastname: string; role: 'admin' | 'user' };
@@ -583,7 +1889,8 @@ describe('json-decoder', () => {
 
       expectStandardErrWithMsg(
         userDecoder['~standard'].validate(user),
-        objectError('User', 'firstname', primitiveError(2, 'string'))
+        primitiveError(2, 'string'),
+        ['firstname']
       );
     });
 
@@ -693,6 +2000,200 @@ describe('json-decoder', () => {
         );
       });
     });
+
+    describe('unknown keys', () => {
+      const fields = {
+        name: JsonDecoder.string(),
+        firstName: { fromKey: 'first_name', decoder: JsonDecoder.string() }
+      };
+      const json = { name: 'web', first_name: 'Ada', env: 'prod', team: 1 };
+
+      it('should strip unknown keys by default', () => {
+        expectOkWithValue(
+          JsonDecoder.object(fields, 'User', { unknownKeys: 'strip' }).decode(
+            json
+          ),
+          { name: 'web', firstName: 'Ada' }
+        );
+      });
+      it('should report every unknown key with reject', () => {
+        const decoder = JsonDecoder.object(fields, 'User', {
+          unknownKeys: 'reject'
+        });
+        expectErrWithMsg(
+          decoder.decode(json),
+          objectErrors('User', [
+            ['env', objectStrictUnknownKeyError('User', 'env')],
+            ['team', objectStrictUnknownKeyError('User', 'team')]
+          ])
+        );
+        expectErrWithMsg(
+          decoder.decode({ name: 'web', first_name: 'Ada', env: 'prod' }),
+          objectStrictUnknownKeyError('User', 'env')
+        );
+        expect(decoder.descriptor).toMatchObject({
+          strict: true,
+          unknownKeys: 'reject'
+        });
+      });
+      it('should keep unknown keys with passthrough', () => {
+        const decoder = JsonDecoder.object(fields, 'User', {
+          unknownKeys: 'passthrough'
+        });
+        type User = FromDecoder<typeof decoder>;
+        type UserTest = Expect<
+          Equal<
+            User,
+            { name: string; firstName: string } & { [key: string]: unknown }
+          >
+        >;
+        expectOkWithValue(decoder.decode(json), {
+          name: 'web',
+          firstName: 'Ada',
+          env: 'prod',
+          team: 1
+        });
+        expect(
+          decoder.encode({ name: 'web', firstName: 'Ada', env: 'prod' })
+        ).toEqual({ name: 'web', first_name: 'Ada', env: 'prod' });
+      });
+      it('should not pass through keys named like a field, nor prototypes', () => {
+        const decoder = JsonDecoder.object(
+          {
+            userName: {
+              fromKey: 'user_name',
+              decoder: JsonDecoder.optional(JsonDecoder.number())
+            }
+          },
+          'User',
+          { unknownKeys: 'passthrough' }
+        );
+        expect(
+          (decoder.decode({ userName: 'not-a-number' }) as Ok<unknown>).value
+        ).toStrictEqual({});
+        const decoded = (
+          decoder.decode(JSON.parse('{"__proto__":{"isAdmin":true}}')) as Ok<{
+            [key: string]: unknown;
+          }>
+        ).value;
+        expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+        expect(decoded.isAdmin).toBeUndefined();
+        expect(Object.keys(decoded)).toEqual(['__proto__']);
+
+        const catchallDecoder = JsonDecoder.object({}, 'Labels', {
+          unknownKeys: { restKey: 'labels', catchall: JsonDecoder.succeed() }
+        });
+        const labels = (
+          catchallDecoder.decode(
+            JSON.parse('{"__proto__":{"isAdmin":true}}')
+          ) as Ok<{ labels: { [key: string]: unknown } }>
+        ).value.labels;
+        expect(Object.getPrototypeOf(labels)).toBe(Object.prototype);
+        expect(labels.isAdmin).toBeUndefined();
+      });
+      it('should decode unknown keys into the rest key with a catchall', () => {
+        const decoder = JsonDecoder.object(fields, 'User', {
+          unknownKeys: { restKey: 'labels', catchall: JsonDecoder.string() }
+        });
+        type User = FromDecoder<typeof decoder>;
+        type UserTest = Expect<
+          Equal<
+            User,
+            { name: string; firstName: string } & {
+              labels: { [key: string]: string };
+            }
+          >
+        >;
+        expectOkWithValue(decoder.decode({ ...json, team: 'core' }), {
+          name: 'web',
+          firstName: 'Ada',
+          labels: { env: 'prod', team: 'core' }
+        });
+        expectErrWithMsg(
+          decoder.decode(json),
+          objectError('User', 'team', primitiveError(1, 'string'))
+        );
+        expect(
+          (decoder.decode(json) as Err<unknown>).error.causes[0].path
+        ).toEqual(['team']);
+        expect(
+          decoder.encode({
+            name: 'web',
+            firstName: 'Ada',
+            labels: { env: 'prod' }
+          })
+        ).toEqual({ env: 'prod', name: 'web', first_name: 'Ada' });
+      });
+      it('should not allow a rest key that is also a field', () => {
+        expect(() =>
+          JsonDecoder.object(fields, 'User', {
+            unknownKeys: { restKey: 'name', catchall: JsonDecoder.string() }
+          })
+        ).toThrow('The rest key "name" of <User> is also the key of a field');
+      });
+      it('should keep the policy in derived decoders', () => {
+        const decoder = JsonDecoder.pick(
+          JsonDecoder.object(fields, 'User', { unknownKeys: 'reject' }),
+          ['name']
+        );
+        expectErrWithMsg(
+          decoder.decode(json),
+          objectErrors('User', [
+            ['first_name', objectStrictUnknownKeyError('User', 'first_name')],
+            ['env', objectStrictUnknownKeyError('User', 'env')],
+            ['team', objectStrictUnknownKeyError('User', 'team')]
+          ])
+        );
+      });
+      it('should be described by the tools', () => {
+        const decoder = JsonDecoder.object(
+          { name: JsonDecoder.string() },
+          'Service',
+          {
+            unknownKeys: { restKey: 'labels', catchall: JsonDecoder.string() }
+          }
+        );
+        expect(toJsonSchema(decoder)).toMatchObject({
+          type: 'object',
+          properties: { name: { type: 'string' } },
+          additionalProperties: { type: 'string' }
+        });
+        expect(toTypeScript(decoder)).toEqual(
+          [
+            'export interface Service {',
+            '  name: string;',
+            '  labels: Record<string, string>;',
+            '}',
+            ''
+          ].join('\n')
+        );
+        expect(
+          toTypeScript(
+            JsonDecoder.object({ name: JsonDecoder.string() }, 'Service', {
+              unknownKeys: 'passthrough'
+            })
+          )
+        ).toEqual(
+          [
+            'export interface Service {',
+            '  name: string;',
+            '  [key: string]: unknown;',
+            '}',
+            ''
+          ].join('\n')
+        );
+        expect(decoderChildren(decoder).map(child => child.key)).toEqual([
+          'name',
+          'labels'
+        ]);
+        for (let seed = 0; seed < 30; seed++) {
+          expect(decoder.decode(generate(decoder, { seed })).isOk()).toBe(true);
+          expect(
+            decoder.decode(generate(decoder, { seed, invalid: true })).isOk()
+          ).toBe(false);
+        }
+      });
+    });
   });
 
   // empty object
@@ -724,6 +2225,279 @@ describe('json-decoder', () => {
     });
   });
 
+  // pick, omit, partial, required, extend and merge
+  describe('object operations', () => {
+    const userDecoder = JsonDecoder.object(
+      {
+        id: JsonDecoder.number(),
+        firstName: { fromKey: 'first_name', decoder: JsonDecoder.string() },
+        email: JsonDecoder.optional(JsonDecoder.string())
+      },
+      'User'
+    );
+    type User = FromDecoder<typeof userDecoder>;
+    const strictUserDecoder = JsonDecoder.objectStrict(
+      {
+        id: JsonDecoder.number(),
+        firstName: { fromKey: 'first_name', decoder: JsonDecoder.string() }
+      },
+      'User'
+    );
+
+    describe('pick', () => {
+      const summaryDecoder = JsonDecoder.pick(
+        userDecoder,
+        ['id', 'firstName'],
+        'UserSummary'
+      );
+      type Summary = FromDecoder<typeof summaryDecoder>;
+      type SummaryTest = Expect<Equal<Summary, Pick<User, 'id' | 'firstName'>>>;
+
+      it('should decode the picked fields from their json keys', () => {
+        expectOkWithValue(
+          summaryDecoder.decode({ id: 1, first_name: 'Ada', email: 'a@b.c' }),
+          { id: 1, firstName: 'Ada' }
+        );
+      });
+      it('should report errors with the new decoder name', () => {
+        expectErrWithMsg(
+          summaryDecoder.decode({ id: 1 }),
+          objectError(
+            'UserSummary',
+            'firstName',
+            primitiveError(undefined, 'string')
+          )
+        );
+      });
+      it('should keep the name of the original decoder by default', () => {
+        expect(JsonDecoder.pick(userDecoder, ['id']).descriptor).toMatchObject({
+          kind: 'object',
+          decoderName: 'User'
+        });
+      });
+      it('should keep the strictness of the original decoder', () => {
+        expectErrWithMsg(
+          JsonDecoder.pick(strictUserDecoder, ['id']).decode({
+            id: 1,
+            first_name: 'Ada'
+          }),
+          objectStrictUnknownKeyError('User', 'first_name')
+        );
+      });
+    });
+
+    describe('omit', () => {
+      const createUserDecoder = JsonDecoder.omit(
+        userDecoder,
+        ['id'],
+        'CreateUser'
+      );
+      type CreateUser = FromDecoder<typeof createUserDecoder>;
+      type CreateUserTest = Expect<Equal<CreateUser, Omit<User, 'id'>>>;
+
+      it('should decode the other fields', () => {
+        expectOkWithValue(
+          createUserDecoder.decode({ id: 1, first_name: 'Ada' }),
+          { firstName: 'Ada', email: undefined }
+        );
+      });
+      it('should reject the omitted fields of a strict decoder', () => {
+        expectErrWithMsg(
+          JsonDecoder.omit(strictUserDecoder, ['id']).decode({
+            id: 1,
+            first_name: 'Ada'
+          }),
+          objectStrictUnknownKeyError('User', 'id')
+        );
+      });
+    });
+
+    describe('partial', () => {
+      const patchUserDecoder = JsonDecoder.partial(userDecoder, 'PatchUser');
+      type PatchUser = FromDecoder<typeof patchUserDecoder>;
+      type PatchUserTest = Expect<Equal<PatchUser, Partial<User>>>;
+
+      it('should accept missing fields', () => {
+        expectOkWithValue(patchUserDecoder.decode({ first_name: 'Ada' }), {
+          id: undefined,
+          firstName: 'Ada',
+          email: undefined
+        });
+      });
+      it('should still validate the fields that are present', () => {
+        expectErrWithMsg(
+          patchUserDecoder.decode({ id: '1' }),
+          objectError('PatchUser', 'id', primitiveError('1', 'number'))
+        );
+      });
+    });
+
+    describe('required', () => {
+      const fullUserDecoder = JsonDecoder.required(userDecoder, 'FullUser');
+      type FullUser = FromDecoder<typeof fullUserDecoder>;
+      type FullUserTest = Expect<Equal<FullUser, Required<User>>>;
+
+      it('should reject missing optional fields', () => {
+        expectErrWithMsg(
+          fullUserDecoder.decode({ id: 1, first_name: 'Ada' }),
+          objectError('FullUser', 'email', primitiveError(undefined, 'string'))
+        );
+      });
+      it('should undo partial', () => {
+        expect(
+          JsonDecoder.required(JsonDecoder.partial(userDecoder)).descriptor
+        ).toEqual(JsonDecoder.required(userDecoder).descriptor);
+      });
+      it('should reject the other fields when they decode to undefined', () => {
+        const profileDecoder = JsonDecoder.required(
+          JsonDecoder.object(
+            {
+              bio: JsonDecoder.oneOf(
+                [JsonDecoder.string(), JsonDecoder.undefined()],
+                'string | undefined'
+              ),
+              nickname: JsonDecoder.optional(JsonDecoder.string()).map(
+                nickname => nickname
+              )
+            },
+            'Profile'
+          )
+        );
+        type Profile = FromDecoder<typeof profileDecoder>;
+        type ProfileTest = Expect<
+          Equal<Profile, { bio: string; nickname: string }>
+        >;
+        expectOkWithValue(
+          profileDecoder.decode({ bio: 'Hi', nickname: 'Al' }),
+          {
+            bio: 'Hi',
+            nickname: 'Al'
+          }
+        );
+        expectErrWithMsg(
+          profileDecoder.decode({ nickname: 'Al' }),
+          objectError(
+            'Profile',
+            'bio',
+            constraintError(undefined, 'required property')
+          )
+        );
+        expectErrWithMsg(
+          profileDecoder.decode({ bio: 'Hi' }),
+          objectError(
+            'Profile',
+            'nickname',
+            constraintError(undefined, 'required property')
+          )
+        );
+      });
+    });
+
+    describe('extend and merge', () => {
+      const adminDecoder = JsonDecoder.extend(
+        userDecoder,
+        {
+          id: JsonDecoder.string(),
+          permissions: {
+            fromKey: 'perms',
+            decoder: JsonDecoder.array(JsonDecoder.string(), 'Permissions')
+          }
+        },
+        'Admin'
+      );
+      type Admin = FromDecoder<typeof adminDecoder>;
+      type AdminTest = Expect<
+        Equal<
+          Admin,
+          {
+            firstName: string;
+            email?: string | undefined;
+            id: string;
+            permissions: string[];
+          }
+        >
+      >;
+      const timestampsDecoder = JsonDecoder.objectStrict(
+        { createdAt: { fromKey: 'created_at', decoder: JsonDecoder.number() } },
+        'Timestamps'
+      );
+
+      it('should add and replace fields', () => {
+        expectOkWithValue(
+          adminDecoder.decode({ id: 'a1', first_name: 'Ada', perms: ['all'] }),
+          { id: 'a1', firstName: 'Ada', email: undefined, permissions: ['all'] }
+        );
+      });
+      it('should merge the fields of two object decoders', () => {
+        const storedUserDecoder = JsonDecoder.merge(
+          strictUserDecoder,
+          timestampsDecoder,
+          'StoredUser'
+        );
+        type StoredUser = FromDecoder<typeof storedUserDecoder>;
+        type StoredUserTest = Expect<
+          Equal<
+            StoredUser,
+            { id: number; firstName: string; createdAt: number }
+          >
+        >;
+
+        expectOkWithValue(
+          storedUserDecoder.decode({ id: 1, first_name: 'Ada', created_at: 0 }),
+          { id: 1, firstName: 'Ada', createdAt: 0 }
+        );
+        expectErrWithMsg(
+          storedUserDecoder.decode({
+            id: 1,
+            first_name: 'Ada',
+            created_at: 0,
+            email: 'a@b.c'
+          }),
+          objectStrictUnknownKeyError('StoredUser', 'email')
+        );
+      });
+      it('should be strict only when the first decoder is strict', () => {
+        expectOkWithValue(
+          JsonDecoder.merge(userDecoder, timestampsDecoder).decode({
+            id: 1,
+            first_name: 'Ada',
+            created_at: 0,
+            extra: true
+          }),
+          { id: 1, firstName: 'Ada', email: undefined, createdAt: 0 }
+        );
+      });
+    });
+
+    it('should derive codecs from codecs', () => {
+      const pointCodec = JsonDecoder.object(
+        {
+          x: { fromKey: 'pos_x', decoder: JsonDecoder.number() },
+          y: JsonDecoder.number()
+        },
+        'Point'
+      );
+      const xCodec = JsonDecoder.pick(pointCodec, ['x']);
+      expect(xCodec).toBeInstanceOf(Codec);
+      expect(xCodec.encode({ x: 1 })).toEqual({ pos_x: 1 });
+      expect(
+        JsonDecoder.extend(pointCodec, { z: JsonDecoder.number() }).encode({
+          x: 1,
+          y: 2,
+          z: 3
+        })
+      ).toEqual({ pos_x: 1, y: 2, z: 3 });
+    });
+
+    it('should fail on decoders that are not object decoders', () => {
+      expect(() =>
+        JsonDecoder.partial(JsonDecoder.record(JsonDecoder.string(), 'Labels'))
+      ).toThrow(
+        'partial expects an object or objectStrict decoder, but received a decoder of kind "record"'
+      );
+    });
+  });
+
   // record
   describe('record (key / value pairs)', () => {
     type User = {
@@ -836,13 +2610,311 @@ describe('json-decoder', () => {
         )
       );
     });
-  });
 
-  // array
-  describe('array', () => {
-    it('should decode a filled array', () => {
-      expectOkWithValue(
-        JsonDecoder.array<number>(JsonDecoder.number(), 'number[]').decode([
+    it('should keep a "__proto__" key as an own property', () => {
+      const result = JsonDecoder.record(
+        JsonDecoder.object({ isAdmin: JsonDecoder.boolean() }, 'Flags'),
+        'Dict<Flags>'
+      ).decode(JSON.parse('{"__proto__":{"isAdmin":true}}'));
+
+      const value = (result as Ok<{ [key: string]: { isAdmin: boolean } }>)
+        .value;
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+      expect(Object.keys(value)).toEqual(['__proto__']);
+      expect(value['__proto__']).toEqual({ isAdmin: true });
+    });
+    describe('with a key decoder', () => {
+      enum Feature {
+        Dark = 'dark',
+        Beta = 'beta'
+      }
+      const flagsDecoder = JsonDecoder.record(
+        JsonDecoder.enumeration<Feature>(Feature, 'Feature'),
+        JsonDecoder.boolean(),
+        'Flags'
+      );
+      const pagesDecoder = JsonDecoder.record(
+        JsonDecoder.string({ pattern: /^\d+$/ }),
+        JsonDecoder.string(),
+        'Pages'
+      );
+
+      it('should decode the records whose keys are valid', () => {
+        expectOkWithValue(flagsDecoder.decode({ dark: true }), {
+          dark: true
+        });
+        expectOkWithValue(pagesDecoder.decode({ '1': 'Intro', '12': 'End' }), {
+          '1': 'Intro',
+          '12': 'End'
+        });
+      });
+
+      it('should fail on invalid keys', () => {
+        expectErrWithMsg(
+          flagsDecoder.decode({ dark: true, legacy: false }),
+          recordError(
+            'Flags',
+            'legacy',
+            recordKeyError(enumValueError('Feature', 'legacy'))
+          )
+        );
+        expectErrWithMsg(
+          pagesDecoder.decode({ one: 'Intro' }),
+          recordError(
+            'Pages',
+            'one',
+            recordKeyError(constraintError('one', 'string matching /^\\d+$/'))
+          )
+        );
+        const result = pagesDecoder.decode(
+          { one: 'Intro', '2': 2 },
+          { allErrors: true }
+        ) as Err<unknown>;
+        expect(
+          result.error.causes.map(cause => [cause.path, cause.kind])
+        ).toEqual([
+          [['2'], 'primitive'],
+          [['one'], 'constraint']
+        ]);
+      });
+
+      it('should type finite keys as partial', () => {
+        type Flags = FromDecoder<typeof flagsDecoder>;
+        type FlagsTest = Expect<
+          Equal<Flags, Partial<Record<Feature, boolean>>>
+        >;
+        type Pages = FromDecoder<typeof pagesDecoder>;
+        type PagesTest = Expect<Equal<Pages, Record<string, string>>>;
+
+        expect(flagsDecoder.descriptor).toEqual({
+          kind: 'record',
+          decoderName: 'Flags',
+          key: expect.any(Decoder),
+          element: expect.any(Decoder)
+        });
+      });
+    });
+  });
+
+  describe('map', () => {
+    const pricesDecoder = JsonDecoder.map(
+      JsonDecoder.coerce.number({ integer: true }),
+      JsonDecoder.number(),
+      'Prices'
+    );
+
+    it('should decode a Map from an object', () => {
+      expectOkWithValue(
+        pricesDecoder.decode({ '1': 9.99, '2': 19.99 }),
+        new Map([
+          [1, 9.99],
+          [2, 19.99]
+        ])
+      );
+      expectErrWithMsg(
+        pricesDecoder.decode({ one: 9.99 }),
+        recordError(
+          'Prices',
+          'one',
+          recordKeyError(coercionError('one', 'number'))
+        )
+      );
+    });
+
+    it('should decode a Map from an array of pairs', () => {
+      const pointsDecoder = JsonDecoder.map(
+        JsonDecoder.tuple(
+          [JsonDecoder.number(), JsonDecoder.number()],
+          'Point'
+        ),
+        JsonDecoder.string(),
+        'Labels'
+      );
+      const result = pointsDecoder.decode([
+        [[0, 0], 'origin'],
+        [[1, 2], 'A']
+      ]);
+      expect(result.isOk() && Array.from(result.value)).toEqual([
+        [[0, 0], 'origin'],
+        [[1, 2], 'A']
+      ]);
+      expectOkWithValue(
+        pricesDecoder.decode([
+          [1, 9.99],
+          [1, 8.99]
+        ]),
+        new Map([[1, 8.99]])
+      );
+      expectErrWithMsg(
+        pricesDecoder.decode([[1, '9.99']]),
+        arrayError(
+          'Prices',
+          0,
+          `<Prices entry> decoder failed at index "1" with error: ${primitiveError('9.99', 'number')}`
+        )
+      );
+      expectErrWithMsg(
+        pricesDecoder.decode([[1]]),
+        arrayError(
+          'Prices',
+          0,
+          tupleLengthMismatchError('Prices entry', [1], 2)
+        )
+      );
+      expectErrWithMsg(
+        pricesDecoder.decode('1=9.99'),
+        primitiveError('1=9.99', 'Prices')
+      );
+    });
+
+    it('should encode a Map as an array of pairs', () => {
+      expect(pricesDecoder.encode(new Map([[1, 9.99]]))).toEqual([['1', 9.99]]);
+      type Prices = FromDecoder<typeof pricesDecoder>;
+      type PricesTest = Expect<Equal<Prices, Map<number, number>>>;
+    });
+  });
+
+  describe('set', () => {
+    it('should decode a Set from an array', () => {
+      const tagsDecoder = JsonDecoder.set(JsonDecoder.string(), 'Tags');
+      expectOkWithValue(
+        tagsDecoder.decode(['a', 'b', 'a']),
+        new Set(['a', 'b'])
+      );
+      expectErrWithMsg(
+        tagsDecoder.decode(['a', 1]),
+        arrayError('Tags', 1, primitiveError(1, 'string'))
+      );
+      expectErrWithMsg(tagsDecoder.decode('a'), primitiveError('a', 'array'));
+      expect(tagsDecoder.encode(new Set(['a', 'b']))).toEqual(['a', 'b']);
+    });
+
+    it('should reject duplicates when asked to', () => {
+      const idsDecoder = JsonDecoder.set(JsonDecoder.coerce.number(), 'Ids', {
+        rejectDuplicates: true
+      });
+      expectOkWithValue(idsDecoder.decode([1, 2, 3]), new Set([1, 2, 3]));
+      expectErrWithMsg(
+        idsDecoder.decode([1, 2, '1']),
+        arrayError('Ids', 2, duplicateError('1', 0))
+      );
+      const result = idsDecoder.decode([1, 1, 2, 2], {
+        allErrors: true
+      }) as Err<unknown>;
+      expect(result.error.causes.map(cause => cause.path)).toEqual([[1], [3]]);
+    });
+  });
+
+  describe('collections in the tools', () => {
+    enum Size {
+      S = 'S',
+      M = 'M'
+    }
+    const inventoryDecoder = JsonDecoder.object(
+      {
+        stock: JsonDecoder.record(
+          JsonDecoder.enumeration<Size>(Size, 'Size'),
+          JsonDecoder.number({ integer: true, min: 0 }),
+          'Stock'
+        ),
+        prices: JsonDecoder.map(
+          JsonDecoder.string({ minLength: 1 }),
+          JsonDecoder.number(),
+          'Prices'
+        ),
+        tags: JsonDecoder.set(JsonDecoder.string(), 'Tags', {
+          rejectDuplicates: true
+        })
+      },
+      'Inventory'
+    );
+
+    it('should list the key decoders as children', () => {
+      const stock =
+        inventoryDecoder.descriptor.kind === 'object' &&
+        inventoryDecoder.descriptor.fields.stock.decoder;
+      expect(
+        stock &&
+          decoderChildren(stock).map(child => child.decoder.descriptor.kind)
+      ).toEqual(['enum', 'number']);
+    });
+
+    it('should export them', () => {
+      expect(toJsonSchema(inventoryDecoder).properties).toEqual({
+        stock: {
+          type: 'object',
+          title: 'Stock',
+          propertyNames: { title: 'Size', enum: ['S', 'M'] },
+          additionalProperties: { type: 'integer', minimum: 0 }
+        },
+        prices: {
+          title: 'Prices',
+          anyOf: [
+            {
+              type: 'object',
+              propertyNames: { type: 'string', minLength: 1 },
+              additionalProperties: { type: 'number' }
+            },
+            {
+              type: 'array',
+              items: {
+                type: 'array',
+                prefixItems: [
+                  { type: 'string', minLength: 1 },
+                  { type: 'number' }
+                ],
+                minItems: 2,
+                maxItems: 2
+              }
+            }
+          ]
+        },
+        tags: {
+          type: 'array',
+          title: 'Tags',
+          items: { type: 'string' },
+          uniqueItems: true
+        }
+      });
+      expect(toTypeScript(inventoryDecoder)).toEqual(
+        [
+          'export interface Inventory {',
+          '  stock: Stock;',
+          '  prices: Prices;',
+          '  tags: Tags;',
+          '}',
+          '',
+          'export type Stock = Partial<Record<Size, number>>;',
+          '',
+          'export type Size = "S" | "M";',
+          '',
+          'export type Prices = Map<string, number>;',
+          '',
+          'export type Tags = Set<string>;',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should generate samples', () => {
+      for (let seed = 0; seed < 30; seed++) {
+        expect(
+          inventoryDecoder.decode(generate(inventoryDecoder, { seed })).isOk()
+        ).toBe(true);
+        expect(
+          inventoryDecoder
+            .decode(generate(inventoryDecoder, { seed, invalid: true }))
+            .isOk()
+        ).toBe(false);
+      }
+    });
+  });
+
+  // array
+  describe('array', () => {
+    it('should decode a filled array', () => {
+      expectOkWithValue(
+        JsonDecoder.array<number>(JsonDecoder.number(), 'number[]').decode([
           1, 2, 3
         ]),
         [1, 2, 3]
@@ -979,8 +3051,159 @@ describe('json-decoder', () => {
       );
       expectErrWithMsg(
         decoder.decode([2, 'foo', [3, 4, 5]]),
-        tupleLengthMismatchError('[number, number[]]', [0, 1, 2], [0, 1])
+        tupleLengthMismatchError('[number, number[]]', [0, 1, 2], 2)
+      );
+    });
+    it('should decode trailing optional elements', () => {
+      const pointDecoder = JsonDecoder.tuple(
+        [
+          JsonDecoder.number(),
+          JsonDecoder.number(),
+          JsonDecoder.optional(JsonDecoder.number())
+        ],
+        'Point'
+      );
+      type Point = FromDecoder<typeof pointDecoder>;
+      type PointTest = Expect<Equal<Point, [number, number, number?]>>;
+
+      expectOkWithValue(pointDecoder.decode([1, 2]), [1, 2]);
+      expectOkWithValue(pointDecoder.decode([1, 2, 3]), [1, 2, 3]);
+      expectErrWithMsg(
+        pointDecoder.decode([1]),
+        tupleLengthMismatchError('Point', [1], 2, 3)
+      );
+      expectErrWithMsg(
+        pointDecoder.decode([1, 2, 3, 4]),
+        '<Point> tuple decoder failed because it received a tuple of length 4, but expected a length from 2 to 3.'
+      );
+      expect(pointDecoder.encode([1, 2])).toEqual([1, 2]);
+    });
+    it('should require trailing elements that have a default value', () => {
+      const pairDecoder = JsonDecoder.tuple(
+        [
+          JsonDecoder.number(),
+          JsonDecoder.fallback(0, JsonDecoder.number()),
+          JsonDecoder.withDefault(JsonDecoder.number(), 5)
+        ],
+        'Pair'
+      );
+      type Pair = FromDecoder<typeof pairDecoder>;
+      type PairTest = Expect<Equal<Pair, [number, number, number]>>;
+
+      expectErrWithMsg(
+        pairDecoder.decode([1]),
+        tupleLengthMismatchError('Pair', [1], 3)
+      );
+      expectOkWithValue(pairDecoder.decode([1, 'a', undefined]), [1, 0, 5]);
+    });
+    it('should require trailing elements that accept undefined without being optional', () => {
+      const withDefaultDecoder = JsonDecoder.tuple(
+        [
+          JsonDecoder.number(),
+          JsonDecoder.withDefault(JsonDecoder.number(), 5)
+        ],
+        'WithDefault'
+      );
+      const oneOfDecoder = JsonDecoder.tuple(
+        [
+          JsonDecoder.number(),
+          JsonDecoder.oneOf<number | undefined>(
+            [JsonDecoder.number(), JsonDecoder.undefined()],
+            'number | undefined'
+          )
+        ],
+        'OneOf'
+      );
+      const mappedDecoder = JsonDecoder.tuple(
+        [
+          JsonDecoder.number(),
+          JsonDecoder.optional(JsonDecoder.number()).map(n => n)
+        ],
+        'Mapped'
+      );
+      type WithDefaultTest = Expect<
+        Equal<FromDecoder<typeof withDefaultDecoder>, [number, number]>
+      >;
+      type OneOfTest = Expect<
+        Equal<FromDecoder<typeof oneOfDecoder>, [number, number | undefined]>
+      >;
+      type MappedTest = Expect<
+        Equal<FromDecoder<typeof mappedDecoder>, [number, number | undefined]>
+      >;
+
+      for (const decoder of [withDefaultDecoder, oneOfDecoder, mappedDecoder]) {
+        expect(decoder.decode([1]).isOk()).toBe(false);
+      }
+      expectOkWithValue(withDefaultDecoder.decode([1, undefined]), [1, 5]);
+      expectOkWithValue(oneOfDecoder.decode([1, undefined]), [1, undefined]);
+      expectOkWithValue(mappedDecoder.decode([1, undefined]), [1, undefined]);
+    });
+    it('should decode rest elements', () => {
+      const commandDecoder = JsonDecoder.tuple(
+        [JsonDecoder.string(), JsonDecoder.optional(JsonDecoder.boolean())],
+        'Command',
+        { rest: JsonDecoder.number() }
+      );
+      type Command = FromDecoder<typeof commandDecoder>;
+      type CommandTest = Expect<
+        Equal<Command, [string, boolean?, ...number[]]>
+      >;
+
+      expectOkWithValue(commandDecoder.decode(['stop']), ['stop']);
+      expectOkWithValue(commandDecoder.decode(['move', true, 10, 20]), [
+        'move',
+        true,
+        10,
+        20
+      ]);
+      expectErrWithMsg(
+        commandDecoder.decode(['move', true, 10, '20']),
+        arrayError('Command', 3, primitiveError('20', 'number'))
+      );
+      expectErrWithMsg(
+        commandDecoder.decode([]),
+        '<Command> tuple decoder failed because it received a tuple of length 0, but expected a length of at least 1.'
+      );
+    });
+    it('should encode rest elements', () => {
+      const datesCodec = JsonDecoder.tuple([JsonDecoder.string()], 'Dates', {
+        rest: JsonDecoder.isoDate()
+      });
+      type DatesJson = ReturnType<typeof datesCodec.encode>;
+      type DatesJsonTest = Expect<Equal<DatesJson, [string, ...string[]]>>;
+
+      expect(
+        datesCodec.encode(['deadlines', new Date('2024-02-29T00:00:00Z')])
+      ).toEqual(['deadlines', '2024-02-29']);
+    });
+    it('should describe optional and rest elements', () => {
+      const decoder = JsonDecoder.tuple(
+        [JsonDecoder.string(), JsonDecoder.optional(JsonDecoder.number())],
+        'Args',
+        { rest: JsonDecoder.boolean() }
+      );
+      expect(decoderChildren(decoder).map(child => child.key)).toEqual([
+        0,
+        1,
+        undefined
+      ]);
+      expect(toJsonSchema(decoder)).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'array',
+        title: 'Args',
+        prefixItems: [{ type: 'string' }, { type: 'number' }],
+        minItems: 1,
+        items: { type: 'boolean' }
+      });
+      expect(toTypeScript(decoder)).toEqual(
+        'export type Args = [string, number?, ...boolean[]];\n'
       );
+      for (let seed = 0; seed < 30; seed++) {
+        expect(decoder.decode(generate(decoder, { seed })).isOk()).toBe(true);
+        expect(
+          decoder.decode(generate(decoder, { seed, invalid: true })).isOk()
+        ).toBe(false);
+      }
     });
   });
 
@@ -1491,26 +3714,2190 @@ describe('json-decoder', () => {
     });
   });
 
-  describe('StandardSchemaV1', () => {
-    async function standardValidate<T extends StandardSchemaV1>(
-      schema: T,
-      input: StandardSchemaV1.InferInput<T>
-    ): Promise<StandardSchemaV1.InferOutput<T>> {
-      let result = schema['~standard'].validate(input);
-      if (result instanceof Promise) result = await result;
+  describe('brand', () => {
+    const emailDecoder = JsonDecoder.string({
+      format: 'email'
+    }).brand<'Email'>();
+    type Email = FromDecoder<typeof emailDecoder>;
+    type EmailTest = Expect<Equal<Email, string & Brand<'Email'>>>;
+    const userDecoder = JsonDecoder.object(
+      { id: JsonDecoder.number().brand<'UserId'>(), email: emailDecoder },
+      'User'
+    );
+    type User = FromDecoder<typeof userDecoder>;
+    type UserTest = Expect<
+      Equal<User, { id: number & Brand<'UserId'>; email: Email }>
+    >;
 
-      // if the `issues` field exists, the validation failed
-      if (result.issues) {
-        throw new Error(JSON.stringify(result.issues, null, 2));
+    it('should decode like the unbranded decoder', () => {
+      expectOkWithValue(
+        emailDecoder.decode('ada@example.com'),
+        'ada@example.com' as Email
+      );
+      expect(emailDecoder.decode('ada').isOk()).toBe(false);
+      expect(emailDecoder.descriptor).toEqual({
+        kind: 'string',
+        constraints: { format: 'email' }
+      });
+    });
+    it('should only accept branded values where the branded type is expected', () => {
+      const sendTo = (email: Email): string => email;
+      // @ts-expect-error a plain string is not an Email
+      sendTo('ada@example.com');
+      expect(sendTo(emailDecoder.parse('ada@example.com'))).toBe(
+        'ada@example.com'
+      );
+    });
+    it('should keep codecs encoding', () => {
+      const centsCodec = JsonDecoder.number({ integer: true }).brand<'Cents'>();
+      expect(centsCodec).toBeInstanceOf(Codec);
+      expect(centsCodec.encode(centsCodec.parse(250))).toBe(250);
+    });
+  });
+
+  describe('Codec', () => {
+    const dateCodec = JsonDecoder.string().map(
+      str => new Date(str),
+      date => date.toISOString()
+    );
+
+    it('should encode primitives as they are', () => {
+      expect(JsonDecoder.string().encode('hi')).toEqual('hi');
+      expect(JsonDecoder.number().encode(42)).toEqual(42);
+      expect(JsonDecoder.boolean().encode(false)).toEqual(false);
+      expect(JsonDecoder.null().encode(null)).toEqual(null);
+      expect(JsonDecoder.undefined().encode(undefined)).toEqual(undefined);
+      expect(JsonDecoder.literal('on').encode('on')).toEqual('on');
+    });
+
+    it('should encode enumeration values', () => {
+      enum Color {
+        Red = 'red',
+        Blue = 'blue'
       }
+      const colorCodec = JsonDecoder.enumeration<Color>(Color, 'Color');
+      expect(colorCodec.encode(Color.Blue)).toEqual('blue');
+    });
 
-      return result.value;
-    }
+    it('should map both ways', () => {
+      const date = new Date('2018-12-21T18:22:25.490Z');
+      expectOkWithValue(dateCodec.decode('2018-12-21T18:22:25.490Z'), date);
+      expect(dateCodec.encode(date)).toEqual('2018-12-21T18:22:25.490Z');
+    });
 
-    it('should integrate with standard schema', async () => {
-      const res = await standardValidate(JsonDecoder.string(), 'hello');
-      type TestType = Expect<Equal<typeof res, string>>;
-      expect(res).equal('hello');
+    it('should return a plain decoder when mapping without the reverse function', () => {
+      const lengthDecoder = JsonDecoder.string().map(str => str.length);
+      expect(lengthDecoder).toBeInstanceOf(Decoder);
+      expect(lengthDecoder).not.toBeInstanceOf(Codec);
+    });
+
+    it('should encode objects back to their fromKey and leave out undefined values', () => {
+      const userCodec = JsonDecoder.object(
+        {
+          firstName: { fromKey: 'first_name', decoder: JsonDecoder.string() },
+          birthday: dateCodec,
+          nickname: JsonDecoder.optional(JsonDecoder.string())
+        },
+        'User'
+      );
+      const json = {
+        first_name: 'John',
+        birthday: '1985-10-26T01:21:00.000Z'
+      };
+      const user = userCodec.parse(json);
+      expect(user).toEqual({
+        firstName: 'John',
+        birthday: new Date('1985-10-26T01:21:00.000Z'),
+        nickname: undefined
+      });
+      expect(userCodec.encode(user)).toEqual(json);
+      expect(Object.keys(userCodec.encode(user))).toEqual([
+        'first_name',
+        'birthday'
+      ]);
+    });
+
+    it('should encode strict objects', () => {
+      const pointCodec = JsonDecoder.objectStrict(
+        {
+          x: JsonDecoder.number(),
+          y: { fromKey: 'Y', decoder: JsonDecoder.number() }
+        },
+        'Point'
+      );
+      expect(pointCodec.encode({ x: 1, y: 2 })).toEqual({ x: 1, Y: 2 });
+      expectOkWithValue(pointCodec.decode({ x: 1, Y: 2 }), { x: 1, y: 2 });
+    });
+
+    it('should encode arrays, records and tuples', () => {
+      const date = new Date('2020-01-01T00:00:00.000Z');
+      const iso = '2020-01-01T00:00:00.000Z';
+      expect(JsonDecoder.array(dateCodec, 'Date[]').encode([date])).toEqual([
+        iso
+      ]);
+      expect(
+        JsonDecoder.record(dateCodec, 'Dates').encode({ start: date })
+      ).toEqual({ start: iso });
+      expect(
+        JsonDecoder.tuple([JsonDecoder.number(), dateCodec], 'Event').encode([
+          1,
+          date
+        ])
+      ).toEqual([1, iso]);
+    });
+
+    it('should encode optional and nullable values', () => {
+      const optionalDate = JsonDecoder.optional(dateCodec);
+      const nullableDate = JsonDecoder.nullable(dateCodec);
+      expect(optionalDate.encode(undefined)).toEqual(undefined);
+      expect(nullableDate.encode(null)).toEqual(null);
+      expect(nullableDate.encode(new Date('2020-01-01T00:00:00.000Z'))).toEqual(
+        '2020-01-01T00:00:00.000Z'
+      );
+    });
+
+    it('should encode with the first oneOf codec that round-trips', () => {
+      const codec = JsonDecoder.oneOf<Date | number>(
+        [dateCodec, JsonDecoder.number()],
+        'DateOrNumber'
+      );
+      expect(codec.encode(new Date('2020-01-01T00:00:00.000Z'))).toEqual(
+        '2020-01-01T00:00:00.000Z'
+      );
+      expect(codec.encode(42)).toEqual(42);
+    });
+
+    it('should throw when no oneOf codec can encode the value', () => {
+      const codec = JsonDecoder.oneOf<string | number>(
+        [JsonDecoder.string(), JsonDecoder.number()],
+        'StringOrNumber'
+      );
+      expect(() => codec.encode(true as any)).toThrow(
+        "<StringOrNumber> codec failed because true can't be encoded with any of the provided oneOf codecs"
+      );
+    });
+
+    it('should encode discriminated unions with the codec of the tag', () => {
+      const eventCodec = JsonDecoder.discriminatedUnion(
+        'type',
+        {
+          start: JsonDecoder.object(
+            { type: JsonDecoder.literal('start'), at: dateCodec },
+            'Start'
+          ),
+          stop: JsonDecoder.object(
+            { type: JsonDecoder.literal('stop'), code: JsonDecoder.number() },
+            'Stop'
+          )
+        },
+        'Event'
+      );
+      expect(
+        eventCodec.encode({
+          type: 'start',
+          at: new Date('2020-01-01T00:00:00.000Z')
+        })
+      ).toEqual({ type: 'start', at: '2020-01-01T00:00:00.000Z' });
+      expect(eventCodec.encode({ type: 'stop', code: 1 })).toEqual({
+        type: 'stop',
+        code: 1
+      });
+      expect(() => eventCodec.encode({ type: 'pause' } as any)).toThrow(
+        unknownTagError('Event', 'type', 'pause', ['start', 'stop'])
+      );
+    });
+
+    it('should return a plain decoder when an inner decoder is not a codec', () => {
+      const lengthDecoder = JsonDecoder.string().map(str => str.length);
+      expect(JsonDecoder.array(lengthDecoder, 'Lengths')).not.toBeInstanceOf(
+        Codec
+      );
+      expect(
+        JsonDecoder.object(
+          { name: JsonDecoder.string(), length: lengthDecoder },
+          'Named'
+        )
+      ).not.toBeInstanceOf(Codec);
+      expect(
+        JsonDecoder.tuple([JsonDecoder.string(), lengthDecoder], 'Pair')
+      ).not.toBeInstanceOf(Codec);
+      expect(
+        JsonDecoder.oneOf<string | number>(
+          [JsonDecoder.string(), lengthDecoder],
+          'StringOrLength'
+        )
+      ).not.toBeInstanceOf(Codec);
+    });
+
+    it('should infer the encoded types', () => {
+      const pointCodec = JsonDecoder.tuple(
+        [dateCodec, JsonDecoder.number()],
+        'Point'
+      );
+      type PointJson = ReturnType<typeof pointCodec.encode>;
+      type PointJsonTest = Expect<Equal<PointJson, [string, number]>>;
+
+      type Dates = ReturnType<
+        ReturnType<typeof JsonDecoder.array<Date, string>>['encode']
+      >;
+      type DatesTest = Expect<Equal<Dates, string[]>>;
+
+      type Str = FromDecoder<ReturnType<typeof JsonDecoder.string>>;
+      type StrTest = Expect<Equal<Str, string>>;
+
+      expect(true).eql(true);
+    });
+  });
+
+  describe('descriptors', () => {
+    it('should describe primitives, literals and enums', () => {
+      enum Color {
+        Red = 'red'
+      }
+      expect(JsonDecoder.string().descriptor).toEqual({ kind: 'string' });
+      expect(JsonDecoder.null().descriptor).toEqual({ kind: 'null' });
+      expect(JsonDecoder.literal(3).descriptor).toEqual({
+        kind: 'literal',
+        value: 3
+      });
+      expect(JsonDecoder.enumeration(Color, 'Color').descriptor).toEqual({
+        kind: 'enum',
+        decoderName: 'Color',
+        values: ['red']
+      });
+      expect(new Decoder(json => ok(json)).descriptor).toEqual({
+        kind: 'custom'
+      });
+    });
+
+    it('should describe object fields with their fromKey', () => {
+      const nameDecoder = JsonDecoder.string();
+      const ageDecoder = JsonDecoder.number();
+      const userDecoder = JsonDecoder.objectStrict(
+        {
+          name: { fromKey: 'user_name', decoder: nameDecoder },
+          age: ageDecoder
+        },
+        'User'
+      );
+      expect(userDecoder.descriptor).toEqual({
+        kind: 'object',
+        decoderName: 'User',
+        strict: true,
+        fields: {
+          name: { fromKey: 'user_name', decoder: nameDecoder },
+          age: { fromKey: 'age', decoder: ageDecoder }
+        }
+      });
+    });
+
+    it('should describe map and flatMap as wrapper nodes', () => {
+      const stringDecoder = JsonDecoder.string();
+      const dateDecoder = stringDecoder.map(str => new Date(str));
+      expect(dateDecoder.descriptor).toEqual({
+        kind: 'map',
+        decoder: stringDecoder
+      });
+      const dateCodec = stringDecoder.map(
+        str => new Date(str),
+        date => date.toISOString()
+      );
+      expect(dateCodec.descriptor).toEqual({
+        kind: 'map',
+        decoder: stringDecoder
+      });
+      const nonEmptyDecoder = stringDecoder.flatMap(str =>
+        str.length > 0 ? JsonDecoder.succeed() : JsonDecoder.fail('Empty')
+      );
+      expect(nonEmptyDecoder.descriptor).toEqual({
+        kind: 'flat-map',
+        decoder: stringDecoder
+      });
+    });
+
+    it('should list the children of a decoder with their keys', () => {
+      const a = JsonDecoder.string();
+      const b = JsonDecoder.number();
+      expect(decoderChildren(JsonDecoder.object({ a, b }, 'AB'))).toEqual([
+        { key: 'a', decoder: a },
+        { key: 'b', decoder: b }
+      ]);
+      expect(decoderChildren(JsonDecoder.tuple([a, b], 'Pair'))).toEqual([
+        { key: 0, decoder: a },
+        { key: 1, decoder: b }
+      ]);
+      expect(
+        decoderChildren(JsonDecoder.oneOf<string | number>([a, b], 'AOrB'))
+      ).toEqual([
+        { key: 0, decoder: a },
+        { key: 1, decoder: b }
+      ]);
+      expect(decoderChildren(JsonDecoder.array(a, 'A[]'))).toEqual([
+        { decoder: a }
+      ]);
+      expect(decoderChildren(JsonDecoder.lazy(() => b))).toEqual([
+        { decoder: b }
+      ]);
+      expect(decoderChildren(a)).toEqual([]);
+    });
+
+    it('should walk recursive decoders once per decoder', () => {
+      type Tree = { value: number; children: Tree[] };
+      const treeDecoder: Decoder<Tree> = JsonDecoder.lazy(() =>
+        JsonDecoder.object<Tree>(
+          {
+            value: JsonDecoder.number(),
+            children: JsonDecoder.array(treeDecoder, 'Tree[]')
+          },
+          'Tree'
+        )
+      );
+      const visited: string[] = [];
+      walkDecoder(treeDecoder, (decoder, parents) => {
+        const descriptor = decoder.descriptor;
+        visited.push(
+          `${parents.length}:${'decoderName' in descriptor ? descriptor.decoderName : descriptor.kind}`
+        );
+      });
+      expect(visited).toEqual(['0:lazy', '1:Tree', '2:number', '2:Tree[]']);
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    const $schema = 'https://json-schema.org/draft/2020-12/schema';
+
+    it('should export primitives, literals and enums', () => {
+      enum Color {
+        Red = 'red',
+        Blue = 'blue'
+      }
+      expect(toJsonSchema(JsonDecoder.string())).toEqual({
+        $schema,
+        type: 'string'
+      });
+      expect(toJsonSchema(JsonDecoder.number())).toEqual({
+        $schema,
+        type: 'number'
+      });
+      expect(toJsonSchema(JsonDecoder.boolean())).toEqual({
+        $schema,
+        type: 'boolean'
+      });
+      expect(toJsonSchema(JsonDecoder.null())).toEqual({
+        $schema,
+        type: 'null'
+      });
+      expect(toJsonSchema(JsonDecoder.literal('on'))).toEqual({
+        $schema,
+        const: 'on'
+      });
+      expect(
+        toJsonSchema(JsonDecoder.enumeration<Color>(Color, 'Color'))
+      ).toEqual({ $schema, title: 'Color', enum: ['red', 'blue'] });
+    });
+
+    it('should export the string constraints', () => {
+      expect(
+        toJsonSchema(
+          JsonDecoder.string({ nonEmpty: true, maxLength: 10, format: 'url' })
+        )
+      ).toEqual({
+        $schema,
+        type: 'string',
+        minLength: 1,
+        maxLength: 10,
+        format: 'uri'
+      });
+      expect(
+        toJsonSchema(JsonDecoder.string({ length: 4, format: 'base64' }))
+      ).toEqual({
+        $schema,
+        type: 'string',
+        minLength: 4,
+        maxLength: 4,
+        contentEncoding: 'base64'
+      });
+      expect(
+        toJsonSchema(JsonDecoder.string({ startsWith: 'a.', pattern: /b/ }))
+      ).toEqual({
+        $schema,
+        type: 'string',
+        allOf: [{ pattern: '^a\\.' }, { pattern: 'b' }]
+      });
+    });
+
+    it('should export the number constraints', () => {
+      expect(
+        toJsonSchema(
+          JsonDecoder.number({ integer: true, nonNegative: true, min: -5 })
+        )
+      ).toEqual({ $schema, type: 'integer', minimum: 0 });
+      expect(
+        toJsonSchema(
+          JsonDecoder.number({
+            positive: true,
+            exclusiveMax: 1,
+            multipleOf: 0.25
+          })
+        )
+      ).toEqual({
+        $schema,
+        type: 'number',
+        exclusiveMinimum: 0,
+        exclusiveMaximum: 1,
+        multipleOf: 0.25
+      });
+      expect(toJsonSchema(JsonDecoder.number({ safeInteger: true }))).toEqual({
+        $schema,
+        type: 'integer',
+        minimum: Number.MIN_SAFE_INTEGER,
+        maximum: Number.MAX_SAFE_INTEGER
+      });
+    });
+
+    it('should export objects with their JSON keys and required properties', () => {
+      const userDecoder = JsonDecoder.object(
+        {
+          name: { fromKey: 'user_name', decoder: JsonDecoder.string() },
+          age: JsonDecoder.optional(JsonDecoder.number()),
+          email: JsonDecoder.nullable(JsonDecoder.string())
+        },
+        'User'
+      );
+      expect(toJsonSchema(userDecoder)).toEqual({
+        $schema,
+        type: 'object',
+        title: 'User',
+        properties: {
+          user_name: { type: 'string' },
+          age: { type: 'number' },
+          email: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+        },
+        required: ['user_name', 'email']
+      });
+    });
+
+    it('should tell required properties from the descriptors without decoding', () => {
+      let calls = 0;
+      const customDecoder = new Decoder<string>(json => {
+        calls++;
+        return ok<string>(json ?? 'none');
+      });
+      const profileDecoder = JsonDecoder.object(
+        {
+          nickname: JsonDecoder.optional(JsonDecoder.string()).map(
+            nickname => nickname ?? ''
+          ),
+          theme: JsonDecoder.withDefault(JsonDecoder.string(), 'light'),
+          custom: customDecoder
+        },
+        'Profile'
+      );
+      expect(toJsonSchema(profileDecoder)).toMatchObject({
+        required: ['custom']
+      });
+      expect(calls).toBe(0);
+    });
+
+    it('should forbid additional properties of strict objects', () => {
+      const pointDecoder = JsonDecoder.objectStrict(
+        { x: JsonDecoder.number() },
+        'Point'
+      );
+      expect(toJsonSchema(pointDecoder)).toEqual({
+        $schema,
+        type: 'object',
+        title: 'Point',
+        properties: { x: { type: 'number' } },
+        required: ['x'],
+        additionalProperties: false
+      });
+    });
+
+    it('should export arrays, records and tuples', () => {
+      expect(
+        toJsonSchema(JsonDecoder.array(JsonDecoder.string(), 'Tags'))
+      ).toEqual({
+        $schema,
+        type: 'array',
+        title: 'Tags',
+        items: { type: 'string' }
+      });
+      expect(
+        toJsonSchema(JsonDecoder.record(JsonDecoder.number(), 'Scores'))
+      ).toEqual({
+        $schema,
+        type: 'object',
+        title: 'Scores',
+        additionalProperties: { type: 'number' }
+      });
+      expect(
+        toJsonSchema(
+          JsonDecoder.tuple(
+            [JsonDecoder.number(), JsonDecoder.string()],
+            'Pair'
+          )
+        )
+      ).toEqual({
+        $schema,
+        type: 'array',
+        title: 'Pair',
+        prefixItems: [{ type: 'number' }, { type: 'string' }],
+        minItems: 2,
+        maxItems: 2
+      });
+    });
+
+    it('should export oneOf as anyOf and allOf as allOf', () => {
+      expect(
+        toJsonSchema(
+          JsonDecoder.oneOf<string | number | undefined>(
+            [
+              JsonDecoder.string(),
+              JsonDecoder.number(),
+              JsonDecoder.undefined()
+            ],
+            'Id'
+          )
+        )
+      ).toEqual({
+        $schema,
+        title: 'Id',
+        anyOf: [{ type: 'string' }, { type: 'number' }]
+      });
+      const namedDecoder = JsonDecoder.object(
+        { name: JsonDecoder.string() },
+        'Named'
+      );
+      expect(
+        toJsonSchema(JsonDecoder.allOf([namedDecoder, namedDecoder], 'Both'))
+      ).toEqual({
+        $schema,
+        title: 'Both',
+        allOf: [toJsonSchema(namedDecoder), toJsonSchema(namedDecoder)].map(
+          ({ $schema, ...schema }) => schema
+        )
+      });
+    });
+
+    it('should export recursive lazy decoders with $defs and $ref', () => {
+      type Tree = { value: number; children: Tree[] };
+      const treeDecoder: Decoder<Tree> = JsonDecoder.lazy(() =>
+        JsonDecoder.object<Tree>(
+          {
+            value: JsonDecoder.number(),
+            children: JsonDecoder.array(treeDecoder, 'Tree[]')
+          },
+          'Tree'
+        )
+      );
+      expect(toJsonSchema(treeDecoder)).toEqual({
+        $schema,
+        $ref: '#/$defs/Tree',
+        $defs: {
+          Tree: {
+            type: 'object',
+            title: 'Tree',
+            properties: {
+              value: { type: 'number' },
+              children: {
+                type: 'array',
+                title: 'Tree[]',
+                items: { $ref: '#/$defs/Tree' }
+              }
+            },
+            required: ['value', 'children']
+          }
+        }
+      });
+    });
+
+    it('should share the definition of lazy decoders of the same decoder', () => {
+      type Tree = { value: number; children: Tree[] };
+      const treeDecoder: Decoder<Tree> = JsonDecoder.object<Tree>(
+        {
+          value: JsonDecoder.number(),
+          children: JsonDecoder.array(
+            JsonDecoder.lazy(() => treeDecoder),
+            'Tree[]'
+          )
+        },
+        'Tree'
+      );
+      const schema = toJsonSchema(JsonDecoder.lazy(() => treeDecoder));
+      expect(schema.$ref).toEqual('#/$defs/Tree');
+      expect(Object.keys(schema.$defs ?? {})).toEqual(['Tree']);
+      expect(schema.$defs?.Tree).toMatchObject({
+        properties: { children: { items: { $ref: '#/$defs/Tree' } } }
+      });
+    });
+
+    it('should mark map, flatMap and custom decoders', () => {
+      const dateDecoder = JsonDecoder.string().map(str => new Date(str));
+      expect(toJsonSchema(dateDecoder)).toEqual({
+        $schema,
+        type: 'string',
+        $comment:
+          'map: the decoded value is a transformation of this JSON value'
+      });
+      const adultDecoder = JsonDecoder.number().flatMap(age =>
+        age >= 18 ? JsonDecoder.succeed() : JsonDecoder.fail('Too young')
+      );
+      expect(toJsonSchema(adultDecoder)).toEqual({
+        $schema,
+        type: 'number',
+        $comment:
+          'flatMap: the decoder applies further validation that is not described here'
+      });
+      expect(toJsonSchema(new Decoder(json => ok(json))).$comment).toEqual(
+        'custom: the decoder applies validation that is not described here'
+      );
+      expect(toJsonSchema(dateDecoder.map(date => date.getTime()))).toEqual({
+        $schema,
+        $comment:
+          'map: the decoded value is a transformation of this JSON value',
+        allOf: [
+          {
+            type: 'string',
+            $comment:
+              'map: the decoded value is a transformation of this JSON value'
+          }
+        ]
+      });
+    });
+  });
+
+  describe('fromJsonSchema', () => {
+    it('should decode types, const and enum', () => {
+      const stringDecoder = fromJsonSchema({ type: 'string' });
+      expectOkWithValue(stringDecoder.decode('hi'), 'hi');
+      expectErrWithMsg(stringDecoder.decode(1), primitiveError(1, 'string'));
+
+      const integerDecoder = fromJsonSchema({ type: 'integer' });
+      expectOkWithValue(integerDecoder.decode(2), 2);
+      expectErrWithMsg(
+        integerDecoder.decode(1.5),
+        primitiveError(1.5, 'integer')
+      );
+
+      const idDecoder = fromJsonSchema({ type: ['string', 'null'] });
+      expectOkWithValue(idDecoder.decode(null), null);
+      expectErr(idDecoder.decode(1));
+
+      const constDecoder = fromJsonSchema({ const: { a: [1] } });
+      expectOkWithValue(constDecoder.decode({ a: [1] }), { a: [1] });
+      expectErrWithMsg(
+        constDecoder.decode({ a: [2] }),
+        exactlyError({ a: [2] }, { a: [1] })
+      );
+
+      const colorDecoder = fromJsonSchema({
+        title: 'Color',
+        enum: ['red', 'blue']
+      });
+      expectOkWithValue(colorDecoder.decode('red'), 'red');
+      expectErrWithMsg(
+        colorDecoder.decode('green'),
+        enumValueError('Color', 'green')
+      );
+    });
+
+    it('should decode objects and return them unchanged', () => {
+      const userDecoder = fromJsonSchema({
+        title: 'User',
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'number' }
+        },
+        required: ['name']
+      });
+      expectOkWithValue(userDecoder.decode({ name: 'John', extra: true }), {
+        name: 'John',
+        extra: true
+      });
+      expectErrWithMsg(
+        userDecoder.decode({ name: 'John', age: '30' }),
+        objectError('User', 'age', primitiveError('30', 'number'))
+      );
+      expectErrWithMsg(
+        userDecoder.decode({}),
+        objectError('User', 'name', primitiveError(undefined, 'string'))
+      );
+      expectErrWithMsg(userDecoder.decode([]), primitiveError([], 'object'));
+    });
+
+    it('should require keys without a property schema', () => {
+      const decoder = fromJsonSchema({ required: ['id'] });
+      expectOkWithValue(decoder.decode({ id: null }), { id: null });
+      expectOkWithValue(decoder.decode('not an object'), 'not an object');
+      expectErrWithMsg(
+        decoder.decode({}),
+        objectError('#', 'id', constraintError(undefined, 'required property'))
+      );
+    });
+
+    it('should decode additionalProperties', () => {
+      const strictDecoder = fromJsonSchema({
+        title: 'Point',
+        properties: { x: { type: 'number' } },
+        additionalProperties: false
+      });
+      expectOkWithValue(strictDecoder.decode({ x: 1 }), { x: 1 });
+      expectErrWithMsg(
+        strictDecoder.decode({ x: 1, y: 2 }),
+        objectStrictUnknownKeyError('Point', 'y')
+      );
+
+      const scoresDecoder = fromJsonSchema({
+        title: 'Scores',
+        properties: { name: { type: 'string' } },
+        additionalProperties: { type: 'number' }
+      });
+      expectOkWithValue(scoresDecoder.decode({ name: 'a', math: 1 }), {
+        name: 'a',
+        math: 1
+      });
+      expectErrWithMsg(
+        scoresDecoder.decode({ name: 'a', math: '1' }),
+        recordError('Scores', 'math', primitiveError('1', 'number'))
+      );
+    });
+
+    it('should decode items and prefixItems', () => {
+      const tagsDecoder = fromJsonSchema({
+        title: 'Tags',
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1
+      });
+      expectOkWithValue(tagsDecoder.decode(['a']), ['a']);
+      expectErrWithMsg(
+        tagsDecoder.decode(['a', 1]),
+        arrayError('Tags', 1, primitiveError(1, 'string'))
+      );
+      expectErrWithMsg(
+        tagsDecoder.decode([]),
+        constraintError([], 'array with at least 1 items')
+      );
+
+      const pairDecoder = fromJsonSchema({
+        title: 'Pair',
+        prefixItems: [{ type: 'number' }, { type: 'string' }],
+        items: false
+      });
+      expectOkWithValue(pairDecoder.decode([1, 'a']), [1, 'a']);
+      expectErrWithMsg(
+        pairDecoder.decode([1, 2]),
+        arrayError('Pair', 1, primitiveError(2, 'string'))
+      );
+      expectErrWithMsg(
+        pairDecoder.decode([1, 'a', true]),
+        arrayError(
+          'Pair',
+          2,
+          constraintError(true, 'value, the schema at #/items is false')
+        )
+      );
+    });
+
+    it('should decode anyOf, oneOf, allOf and not', () => {
+      const anyOfDecoder = fromJsonSchema({
+        title: 'Id',
+        anyOf: [{ type: 'string' }, { type: 'number' }]
+      });
+      expectOkWithValue(anyOfDecoder.decode(1), 1);
+      expectErrWithMsg(
+        anyOfDecoder.decode(true),
+        oneOfErrors('Id', true, [
+          primitiveError(true, 'string'),
+          primitiveError(true, 'number')
+        ])
+      );
+
+      const oneOfDecoder = fromJsonSchema({
+        title: 'Exclusive',
+        oneOf: [{ type: 'number' }, { minimum: 10 }]
+      });
+      expectOkWithValue(oneOfDecoder.decode(5), 5);
+      expectOkWithValue(oneOfDecoder.decode('a'), 'a');
+      expectErrWithMsg(
+        oneOfDecoder.decode(20),
+        constraintError(
+          20,
+          'value for exactly one of the <Exclusive> oneOf schemas'
+        )
+      );
+
+      const allOfDecoder = fromJsonSchema({
+        title: 'Range',
+        allOf: [{ type: 'number' }, { minimum: 0 }]
+      });
+      expectOkWithValue(allOfDecoder.decode(1), 1);
+      expectErrWithMsg(
+        allOfDecoder.decode(-1),
+        allOfError('Range', 1, constraintError(-1, 'number >= 0'))
+      );
+
+      const notDecoder = fromJsonSchema({ not: { type: 'null' } });
+      expectOkWithValue(notDecoder.decode(1), 1);
+      expectErrWithMsg(
+        notDecoder.decode(null),
+        constraintError(null, 'value, it matches the schema at #/not')
+      );
+    });
+
+    it('should check string and number constraints', () => {
+      const nameDecoder = fromJsonSchema({
+        type: 'string',
+        minLength: 2,
+        maxLength: 3,
+        pattern: '^[a-z]+$'
+      });
+      expectOkWithValue(nameDecoder.decode('ab'), 'ab');
+      expectErrWithMsg(
+        nameDecoder.decode('a'),
+        constraintError('a', 'string with at least 2 characters')
+      );
+      expectErrWithMsg(
+        nameDecoder.decode('abcd'),
+        constraintError('abcd', 'string with at most 3 characters')
+      );
+      expectErrWithMsg(
+        nameDecoder.decode('AB'),
+        constraintError('AB', 'string matching /^[a-z]+$/')
+      );
+      expectOkWithValue(fromJsonSchema({ maxLength: 1 }).decode('😀'), '😀');
+
+      const priceDecoder = fromJsonSchema({
+        type: 'number',
+        exclusiveMinimum: 0,
+        maximum: 100,
+        multipleOf: 0.01
+      });
+      expectOkWithValue(priceDecoder.decode(0.3), 0.3);
+      expectErrWithMsg(
+        priceDecoder.decode(0),
+        constraintError(0, 'number > 0')
+      );
+      expectErrWithMsg(
+        priceDecoder.decode(101),
+        constraintError(101, 'number <= 100')
+      );
+      expectErrWithMsg(
+        priceDecoder.decode(0.001),
+        constraintError(0.001, 'multiple of 0.01')
+      );
+      expectOkWithValue(
+        fromJsonSchema({ minimum: 1 }).decode('not a number'),
+        'not a number'
+      );
+    });
+
+    it('should decode recursive schemas with $ref and $defs', () => {
+      const treeDecoder = fromJsonSchema({
+        $ref: '#/$defs/Tree',
+        $defs: {
+          Tree: {
+            title: 'Tree',
+            type: 'object',
+            properties: {
+              value: { type: 'number' },
+              children: { type: 'array', items: { $ref: '#/$defs/Tree' } }
+            },
+            required: ['value']
+          }
+        }
+      });
+      const tree = { value: 1, children: [{ value: 2, children: [] }] };
+      expectOkWithValue(treeDecoder.decode(tree), tree);
+      expectErrWithMsg(
+        treeDecoder.decode({ value: 1, children: [{ value: '2' }] }),
+        objectError(
+          'Tree',
+          'children',
+          arrayError(
+            '#/$defs/Tree/properties/children',
+            0,
+            objectError('Tree', 'value', primitiveError('2', 'number'))
+          )
+        )
+      );
+    });
+
+    it('should decode the schemas exported by toJsonSchema', () => {
+      type Tree = { value: number; children?: Tree[] };
+      const treeDecoder: Decoder<Tree> = JsonDecoder.lazy(() =>
+        JsonDecoder.objectStrict<Tree>(
+          {
+            value: JsonDecoder.number(),
+            children: JsonDecoder.optional(
+              JsonDecoder.array(treeDecoder, 'Tree[]')
+            )
+          },
+          'Tree'
+        )
+      );
+      const decoder = fromJsonSchema(toJsonSchema(treeDecoder));
+      const tree = { value: 1, children: [{ value: 2 }] };
+      expectOkWithValue(decoder.decode(tree), tree);
+      expect(
+        decoder.decode({ value: 1, children: [{ value: 2, x: 1 }] })
+      ).toEqual(
+        treeDecoder.decode({ value: 1, children: [{ value: 2, x: 1 }] })
+      );
+    });
+
+    it('should check the string formats', () => {
+      const decoder = fromJsonSchema({
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          website: { format: 'uri' },
+          avatar: { type: 'string', contentEncoding: 'base64' }
+        }
+      });
+      const user = {
+        email: 'john@example.com',
+        website: 'https://example.com',
+        avatar: 'aGk='
+      };
+      expectOkWithValue(decoder.decode(user), user);
+      expectOkWithValue(decoder.decode({ website: 42 }), { website: 42 });
+      expectOkWithValue(
+        decoder.decode({ ...user, website: 'mailto:john@example.com' }),
+        { ...user, website: 'mailto:john@example.com' }
+      );
+      expectErrWithMsg(
+        decoder.decode({ ...user, website: 'example.com' }),
+        objectError('#', 'website', constraintError('example.com', 'URI'))
+      );
+      expectErrWithMsg(
+        decoder.decode({ ...user, avatar: 'aGk' }),
+        objectError('#', 'avatar', constraintError('aGk', 'base64 string'))
+      );
+    });
+
+    it('should report all unsupported keywords up front', () => {
+      expect(() =>
+        fromJsonSchema({
+          type: 'object',
+          properties: {
+            card: { type: 'string', format: 'credit-card' },
+            friend: { $ref: 'https://example.com/user.json' }
+          },
+          patternProperties: { '^x-': true }
+        })
+      ).toThrow(
+        'Unsupported JSON Schema keywords: "patternProperties" at #, "format" "credit-card" at #/properties/card, ' +
+          '"$ref" to "https://example.com/user.json" at #/properties/friend, only references inside the document are supported'
+      );
+    });
+  });
+
+  describe('toTypeScript', () => {
+    enum Role {
+      Admin = 'admin',
+      User = 'user'
+    }
+
+    it('should print objects as interfaces with optional fields', () => {
+      const userDecoder = JsonDecoder.object(
+        {
+          name: { fromKey: 'user_name', decoder: JsonDecoder.string() },
+          age: JsonDecoder.optional(JsonDecoder.number()),
+          email: JsonDecoder.nullable(JsonDecoder.string()),
+          roles: JsonDecoder.array(
+            JsonDecoder.enumeration<Role>(Role, 'Role'),
+            'Role[]'
+          ),
+          'created-at': JsonDecoder.string().map(str => new Date(str))
+        },
+        'User'
+      );
+      expect(toTypeScript(userDecoder)).toEqual(
+        [
+          'export interface User {',
+          '  name: string;',
+          '  age?: number;',
+          '  email: string | null;',
+          '  roles: Role[];',
+          '  "created-at": unknown;',
+          '}',
+          '',
+          'export type Role = "admin" | "user";',
+          ''
+        ].join('\n')
+      );
+    });
+    it('should rename types named like reserved words or built-in types', () => {
+      const dateDecoder = JsonDecoder.object(
+        { iso: JsonDecoder.string() },
+        'Date'
+      );
+      expect(
+        toTypeScript(
+          JsonDecoder.object(
+            { at: dateDecoder, when: JsonDecoder.isoDate() },
+            'default'
+          )
+        )
+      ).toEqual(
+        [
+          'export interface default2 {',
+          '  at: Date2;',
+          '  when: Date;',
+          '}',
+          '',
+          'export interface Date2 {',
+          '  iso: string;',
+          '}',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should inline decoders whose name is not an identifier', () => {
+      const pointDecoder = JsonDecoder.object(
+        {
+          coords: JsonDecoder.tuple(
+            [JsonDecoder.number(), JsonDecoder.number()],
+            '[number, number]'
+          ),
+          meta: JsonDecoder.object(
+            {
+              tags: JsonDecoder.record(JsonDecoder.string(), 'tags'),
+              label: JsonDecoder.oneOf<string | number>(
+                [JsonDecoder.string(), JsonDecoder.number()],
+                'string | number'
+              )
+            },
+            '{tags, label}'
+          )
+        },
+        'Point'
+      );
+      expect(toTypeScript(pointDecoder)).toEqual(
+        [
+          'export interface Point {',
+          '  coords: [number, number];',
+          '  meta: {',
+          '    tags: tags;',
+          '    label: string | number;',
+          '  };',
+          '}',
+          '',
+          'export type tags = Record<string, string>;',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should name the root type when it has no identifier name', () => {
+      const idsDecoder = JsonDecoder.array(
+        JsonDecoder.oneOf<string | number>(
+          [JsonDecoder.string(), JsonDecoder.number()],
+          'Id'
+        ),
+        'Id[]'
+      );
+      expect(toTypeScript(idsDecoder, { rootName: 'Ids' })).toEqual(
+        'export type Ids = Id[];\n\nexport type Id = string | number;\n'
+      );
+      expect(
+        toTypeScript(
+          JsonDecoder.array(
+            JsonDecoder.oneOf<string | null>(
+              [JsonDecoder.string(), JsonDecoder.null()],
+              'string | null'
+            ),
+            'strings'
+          )
+        )
+      ).toEqual('export type strings = (string | null)[];\n');
+      expect(toTypeScript(JsonDecoder.literal('on'))).toEqual(
+        'export type Root = "on";\n'
+      );
+    });
+
+    it('should print recursive lazy decoders by name', () => {
+      type Tree = { value: number; children?: Tree[] };
+      const treeDecoder: Decoder<Tree> = JsonDecoder.lazy(() =>
+        JsonDecoder.object<Tree>(
+          {
+            value: JsonDecoder.number(),
+            children: JsonDecoder.optional(
+              JsonDecoder.array(treeDecoder, 'Tree[]')
+            )
+          },
+          'Tree'
+        )
+      );
+      expect(toTypeScript(treeDecoder)).toEqual(
+        [
+          'export interface Tree {',
+          '  value: number;',
+          '  children?: Tree[];',
+          '}',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should print unions and intersections', () => {
+      const shapeDecoder = JsonDecoder.discriminatedUnion(
+        'type',
+        {
+          circle: JsonDecoder.object(
+            {
+              type: JsonDecoder.literal('circle'),
+              radius: JsonDecoder.number()
+            },
+            'Circle'
+          ),
+          square: JsonDecoder.object(
+            { type: JsonDecoder.literal('square'), side: JsonDecoder.number() },
+            'Square'
+          )
+        },
+        'Shape'
+      );
+      const namedDecoder = JsonDecoder.object(
+        { name: JsonDecoder.string() },
+        'Named'
+      );
+      const namedShapeDecoder = JsonDecoder.allOf(
+        [namedDecoder, shapeDecoder],
+        'NamedShape'
+      );
+      expect(toTypeScript(namedShapeDecoder)).toEqual(
+        [
+          'export type NamedShape = Named & Shape;',
+          '',
+          'export interface Named {',
+          '  name: string;',
+          '}',
+          '',
+          'export type Shape = Circle | Square;',
+          '',
+          'export interface Circle {',
+          '  type: "circle";',
+          '  radius: number;',
+          '}',
+          '',
+          'export interface Square {',
+          '  type: "square";',
+          '  side: number;',
+          '}',
+          ''
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('generate', () => {
+    enum Role {
+      Admin = 'admin',
+      User = 'user'
+    }
+    const shapeDecoder = JsonDecoder.discriminatedUnion(
+      'type',
+      {
+        circle: JsonDecoder.object(
+          { type: JsonDecoder.literal('circle'), radius: JsonDecoder.number() },
+          'Circle'
+        ),
+        square: JsonDecoder.object(
+          { type: JsonDecoder.literal('square'), side: JsonDecoder.number() },
+          'Square'
+        )
+      },
+      'Shape'
+    );
+    const userDecoder = JsonDecoder.objectStrict(
+      {
+        name: { fromKey: 'user_name', decoder: JsonDecoder.string() },
+        age: JsonDecoder.optional(JsonDecoder.number()),
+        email: JsonDecoder.nullable(JsonDecoder.string()),
+        admin: JsonDecoder.boolean(),
+        role: JsonDecoder.enumeration<Role>(Role, 'Role'),
+        version: JsonDecoder.literal(2),
+        tags: JsonDecoder.array(JsonDecoder.string(), 'string[]'),
+        scores: JsonDecoder.record(JsonDecoder.number(), 'Scores'),
+        position: JsonDecoder.tuple(
+          [JsonDecoder.number(), JsonDecoder.number()],
+          'Position'
+        ),
+        id: JsonDecoder.oneOf<string | number>(
+          [JsonDecoder.string(), JsonDecoder.number()],
+          'Id'
+        ),
+        shape: shapeDecoder,
+        audit: JsonDecoder.allOf(
+          [
+            JsonDecoder.object({ createdBy: JsonDecoder.string() }, 'Created'),
+            JsonDecoder.object({ updatedBy: JsonDecoder.string() }, 'Updated')
+          ],
+          'Audit'
+        )
+      },
+      'User'
+    );
+    const seeds = Array.from({ length: 50 }, (_, seed) => seed);
+
+    it('should generate the same sample for the same seed', () => {
+      expect(generate(userDecoder, { seed: 7 })).toEqual(
+        generate(userDecoder, { seed: 7 })
+      );
+      const samples = seeds.map(seed =>
+        JSON.stringify(generate(userDecoder, { seed }))
+      );
+      expect(new Set(samples).size).toBe(seeds.length);
+    });
+
+    it('should generate JSON samples that the decoder accepts', () => {
+      for (const seed of seeds) {
+        const sample = generate(userDecoder, { seed });
+        expect(userDecoder.decode(sample).isOk()).toBe(true);
+        expect(sample).toHaveProperty('user_name');
+      }
+    });
+
+    it('should generate samples that pass flatMap refinements', () => {
+      const evenDecoder = JsonDecoder.number().flatMap(n =>
+        Number.isInteger(n) && n % 2 === 0
+          ? JsonDecoder.succeed()
+          : JsonDecoder.fail<number>(`${n} is odd`)
+      );
+      for (const seed of seeds) {
+        expect(evenDecoder.decode(generate(evenDecoder, { seed })).isOk()).toBe(
+          true
+        );
+      }
+    });
+
+    it('should bound the depth of lazy decoders', () => {
+      type Tree = { value: number; children?: Tree[] };
+      const treeDecoder: Decoder<Tree> = JsonDecoder.lazy(() =>
+        JsonDecoder.object<Tree>(
+          {
+            value: JsonDecoder.number(),
+            children: JsonDecoder.optional(
+              JsonDecoder.array(treeDecoder, 'Tree[]')
+            )
+          },
+          'Tree'
+        )
+      );
+      const depth = (tree: Tree): number =>
+        1 + Math.max(0, ...(tree.children ?? []).map(depth));
+      for (const seed of seeds) {
+        const sample = generate(treeDecoder, { seed, maxDepth: 2 });
+        expect(treeDecoder.decode(sample).isOk()).toBe(true);
+        expect(depth(sample as Tree)).toBeLessThanOrEqual(2);
+      }
+    });
+
+    it('should end the recursion with the first oneOf decoder that can', () => {
+      type List = { head: number; tail: List | null } | 'nil';
+      const listDecoder: Decoder<List> = JsonDecoder.lazy(() =>
+        JsonDecoder.oneOf<List>(
+          [
+            JsonDecoder.object(
+              {
+                head: JsonDecoder.number(),
+                tail: JsonDecoder.oneOf(
+                  [listDecoder, JsonDecoder.null()],
+                  'Tail'
+                )
+              },
+              'Cons'
+            ),
+            JsonDecoder.literal('nil')
+          ],
+          'List'
+        )
+      );
+      for (const seed of seeds) {
+        const sample = generate(listDecoder, { seed, maxDepth: 1 });
+        expect(listDecoder.decode(sample).isOk()).toBe(true);
+      }
+    });
+
+    it('should throw when the recursion can not be bounded', () => {
+      type Loop = { next: Loop };
+      const loopDecoder: Decoder<Loop> = JsonDecoder.lazy(() =>
+        JsonDecoder.object<Loop>({ next: loopDecoder }, 'Loop')
+      );
+      expect(() => generate(loopDecoder)).toThrow(
+        `Couldn't generate a sample: the recursion of lazy decoders can't be bounded`
+      );
+    });
+
+    it('should generate near-miss samples that the decoder rejects', () => {
+      for (const seed of seeds) {
+        const sample = generate(userDecoder, { seed, invalid: true });
+        expect(userDecoder.decode(sample).isOk()).toBe(false);
+      }
+      const primitives = [
+        JsonDecoder.string(),
+        JsonDecoder.number(),
+        JsonDecoder.boolean(),
+        JsonDecoder.null(),
+        JsonDecoder.undefined(),
+        JsonDecoder.literal('a'),
+        JsonDecoder.enumeration<Role>(Role, 'Role'),
+        JsonDecoder.emptyObject()
+      ];
+      for (const decoder of primitives) {
+        for (const seed of seeds.slice(0, 10)) {
+          const sample = generate(decoder, { seed, invalid: true });
+          expect(decoder.decode(sample).isOk()).toBe(false);
+        }
+      }
+    });
+
+    it('should generate strings that meet their constraints', () => {
+      const decoders = [
+        JsonDecoder.string({ nonEmpty: true, maxLength: 3 }),
+        JsonDecoder.string({ length: 12, startsWith: 'ab', endsWith: 'yz' }),
+        ...(
+          [
+            'email',
+            'uuid',
+            'url',
+            'uri',
+            'hostname',
+            'ipv4',
+            'ipv6',
+            'date',
+            'date-time',
+            'base64'
+          ] as const
+        ).map(format => JsonDecoder.string({ format }))
+      ];
+      for (const decoder of decoders) {
+        for (const seed of seeds.slice(0, 20)) {
+          expect(decoder.decode(generate(decoder, { seed })).isOk()).toBe(true);
+          expect(
+            decoder.decode(generate(decoder, { seed, invalid: true })).isOk()
+          ).toBe(false);
+        }
+      }
+    });
+
+    it('should generate numbers that meet their constraints', () => {
+      const decoders = [
+        JsonDecoder.number(JsonDecoder.numberPresets.port),
+        JsonDecoder.number(JsonDecoder.numberPresets.percentage),
+        JsonDecoder.number({ positive: true, integer: true }),
+        JsonDecoder.number({ safeInteger: true, max: -10 }),
+        JsonDecoder.number({ exclusiveMin: 1, exclusiveMax: 2 }),
+        JsonDecoder.number({ multipleOf: 0.5, min: 3, max: 5 })
+      ];
+      for (const decoder of decoders) {
+        for (const seed of seeds.slice(0, 20)) {
+          expect(decoder.decode(generate(decoder, { seed })).isOk()).toBe(true);
+          expect(
+            decoder.decode(generate(decoder, { seed, invalid: true })).isOk()
+          ).toBe(false);
+        }
+      }
+    });
+
+    it('should throw when no sample can be generated', () => {
+      expect(() => generate(JsonDecoder.fail('nope'))).toThrow(
+        `Couldn't generate a sample: the decoder always fails with "nope"`
+      );
+      expect(() => generate(JsonDecoder.succeed(), { invalid: true })).toThrow(
+        `Couldn't generate an invalid sample: succeed decoders accept every value`
+      );
+      const impossibleDecoder = JsonDecoder.string().flatMap(() =>
+        JsonDecoder.fail<string>('never')
+      );
+      expect(() => generate(impossibleDecoder)).toThrow(
+        `Couldn't generate a valid sample in 100 attempts`
+      );
+    });
+  });
+
+  describe('DecodeError', () => {
+    const userDecoder = JsonDecoder.object(
+      {
+        name: JsonDecoder.string(),
+        role: {
+          fromKey: 'user_role',
+          decoder: JsonDecoder.enumeration(
+            { Admin: 'admin', User: 'user' },
+            'Role'
+          )
+        }
+      },
+      'User'
+    );
+    const usersDecoder = JsonDecoder.record(
+      JsonDecoder.array(userDecoder, 'User[]'),
+      'Dict<User[]>'
+    );
+
+    it('should describe a nested failure as a tree', () => {
+      const json = { admins: [{ name: 'John', user_role: 'root' }] };
+      const result = usersDecoder.decode(json);
+      expectErr(result);
+      const error = (result as Err<unknown>).error;
+      expect(error).toEqual({
+        kind: 'record',
+        path: [],
+        expected: 'Dict<User[]>',
+        received: json,
+        message: recordError(
+          'Dict<User[]>',
+          'admins',
+          arrayError(
+            'User[]',
+            0,
+            objectError('User', 'role', enumValueError('Role', 'root'))
+          )
+        ),
+        causes: [
+          {
+            kind: 'array',
+            path: ['admins'],
+            expected: 'User[]',
+            received: json.admins,
+            message: arrayError(
+              'User[]',
+              0,
+              objectError('User', 'role', enumValueError('Role', 'root'))
+            ),
+            causes: [
+              {
+                kind: 'object',
+                path: ['admins', 0],
+                expected: 'User',
+                received: json.admins[0],
+                message: objectError(
+                  'User',
+                  'role',
+                  enumValueError('Role', 'root')
+                ),
+                causes: [
+                  {
+                    kind: 'enum',
+                    path: ['admins', 0, 'user_role'],
+                    expected: 'Role',
+                    received: 'root',
+                    message: enumValueError('Role', 'root'),
+                    causes: []
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      });
+    });
+
+    it('should locate unknown keys and tuple length mismatches', () => {
+      const strictDecoder = JsonDecoder.objectStrict(
+        { point: JsonDecoder.tuple([JsonDecoder.number()], '[number]') },
+        'Strict'
+      );
+      const unknownKey = strictDecoder.decode({ point: [1], extra: true });
+      expect((unknownKey as Err<unknown>).error).toMatchObject({
+        kind: 'unknown-key',
+        path: ['extra'],
+        expected: 'Strict',
+        received: true
+      });
+      const lengthMismatch = strictDecoder.decode({ point: [1, 2] });
+      expect((lengthMismatch as Err<unknown>).error.causes[0]).toMatchObject({
+        kind: 'tuple-length',
+        path: ['point'],
+        expected: '[number]',
+        received: [1, 2]
+      });
+    });
+
+    it('should keep the cause of allOf failures at the same path', () => {
+      const decoder = JsonDecoder.allOf(
+        [
+          JsonDecoder.object({ a: JsonDecoder.number() }, 'A'),
+          JsonDecoder.object({ b: JsonDecoder.literal(true) }, 'B')
+        ],
+        'AB'
+      );
+      const error = (decoder.decode({ a: 1, b: false }) as Err<unknown>).error;
+      expect(error.kind).toEqual('all-of');
+      expect(error.causes[0]).toMatchObject({ kind: 'object', path: [] });
+      expect(error.causes[0].causes[0]).toMatchObject({
+        kind: 'literal',
+        path: ['b'],
+        expected: 'true',
+        received: false
+      });
+    });
+
+    it('should wrap custom error messages', () => {
+      const decoder = JsonDecoder.array(JsonDecoder.fail('Nope'), 'Nope[]');
+      const error = (decoder.decode([1]) as Err<unknown>).error;
+      expect(error.causes[0]).toEqual({
+        kind: 'custom',
+        path: [0],
+        message: 'Nope',
+        causes: []
+      });
+    });
+
+    it('should accept structured errors from custom decoders', () => {
+      const evenDecoder = new Decoder<number>(json =>
+        typeof json === 'number' && json % 2 === 0
+          ? ok(json)
+          : err(
+              decodeError({
+                kind: 'custom',
+                expected: 'even number',
+                received: json,
+                message: `${json} is not an even number`
+              })
+            )
+      );
+      const error = (
+        JsonDecoder.object({ n: evenDecoder }, 'N').decode({
+          n: 3
+        }) as Err<unknown>
+      ).error;
+      expect(error.message).toEqual(
+        objectError('N', 'n', '3 is not an even number')
+      );
+      expect(error.causes[0]).toMatchObject({
+        kind: 'custom',
+        path: ['n'],
+        expected: 'even number',
+        received: 3
+      });
+    });
+
+    it('should locate the failures of deeply nested values', () => {
+      type Nested = { child?: Nested; value: number };
+      const nestedDecoder: Decoder<Nested> = JsonDecoder.object(
+        {
+          child: JsonDecoder.optional(JsonDecoder.lazy(() => nestedDecoder)),
+          value: JsonDecoder.number()
+        },
+        'Nested'
+      );
+      const depth = 500;
+      let json: unknown = { value: 'deepest' };
+      for (let i = 0; i < depth; i++) {
+        json = { child: json, value: i };
+      }
+      let error = (nestedDecoder.decode(json) as Err<unknown>).error;
+      for (let i = 0; i <= depth; i++) {
+        expect(error.path).toHaveLength(i);
+        error = error.causes[0];
+      }
+      expect(error.path).toEqual([
+        ...Array.from({ length: depth }, () => 'child'),
+        'value'
+      ]);
+      expect(error).toMatchObject({ kind: 'primitive', received: 'deepest' });
+    });
+  });
+
+  describe('allErrors', () => {
+    const userDecoder = JsonDecoder.object(
+      {
+        name: JsonDecoder.string(),
+        age: { fromKey: 'user_age', decoder: JsonDecoder.number() },
+        tags: JsonDecoder.array(JsonDecoder.string(), 'string[]')
+      },
+      'User'
+    );
+    const invalidUser = { name: 1, user_age: '2', tags: ['a', 3, 4] };
+
+    it('should stop at the first failure by default', () => {
+      const error = (userDecoder.decode(invalidUser) as Err<unknown>).error;
+      expect(error.causes).toHaveLength(1);
+      expect(error.message).toEqual(
+        objectError('User', 'name', primitiveError(1, 'string'))
+      );
+    });
+
+    it('should report every failure of an object', () => {
+      const error = (
+        userDecoder.decode(invalidUser, { allErrors: true }) as Err<unknown>
+      ).error;
+      expect(error.kind).toEqual('object');
+      expect(error.causes.map(cause => cause.path)).toEqual([
+        ['name'],
+        ['user_age'],
+        ['tags']
+      ]);
+      expect(error.causes[2].causes.map(cause => cause.path)).toEqual([
+        ['tags', 1],
+        ['tags', 2]
+      ]);
+      expect(error.message).toEqual(
+        objectErrors('User', [
+          ['name', primitiveError(1, 'string')],
+          ['age', primitiveError('2', 'number')],
+          [
+            'tags',
+            arrayErrors('string[]', [
+              [1, primitiveError(3, 'string')],
+              [2, primitiveError(4, 'string')]
+            ])
+          ]
+        ])
+      );
+      expect(error.message).toEqual(
+        [
+          '<User> decoder failed with 3 errors:',
+          '  - at key "name": 1 is not a valid string',
+          '  - at key "age": "2" is not a valid number',
+          '  - at key "tags": <string[]> decoder failed with 2 errors:',
+          '      - at index "1": 3 is not a valid string',
+          '      - at index "2": 4 is not a valid string'
+        ].join('\n')
+      );
+    });
+
+    it('should report a single failure like the default mode', () => {
+      const user = { ...invalidUser, name: 'John', tags: [] };
+      expect(userDecoder.decode(user, { allErrors: true })).toEqual(
+        userDecoder.decode(user)
+      );
+    });
+
+    it('should report every unknown key and failure of a strict object', () => {
+      const strictDecoder = JsonDecoder.objectStrict(
+        { a: JsonDecoder.number(), b: JsonDecoder.number() },
+        'Strict'
+      );
+      expect(
+        strictDecoder.decode({ a: 1, b: 2, c: 3 }, { allErrors: true })
+      ).toEqual(strictDecoder.decode({ a: 1, b: 2, c: 3 }));
+      const error = (
+        strictDecoder.decode(
+          { a: '1', c: 3, d: 4 },
+          {
+            allErrors: true
+          }
+        ) as Err<unknown>
+      ).error;
+      expect(error.causes.map(cause => [cause.kind, cause.path])).toEqual([
+        ['unknown-key', ['c']],
+        ['unknown-key', ['d']],
+        ['primitive', ['a']],
+        ['primitive', ['b']]
+      ]);
+    });
+
+    it('should report every failure of a record and a tuple', () => {
+      const dictError = (
+        JsonDecoder.record(JsonDecoder.number(), 'Dict<number>').decode(
+          { a: 'x', b: 2, c: 'z' },
+          { allErrors: true }
+        ) as Err<unknown>
+      ).error;
+      expect(dictError.message).toEqual(
+        recordErrors('Dict<number>', [
+          ['a', primitiveError('x', 'number')],
+          ['c', primitiveError('z', 'number')]
+        ])
+      );
+      const tupleError = (
+        JsonDecoder.tuple(
+          [JsonDecoder.number(), JsonDecoder.string()],
+          '[number, string]'
+        ).decode(['1', 2], { allErrors: true }) as Err<unknown>
+      ).error;
+      expect(tupleError.kind).toEqual('tuple');
+      expect(tupleError.causes.map(cause => cause.path)).toEqual([[0], [1]]);
+    });
+
+    it('should report every failing allOf decoder', () => {
+      const decoder = JsonDecoder.allOf(
+        [
+          JsonDecoder.object({ a: JsonDecoder.number() }, 'A'),
+          JsonDecoder.object({ b: JsonDecoder.number() }, 'B')
+        ],
+        'AB'
+      );
+      const error = (decoder.decode({}, { allErrors: true }) as Err<unknown>)
+        .error;
+      expect(error.message).toEqual(
+        allOfErrors('AB', [
+          [0, objectError('A', 'a', primitiveError(undefined, 'number'))],
+          [1, objectError('B', 'b', primitiveError(undefined, 'number'))]
+        ])
+      );
+    });
+
+    it('should pass the options through transformations and parse', () => {
+      const decoder = JsonDecoder.lazy(() =>
+        JsonDecoder.nullable(userDecoder.map(user => user.name))
+      );
+      expect(() => decoder.parse(invalidUser, { allErrors: true })).toThrow(
+        '<User> decoder failed with 3 errors:'
+      );
+    });
+  });
+
+  describe('environment configuration', () => {
+    const spec = {
+      PORT: env.port(),
+      DATABASE_URL: env.url(),
+      FEATURE_X: env.boolean().default(false),
+      logLevel: env.string().optional(),
+      db: env.group({
+        host: env.string(),
+        poolSize: env.number({ integer: true, min: 1 }).default(10)
+      })
+    };
+    const configDecoder = envDecoder(spec);
+
+    it('should decode variables into a typed configuration', () => {
+      type Config = FromDecoder<typeof configDecoder>;
+      type ConfigTest = Expect<
+        Equal<
+          Config,
+          {
+            PORT: number;
+            DATABASE_URL: string;
+            FEATURE_X: boolean;
+            logLevel?: string | undefined;
+            db: { host: string; poolSize: number };
+          }
+        >
+      >;
+      const result = configDecoder.decode({
+        PORT: '8080',
+        DATABASE_URL: 'postgres://localhost:5432/app',
+        LOG_LEVEL: 'debug',
+        DB_HOST: 'localhost',
+        DB_POOL_SIZE: '5',
+        HOME: '/root'
+      });
+      expect((result as Ok<Config>).value).toStrictEqual({
+        PORT: 8080,
+        DATABASE_URL: 'postgres://localhost:5432/app',
+        FEATURE_X: false,
+        logLevel: 'debug',
+        db: { host: 'localhost', poolSize: 5 }
+      });
+    });
+    it('should leave missing optional variables out', () => {
+      const result = configDecoder.decode({
+        PORT: '8080',
+        DATABASE_URL: 'postgres://localhost:5432/app',
+        FEATURE_X: '1',
+        LOG_LEVEL: '',
+        DB_HOST: 'localhost'
+      });
+      expect((result as Ok<unknown>).value).toStrictEqual({
+        PORT: 8080,
+        DATABASE_URL: 'postgres://localhost:5432/app',
+        FEATURE_X: true,
+        db: { host: 'localhost', poolSize: 10 }
+      });
+    });
+    it('should decode groups whose variables are all missing', () => {
+      const decoder = envDecoder({
+        db: env.group({
+          host: env.string().optional(),
+          replica: env.group({ host: env.string().optional() })
+        })
+      });
+      expect((decoder.decode({}) as Ok<unknown>).value).toStrictEqual({
+        db: { replica: {} }
+      });
+    });
+    it('should report all the missing and invalid variables', () => {
+      const result = configDecoder.decode({
+        PORT: '99999',
+        FEATURE_X: 'yes',
+        DB_HOST: ''
+      });
+      expectErrWithMsg(
+        result,
+        envError([
+          ['PORT', constraintError('99999', 'number <= 65535')],
+          ['DATABASE_URL', undefined],
+          ['FEATURE_X', coercionError('yes', 'boolean')],
+          ['DB_HOST', undefined]
+        ])
+      );
+      expect(
+        (result as Err<unknown>).error.causes.map(cause => cause.path)
+      ).toEqual([['PORT'], ['DATABASE_URL'], ['FEATURE_X'], ['DB_HOST']]);
+      expect(envError([['PORT', undefined]])).toBe(
+        'Invalid environment configuration, 1 variable is missing or invalid:\n  - PORT is missing'
+      );
+    });
+    it('should fail if the environment is not an object', () => {
+      expectErrWithMsg(
+        configDecoder.decode(undefined),
+        primitiveError(undefined, 'environment')
+      );
+    });
+    it('should read variables with prefixes', () => {
+      const decoder = envDecoder(
+        {
+          port: env.port(),
+          cache: env.group({ url: env.url() }, 'REDIS_'),
+          date: JsonDecoder.coerce.date()
+        },
+        { prefix: 'APP_' }
+      );
+      expectOkWithValue(
+        decoder.decode({
+          APP_PORT: '80',
+          APP_REDIS_URL: 'redis://cache',
+          APP_DATE: '2024-02-29',
+          PORT: '1'
+        }),
+        {
+          port: 80,
+          cache: { url: 'redis://cache' },
+          date: new Date('2024-02-29')
+        }
+      );
+      expectErrWithMsg(
+        decoder.decode({ PORT: '80' }),
+        envError([
+          ['APP_PORT', undefined],
+          ['APP_REDIS_URL', undefined],
+          ['APP_DATE', undefined]
+        ])
+      );
+    });
+    it('should throw if two entries read the same variable', () => {
+      expect(() =>
+        envDecoder({ dbHost: env.string(), db: env.group({ host: env.url() }) })
+      ).toThrow(
+        'The environment variable DB_HOST is read by both dbHost and db.host'
+      );
+    });
+    it('should load the configuration or throw the banner', () => {
+      expect(
+        loadEnv(
+          { port: env.port() },
+          { prefix: 'APP_', source: { APP_PORT: '3000' } }
+        )
+      ).toStrictEqual({ port: 3000 });
+      expect(() => loadEnv(spec, { source: {} })).toThrow(
+        envError([
+          ['PORT', undefined],
+          ['DATABASE_URL', undefined],
+          ['DB_HOST', undefined]
+        ])
+      );
+      process.env.TS_DATA_JSON_TEST_PORT = '4000';
+      expect(loadEnv({ tsDataJsonTestPort: env.port() })).toStrictEqual({
+        tsDataJsonTestPort: 4000
+      });
+      delete process.env.TS_DATA_JSON_TEST_PORT;
+    });
+  });
+
+  describe('AsyncDecoder', () => {
+    const takenUsernames = new Set(['ada']);
+    const isAvailable = async (username: string) =>
+      !takenUsernames.has(username);
+    const usernameDecoder = JsonDecoder.string().refineAsync(
+      isAvailable,
+      username => `${username} is already taken`
+    );
+
+    /**
+     * An async check that counts how many of its calls run at the same time.
+     */
+    const trackedCheck = () => {
+      const stats = { running: 0, maxRunning: 0, calls: 0 };
+      const check = async (value: number) => {
+        stats.calls++;
+        stats.running++;
+        stats.maxRunning = Math.max(stats.maxRunning, stats.running);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        stats.running--;
+        return value >= 0;
+      };
+      return { stats, check };
+    };
+
+    it('should refine decoded values with an async check', async () => {
+      expectOkWithValue(await usernameDecoder.decode('grace'), 'grace');
+      expectErrWithMsg(
+        await usernameDecoder.decode('ada'),
+        'ada is already taken'
+      );
+      expect(
+        ((await usernameDecoder.decode('ada')) as Err<string>).error
+      ).toMatchObject({ kind: 'custom', received: 'ada', path: [] });
+    });
+    it('should not run the check when the value fails to decode', async () => {
+      const { stats, check } = trackedCheck();
+      expectErrWithMsg(
+        await JsonDecoder.number().refineAsync(check, 'negative').decode('1'),
+        primitiveError('1', 'number')
+      );
+      expect(stats.calls).toBe(0);
+    });
+    it('should chain decoders with an async function', async () => {
+      const authors = new Map([[1, { id: 1, name: 'Ada' }]]);
+      const authorDecoder = JsonDecoder.number().flatMapAsync(async id => {
+        const author = authors.get(id);
+        return author === undefined
+          ? JsonDecoder.fail<{ id: number; name: string }>(
+              `Author ${id} doesn't exist`
+            )
+          : JsonDecoder.constant(author);
+      });
+      type Author = FromDecoder<typeof authorDecoder>;
+      type AuthorTest = Expect<Equal<Author, { id: number; name: string }>>;
+      expectOkWithValue(await authorDecoder.decode(1), { id: 1, name: 'Ada' });
+      expectErrWithMsg(await authorDecoder.decode(2), "Author 2 doesn't exist");
+    });
+    it('should decode objects with async fields', async () => {
+      const signupDecoder = JsonDecoder.objectAsync(
+        {
+          username: usernameDecoder,
+          displayName: {
+            fromKey: 'display_name',
+            decoder: JsonDecoder.optional(JsonDecoder.string())
+          },
+          age: JsonDecoder.number()
+        },
+        'Signup'
+      );
+      type Signup = FromDecoder<typeof signupDecoder>;
+      type SignupTest = Expect<
+        Equal<
+          Signup,
+          { username: string; displayName?: string | undefined; age: number }
+        >
+      >;
+      const decoded = await signupDecoder.decodePromise({
+        username: 'grace',
+        age: 36
+      });
+      expect(decoded).toStrictEqual({ username: 'grace', age: 36 });
+      expectErrWithMsg(
+        await signupDecoder.decode({ username: 'ada', age: 36 }),
+        objectError('Signup', 'username', 'ada is already taken')
+      );
+      await expect(
+        signupDecoder.decodePromise({ username: 'ada', age: 36 })
+      ).rejects.toBe(objectError('Signup', 'username', 'ada is already taken'));
+      expectErrWithMsg(
+        await signupDecoder.decode(
+          { username: 'ada', display_name: 1, age: '36' },
+          { allErrors: true }
+        ),
+        objectErrors('Signup', [
+          ['username', 'ada is already taken'],
+          ['displayName', primitiveError(1, 'string')],
+          ['age', primitiveError('36', 'number')]
+        ])
+      );
+    });
+    it('should skip the async checks of objects when a regular field fails', async () => {
+      const { stats, check } = trackedCheck();
+      const decoder = JsonDecoder.objectAsync(
+        {
+          id: JsonDecoder.number().refineAsync(check, 'negative id'),
+          name: JsonDecoder.string()
+        },
+        'Item'
+      );
+      expectErrWithMsg(
+        await decoder.decode({ id: 1, name: 2 }),
+        objectError('Item', 'name', primitiveError(2, 'string'))
+      );
+      expect(stats.calls).toBe(0);
+    });
+    it('should run async checks concurrently, within the concurrency limit', async () => {
+      const { stats, check } = trackedCheck();
+      const idsDecoder = JsonDecoder.arrayAsync(
+        JsonDecoder.number().refineAsync(check, 'negative id'),
+        'Ids'
+      );
+      const decoder = JsonDecoder.objectAsync(
+        { first: idsDecoder, second: idsDecoder },
+        'Groups'
+      );
+      const json = { first: [1, 2, 3], second: [4, 5, -6] };
+
+      expectErrWithMsg(
+        await decoder.decode(json),
+        objectError('Groups', 'second', arrayError('Ids', 2, 'negative id'))
+      );
+      expect(stats.maxRunning).toBe(6);
+
+      stats.maxRunning = 0;
+      expectErrWithMsg(
+        await decoder.decode(json, { concurrency: 2 }),
+        objectError('Groups', 'second', arrayError('Ids', 2, 'negative id'))
+      );
+      expect(stats.maxRunning).toBe(2);
+      expect(() => decoder.decode(json, { concurrency: 0 })).toThrow(
+        'The concurrency of async decoders must be at least 1, but it is 0'
+      );
+    });
+    it('should be cancelled with an AbortSignal', async () => {
+      const signals: unknown[] = [];
+      const slowDecoder = JsonDecoder.string().refineAsync(
+        (_, { signal }) =>
+          new Promise<boolean>(resolve => {
+            signals.push(signal);
+            setTimeout(() => resolve(true), 50);
+          }),
+        'invalid'
+      );
+      const controller = new AbortController();
+      const decoding = slowDecoder.decode('value', {
+        signal: controller.signal
+      });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort(new Error('Request closed'));
+      await expect(decoding).rejects.toThrow('Request closed');
+      expect(signals).toEqual([controller.signal]);
+      await expect(
+        slowDecoder.decode('value', { signal: controller.signal })
+      ).rejects.toThrow('Request closed');
+    });
+    it('should reject when an async check rejects', async () => {
+      const decoder = JsonDecoder.string().refineAsync(
+        () => Promise.reject(new Error('Database unavailable')),
+        'invalid'
+      );
+      await expect(decoder.decode('value')).rejects.toThrow(
+        'Database unavailable'
+      );
+    });
+    it('should implement Standard Schema with an async validate', async () => {
+      const decoder = JsonDecoder.objectAsync(
+        { users: JsonDecoder.arrayAsync(usernameDecoder, 'Usernames') },
+        'Team'
+      );
+      const validation = decoder['~standard'].validate({
+        users: ['grace', 'ada']
+      });
+      expect(validation).toBeInstanceOf(Promise);
+      expect(await validation).toEqual({
+        issues: [{ message: 'ada is already taken', path: ['users', 1] }]
+      });
+      expect(await decoder['~standard'].validate({ users: ['grace'] })).toEqual(
+        { value: { users: ['grace'] } }
+      );
+    });
+  });
+
+  describe('StandardSchemaV1', () => {
+    async function standardValidate<T extends StandardSchemaV1>(
+      schema: T,
+      input: StandardSchemaV1.InferInput<T>
+    ): Promise<StandardSchemaV1.InferOutput<T>> {
+      let result = schema['~standard'].validate(input);
+      if (result instanceof Promise) result = await result;
+
+      // if the `issues` field exists, the validation failed
+      if (result.issues) {
+        throw new Error(JSON.stringify(result.issues, null, 2));
+      }
+
+      return result.value;
+    }
+
+    it('should integrate with standard schema', async () => {
+      const res = await standardValidate(JsonDecoder.string(), 'hello');
+      type TestType = Expect<Equal<typeof res, string>>;
+      expect(res).equal('hello');
+    });
+
+    it('should report root failures with an empty path', () => {
+      expectStandardErrWithMsg(
+        JsonDecoder.string()['~standard'].validate(1),
+        primitiveError(1, 'string')
+      );
+    });
+
+    describe('issue paths', () => {
+      const userDecoder = JsonDecoder.object(
+        {
+          email: { fromKey: 'email_address', decoder: JsonDecoder.string() },
+          location: JsonDecoder.tuple(
+            [JsonDecoder.number(), JsonDecoder.number()],
+            '[number, number]'
+          )
+        },
+        'User'
+      );
+      const groupsDecoder = JsonDecoder.record(
+        JsonDecoder.objectStrict(
+          { users: JsonDecoder.array(userDecoder, 'User[]') },
+          'Group'
+        ),
+        'Groups'
+      );
+      const validUser = { email_address: 'john@doe.com', location: [1, 2] };
+
+      it('should locate failures inside objects, records and arrays', () => {
+        expectStandardErrWithMsg(
+          groupsDecoder['~standard'].validate({
+            admins: { users: [validUser, { ...validUser, email_address: 3 }] }
+          }),
+          primitiveError(3, 'string'),
+          ['admins', 'users', 1, 'email_address']
+        );
+      });
+
+      it('should locate failures inside tuples', () => {
+        expectStandardErrWithMsg(
+          groupsDecoder['~standard'].validate({
+            admins: { users: [{ ...validUser, location: [1, '2'] }] }
+          }),
+          primitiveError('2', 'number'),
+          ['admins', 'users', 0, 'location', 1]
+        );
+        expectStandardErrWithMsg(
+          groupsDecoder['~standard'].validate({
+            admins: { users: [{ ...validUser, location: [1] }] }
+          }),
+          tupleLengthMismatchError('[number, number]', [1], 2),
+          ['admins', 'users', 0, 'location']
+        );
+      });
+
+      it('should locate unknown keys of strict objects', () => {
+        expectStandardErrWithMsg(
+          groupsDecoder['~standard'].validate({
+            admins: { users: [], extra: true }
+          }),
+          objectStrictUnknownKeyError('Group', 'extra'),
+          ['admins', 'extra']
+        );
+      });
+
+      it('should locate failures inside allOf decoders', () => {
+        const decoder = JsonDecoder.allOf(
+          [
+            JsonDecoder.object({ id: JsonDecoder.number() }, 'Id'),
+            JsonDecoder.object({ groups: groupsDecoder }, 'WithGroups')
+          ],
+          'Account'
+        );
+        expectStandardErrWithMsg(
+          decoder['~standard'].validate({
+            id: 1,
+            groups: { admins: { users: [{ ...validUser, email_address: 3 }] } }
+          }),
+          primitiveError(3, 'string'),
+          ['groups', 'admins', 'users', 0, 'email_address']
+        );
+      });
     });
   });
 
@@ -0,0 +1,7 @@
+/**
+ * This module contains the TypeScript declarations printer.
+ * @module typescript
+ * @category Api docs
+ */
+
+export * from './to-typescript';
@@ -0,0 +1,438 @@
+/**
+ * @module
+ * @mergeModuleWith typescript
+ * @category Api docs
+ */
+
+import type { Decoder } from '../core';
+
+/**
+ * Options of {@link toTypeScript}.
+ */
+export interface ToTypeScriptOptions {
+  /**
+   * The type name of the root decoder when it doesn't have a `decoderName` that is a valid
+   * TypeScript identifier. Defaults to `Root`.
+   */
+  readonly rootName?: string;
+}
+
+/**
+ * Prints the TypeScript declarations of the types that a decoder produces,
+ * for instance to publish a `.d.ts` file of your payload types.
+ *
+ * - `object` and `objectStrict` decoders become interfaces, with `?` for `optional` fields.
+ * - `array`, `record`, `tuple`, `oneOf`, `allOf`, `discriminatedUnion` and `enumeration` decoders
+ *   become type aliases. Enumerations are printed as unions of their values.
+ * - Decoders are declared with their `decoderName` as type name when it's a valid identifier,
+ *   and inlined otherwise (`'User[]'` is printed as `User[]`).
+ * - `lazy` decoders are declared once and referenced by name, so recursive types are supported.
+ * - The type of `map` and `flatMap` decoders is unknown until decoding, so it is printed as `unknown`.
+ *
+ * @param decoder The root decoder
+ * @param options The printer options
+ * @returns The TypeScript source text of the declarations, starting with the root type
+ *
+ * @example
+ * ```ts
+ * const userDecoder = JsonDecoder.object(
+ *   {
+ *     name: JsonDecoder.string(),
+ *     age: JsonDecoder.optional(JsonDecoder.number()),
+ *     roles: JsonDecoder.array(JsonDecoder.enumeration(Role, 'Role'), 'Role[]')
+ *   },
+ *   'User'
+ * );
+ *
+ * JsonDecoder.toTypeScript(userDecoder);
+ * // export interface User {
+ * //   name: string;
+ * //   age?: number;
+ * //   roles: Role[];
+ * // }
+ * //
+ * // export type Role = "admin" | "user";
+ * ```
+ */
+export function toTypeScript(
+  decoder: Decoder<unknown>,
+  options: ToTypeScriptOptions = {}
+): string {
+  const context: Context = { names: new Map(), declarations: [] };
+  const type = reference(decoder, context);
+  if (context.names.get(decoder) !== type) {
+    context.declarations.unshift(
+      `export type ${options.rootName ?? 'Root'} = ${type};`
+    );
+  }
+  return context.declarations.join('\n\n') + '\n';
+}
+
+type Context = {
+  names: Map<Decoder<unknown>, string>;
+  declarations: string[];
+};
+
+/**
+ * Returns the name of the type of a decoder, declaring it the first time,
+ * or its inline type when it can't be declared.
+ */
+function reference(decoder: Decoder<unknown>, context: Context): string {
+  const existing = context.names.get(decoder);
+  if (existing !== undefined) {
+    return existing;
+  }
+  const descriptor = decoder.descriptor;
+  if (descriptor.kind === 'lazy') {
+    const resolved = descriptor.resolve();
+    const resolvedName = context.names.get(resolved);
+    if (resolvedName !== undefined) {
+      context.names.set(decoder, resolvedName);
+      return resolvedName;
+    }
+    const name = uniqueName(identifierName(resolved) ?? 'Lazy', context);
+    context.names.set(decoder, name);
+    context.names.set(resolved, name);
+    declare(name, resolved, context);
+    return name;
+  }
+  const name = identifierName(decoder);
+  if (name === undefined) {
+    return inlineType(decoder, context);
+  }
+  const unique = uniqueName(name, context);
+  context.names.set(decoder, unique);
+  declare(unique, decoder, context);
+  return unique;
+}
+
+/**
+ * Adds the declaration of a named type. Its slot is taken before printing the type,
+ * so that declarations are listed in the order they are first referenced.
+ */
+function declare(
+  name: string,
+  decoder: Decoder<unknown>,
+  context: Context
+): void {
+  const index = context.declarations.push('') - 1;
+  const type = inlineType(decoder, context);
+  context.declarations[index] =
+    decoder.descriptor.kind === 'object'
+      ? `export interface ${name} ${type}`
+      : `export type ${name} = ${type};`;
+}
+
+function inlineType(decoder: Decoder<unknown>, context: Context): string {
+  const descriptor = decoder.descriptor;
+  switch (descriptor.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+    case 'undefined':
+    case 'bigint':
+      return descriptor.kind;
+    case 'decimal':
+      return 'string';
+    case 'coerce':
+      return descriptor.target === 'date' ? 'Date' : descriptor.target;
+    case 'date-time':
+      switch (descriptor.format) {
+        case 'time':
+          return numberFields(['hours', 'minutes', 'seconds', 'milliseconds']);
+        case 'duration':
+          return numberFields([
+            'years',
+            'months',
+            'weeks',
+            'days',
+            'hours',
+            'minutes',
+            'seconds'
+          ]);
+        default:
+          return 'Date';
+      }
+    case 'literal':
+    case 'constant':
+      return literalType(descriptor.value);
+    case 'enum':
+      return union(descriptor.values.map(literalType));
+    case 'object': {
+      const fields = Object.keys(descriptor.fields).map(key => {
+        const field = descriptor.fields[key].decoder;
+        const optional =
+          field.descriptor.kind === 'optional' ||
+          field.descriptor.kind === 'exact-optional';
+        const type = reference(
+          field.descriptor.kind === 'optional' ||
+            field.descriptor.kind === 'exact-optional'
+            ? field.descriptor.decoder
+            : field,
+          context
+        );
+        return `  ${propertyName(key)}${optional ? '?' : ''}: ${type.replace(/\n/g, '\n  ')};`;
+      });
+      const { unknownKeys } = descriptor;
+      if (unknownKeys === 'passthrough') {
+        fields.push('  [key: string]: unknown;');
+      } else if (typeof unknownKeys === 'object') {
+        const rest = reference(unknownKeys.catchall, context);
+        fields.push(
+          `  ${propertyName(unknownKeys.restKey)}: Record<string, ${rest.replace(/\n/g, '\n  ')}>;`
+        );
+      }
+      return fields.length > 0 ? `{\n${fields.join('\n')}\n}` : '{}';
+    }
+    case 'empty-object':
+      return 'Record<string, never>';
+    case 'array':
+      return `${operand(reference(descriptor.element, context))}[]`;
+    case 'record': {
+      if (descriptor.key === undefined) {
+        return `Record<string, ${reference(descriptor.element, context)}>`;
+      }
+      const type = `Record<${reference(descriptor.key, context)}, ${reference(descriptor.element, context)}>`;
+      return hasFiniteValues(descriptor.key) ? `Partial<${type}>` : type;
+    }
+    case 'map-collection':
+      return `Map<${reference(descriptor.key, context)}, ${reference(descriptor.element, context)}>`;
+    case 'set':
+      return `Set<${reference(descriptor.element, context)}>`;
+    case 'tuple': {
+      const { elements, rest } = descriptor;
+      let required = elements.length;
+      while (
+        required > 0 &&
+        elements[required - 1].descriptor.kind === 'optional'
+      ) {
+        required--;
+      }
+      const types = elements.map((element, i) => {
+        const elementDescriptor = element.descriptor;
+        return i >= required && elementDescriptor.kind === 'optional'
+          ? `${operand(reference(elementDescriptor.decoder, context))}?`
+          : reference(element, context);
+      });
+      if (rest !== undefined) {
+        types.push(`...${operand(reference(rest, context))}[]`);
+      }
+      return `[${types.join(', ')}]`;
+    }
+    case 'one-of':
+      return union(
+        descriptor.members.map(member => reference(member, context))
+      );
+    case 'discriminated-union':
+      return union(
+        Object.values(descriptor.members).map(member =>
+          reference(member, context)
+        )
+      );
+    case 'all-of':
+      return descriptor.members
+        .map(member => operand(reference(member, context)))
+        .join(' & ');
+    case 'optional':
+    case 'exact-optional':
+      return union([reference(descriptor.decoder, context), 'undefined']);
+    case 'nullable':
+      return union([reference(descriptor.decoder, context), 'null']);
+    case 'fallback':
+      return reference(descriptor.decoder, context);
+    case 'with-default': {
+      let inner = descriptor.decoder;
+      while (
+        inner.descriptor.kind === 'optional' ||
+        (descriptor.nullAsMissing && inner.descriptor.kind === 'nullable')
+      ) {
+        inner = inner.descriptor.decoder;
+      }
+      return reference(inner, context);
+    }
+    case 'lazy':
+      return reference(descriptor.resolve(), context);
+    case 'fail':
+      return 'never';
+    case 'map':
+    case 'flat-map':
+    case 'succeed':
+    case 'custom':
+      return 'unknown';
+  }
+}
+
+/**
+ * The `decoderName` of a decoder when it can be used as a type name.
+ */
+function identifierName(decoder: Decoder<unknown>): string | undefined {
+  const descriptor = decoder.descriptor;
+  return 'decoderName' in descriptor && isIdentifier(descriptor.decoderName)
+    ? descriptor.decoderName
+    : undefined;
+}
+
+/**
+ * A name that no other declared type has, and that doesn't shadow a built-in type.
+ * Reserved words and built-in type names get a number suffix, like the names that are taken.
+ */
+function uniqueName(name: string, context: Context): string {
+  const taken = new Set(context.names.values());
+  let unique = name;
+  for (let i = 2; taken.has(unique) || reservedTypeNames.has(unique); i++) {
+    unique = `${name}${i}`;
+  }
+  return unique;
+}
+
+/**
+ * Whether a key decoder only accepts a finite set of values, so that a record doesn't have all of them.
+ */
+function hasFiniteValues(decoder: Decoder<unknown>): boolean {
+  const descriptor = decoder.descriptor;
+  switch (descriptor.kind) {
+    case 'literal':
+    case 'enum':
+      return true;
+    case 'one-of':
+      return descriptor.members.every(hasFiniteValues);
+    case 'lazy':
+      return hasFiniteValues(descriptor.resolve());
+    default:
+      return false;
+  }
+}
+
+function numberFields(keys: string[]): string {
+  return `{\n${keys.map(key => `  ${key}: number;`).join('\n')}\n}`;
+}
+
+function literalType(value: unknown): string {
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return JSON.stringify(value);
+    case 'undefined':
+      return 'undefined';
+    default:
+      return value === null ? 'null' : 'unknown';
+  }
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length > 0 ? unique.join(' | ') : 'never';
+}
+
+/**
+ * Wraps union and intersection types in parentheses, to use them in an array or intersection type.
+ */
+function operand(type: string): string {
+  let depth = 0;
+  for (const char of type) {
+    if ('{[(<'.includes(char)) {
+      depth++;
+    } else if ('}])>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return `(${type})`;
+    }
+  }
+  return type;
+}
+
+function propertyName(key: string): string {
+  return isIdentifier(key) ? key : JSON.stringify(key);
+}
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+/**
+ * The words that can't name a type, and the built-in types that the printed types use or that
+ * a declaration would shadow.
+ */
+const reservedTypeNames = new Set([
+  // reserved words
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'debugger',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with',
+  'yield',
+  // predefined types
+  'any',
+  'bigint',
+  'boolean',
+  'never',
+  'number',
+  'object',
+  'string',
+  'symbol',
+  'undefined',
+  'unknown',
+  // built-in types
+  'Array',
+  'BigInt',
+  'Boolean',
+  'Date',
+  'Error',
+  'Function',
+  'Map',
+  'Number',
+  'Object',
+  'Omit',
+  'Partial',
+  'Pick',
+  'Promise',
+  'Readonly',
+  'ReadonlyArray',
+  'Record',
+  'RegExp',
+  'Required',
+  'Set',
+  'String',
+  'Symbol'
+]);
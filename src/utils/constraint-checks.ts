@@ -0,0 +1,23 @@
+/**
+ * The length of a string in Unicode code points, the way string constraints and JSON Schema count it.
+ * @param str The string to measure
+ * @returns The number of code points, so that an emoji counts as one character
+ * @internal
+ */
+export const codePointLength = (str: string): number => Array.from(str).length;
+
+/**
+ * Whether a number is a multiple of a divisor. Tolerates floating point errors, so that `0.3` is a multiple of `0.1`.
+ * The tolerance grows with the quotient, since the error of the division does.
+ * @param n The number to check
+ * @param divisor The divisor
+ * @returns Whether `n / divisor` is an integer
+ * @internal
+ */
+export const isMultipleOf = (n: number, divisor: number): boolean => {
+  const quotient = n / divisor;
+  return (
+    Math.abs(quotient - Math.round(quotient)) <=
+    Number.EPSILON * Math.max(1, Math.abs(quotient))
+  );
+};
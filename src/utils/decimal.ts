@@ -0,0 +1,68 @@
+/**
+ * A decimal number as an integer and a number of decimal places: `12.50` is `{ unscaled: 1250n, scale: 2 }`.
+ * @internal
+ */
+export interface DecimalParts {
+  unscaled: bigint;
+  scale: number;
+}
+
+/**
+ * Decimal strings, such as `42`, `-0.5` or `12.50`, without exponent nor leading `+`.
+ * @internal
+ */
+export const decimalStringPattern = /^-?\d+(?:\.\d+)?$/;
+
+/**
+ * Splits a string that matches {@link decimalStringPattern} into its parts, keeping its trailing zeros.
+ * @internal
+ */
+export const parseDecimal = (str: string): DecimalParts => {
+  const [integerPart, fraction = ''] = str.split('.');
+  return {
+    unscaled: BigInt(`${integerPart}${fraction}`),
+    scale: fraction.length
+  };
+};
+
+/**
+ * Prints decimal parts back as a decimal string, e.g. `{ unscaled: -5n, scale: 2 }` as `-0.05`.
+ * @internal
+ */
+export const formatDecimal = ({ unscaled, scale }: DecimalParts): string => {
+  const digits = (unscaled < 0n ? -unscaled : unscaled)
+    .toString()
+    .padStart(scale + 1, '0');
+  const sign = unscaled < 0n ? '-' : '';
+  return scale === 0
+    ? `${sign}${digits}`
+    : `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+};
+
+/**
+ * Compares two decimals by value, so that `1.50` and `1.5` are equal.
+ * @returns A negative number when `a < b`, `0` when they are equal, a positive number when `a > b`
+ * @internal
+ */
+export const compareDecimals = (a: DecimalParts, b: DecimalParts): number => {
+  const scale = Math.max(a.scale, b.scale);
+  const difference = rescale(a, scale) - rescale(b, scale);
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+};
+
+/**
+ * The unscaled value of a decimal at a larger scale, e.g. `1.5` at scale 2 is `150n`.
+ * @internal
+ */
+export const rescale = (decimal: DecimalParts, scale: number): bigint =>
+  decimal.unscaled * 10n ** BigInt(scale - decimal.scale);
+
+/**
+ * The number of significant digits of a decimal, ignoring its sign and leading zeros: `-0.050` has 2.
+ * @internal
+ */
+export const significantDigits = (decimal: DecimalParts): number =>
+  decimal.unscaled === 0n
+    ? 1
+    : (decimal.unscaled < 0n ? -decimal.unscaled : decimal.unscaled).toString()
+        .length;
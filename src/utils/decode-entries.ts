@@ -0,0 +1,61 @@
+import type { Decoder, DecodeOptions } from '../core';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { primitiveDecodeError } from '../errors/primitive-error';
+import {
+  recordDecodeError,
+  recordKeyDecodeError
+} from '../errors/record-error';
+import * as Result from './result';
+
+/**
+ * Decodes the keys and values of a JSON object into entries, as `record` and `map` do.
+ * Without a key decoder, the keys are kept as they are.
+ *
+ * @param json The JSON object
+ * @param keyDecoder The decoder of the keys, that receives them as strings
+ * @param valueDecoder The decoder of the values
+ * @param decoderName How to display the name of the object being decoded in errors
+ * @param options The decode options
+ * @returns The decoded entries, in the order of the object keys
+ * @internal
+ */
+export function decodeEntries<K, V>(
+  json: any,
+  keyDecoder: Decoder<K> | undefined,
+  valueDecoder: Decoder<V>,
+  decoderName: string,
+  options: DecodeOptions
+): Result.Result<Array<[K, V]>> {
+  if (json === null || typeof json !== 'object') {
+    return Result.err<Array<[K, V]>>(primitiveDecodeError(json, decoderName));
+  }
+  const entries: Array<[K, V]> = [];
+  const failures: KeyedDecodeError<string>[] = [];
+  for (const key in json) {
+    if (Object.prototype.hasOwnProperty.call(json, key)) {
+      const keyResult =
+        keyDecoder === undefined
+          ? Result.ok<K>(key as K)
+          : keyDecoder.decode(key, options);
+      if (keyResult.isOk()) {
+        const result = valueDecoder.decode(json[key], options);
+        if (result.isOk()) {
+          entries.push([keyResult.value, result.value]);
+          continue;
+        }
+        failures.push({ key, error: result.error });
+      } else {
+        failures.push({ key, error: recordKeyDecodeError(keyResult.error) });
+      }
+      if (!options.allErrors) {
+        break;
+      }
+    }
+  }
+  if (failures.length > 0) {
+    return Result.err<Array<[K, V]>>(
+      recordDecodeError(decoderName, json, failures)
+    );
+  }
+  return Result.ok<Array<[K, V]>>(entries);
+}
@@ -0,0 +1,192 @@
+/**
+ * This module contains the DecodeError type, a structured description of why decoding failed.
+ *
+ * @module decode-error
+ * @category Api docs
+ */
+
+/**
+ * The kind of failure a {@link DecodeError} describes.
+ *
+ * - `primitive`: the value is not of the expected type (`string`, `number`, `array`, an object decoder...)
+ * - `constraint`: the value has the expected type but breaks a constraint (a minimum length, a pattern...)
+ * - `literal`: the value is not exactly the expected value
+ * - `enum`: the value is not a member of the expected enum
+ * - `unknown-key`: a strict object decoder found a key it doesn't know about
+ * - `unknown-tag`: the tag of a discriminated union doesn't match any of its decoders
+ * - `tuple-length`: the array length doesn't match the tuple length
+ * - `object`, `array`, `record`, `tuple`: a nested value failed to decode, see `causes`
+ * - `one-of`: none of the `oneOf` decoders succeeded
+ * - `all-of`: one of the `allOf` decoders failed, see `causes`
+ * - `custom`: an error created with `err()` or `fail()`
+ */
+export type DecodeErrorKind =
+  | 'primitive'
+  | 'constraint'
+  | 'literal'
+  | 'enum'
+  | 'unknown-key'
+  | 'unknown-tag'
+  | 'tuple-length'
+  | 'object'
+  | 'array'
+  | 'record'
+  | 'tuple'
+  | 'one-of'
+  | 'all-of'
+  | 'custom';
+
+/**
+ * A segment of the path that leads to a failing value.
+ * Object and record keys are strings, array and tuple indexes are numbers.
+ */
+export type DecodeErrorPathSegment = string | number;
+
+/**
+ * A structured decoding error.
+ *
+ * Errors form a tree: decoders that contain other decoders (`object`, `array`, `allOf`...)
+ * report the failure of their inner decoders as `causes`.
+ *
+ * @example
+ * ```ts
+ * const userDecoder = JsonDecoder.object({ email: JsonDecoder.string() }, 'User');
+ * const result = JsonDecoder.array(userDecoder, 'User[]').decode([{ email: 42 }]);
+ * if (!result.isOk()) {
+ *   result.error.kind; // 'array'
+ *   result.error.message; // '<User[]> decoder failed at index "0" with error: <User> decoder failed at key "email" with error: 42 is not a valid string'
+ *   const leaf = result.error.causes[0].causes[0];
+ *   leaf.kind; // 'primitive'
+ *   leaf.path; // [0, 'email']
+ *   leaf.expected; // 'string'
+ *   leaf.received; // 42
+ * }
+ * ```
+ */
+export interface DecodeError {
+  /** The kind of failure. */
+  readonly kind: DecodeErrorKind;
+  /** The path from the decoded value to the failing value. */
+  readonly path: ReadonlyArray<DecodeErrorPathSegment>;
+  /** A description of what was expected, usually a type or a decoder name. */
+  readonly expected?: string;
+  /** The value that failed to decode. */
+  readonly received?: unknown;
+  /** The human readable error message, including the messages of its causes. */
+  readonly message: string;
+  /** The nested errors that caused this one. */
+  readonly causes: ReadonlyArray<DecodeError>;
+}
+
+/**
+ * Creates a new DecodeError.
+ *
+ * @param error - The error properties. `path` and `causes` default to empty arrays.
+ * @returns A DecodeError
+ *
+ * @example
+ * ```ts
+ * const evenDecoder = new JsonDecoder.Decoder<number>(json =>
+ *   typeof json === 'number' && json % 2 === 0
+ *     ? JsonDecoder.ok(json)
+ *     : JsonDecoder.err(
+ *         JsonDecoder.decodeError({
+ *           kind: 'custom',
+ *           expected: 'even number',
+ *           received: json,
+ *           message: `${JSON.stringify(json)} is not an even number`
+ *         })
+ *       )
+ * );
+ * ```
+ */
+export function decodeError(
+  error: Pick<DecodeError, 'kind' | 'expected' | 'received' | 'message'> &
+    Partial<Pick<DecodeError, 'path' | 'causes'>>
+): DecodeError {
+  return { path: [], causes: [], ...error };
+}
+
+/**
+ * Prepends a path segment to the error and all its causes.
+ * Used by decoders that contain other decoders to locate their inner failures.
+ *
+ * The paths of the error and its causes are only built when they are read, so that
+ * wrapping an error at every level of a deep value doesn't copy its whole tree each time.
+ *
+ * @param error - The inner decoder error
+ * @param segment - The key or index where the inner decoder failed
+ * @returns A new DecodeError relative to the outer value
+ * @internal
+ */
+export function prependPath(
+  error: DecodeError,
+  segment: DecodeErrorPathSegment
+): DecodeError {
+  return withPathPrefix(error, { segment });
+}
+
+/**
+ * The segments prepended to the path of an error, outermost first.
+ */
+type PathPrefix = {
+  readonly segment: DecodeErrorPathSegment;
+  readonly next?: PathPrefix;
+};
+
+/**
+ * The errors created by {@link withPathPrefix}, with the error they locate and its prefix.
+ */
+const prefixedErrors = new WeakMap<
+  DecodeError,
+  { readonly error: DecodeError; readonly prefix: PathPrefix }
+>();
+
+function withPathPrefix(error: DecodeError, prefix: PathPrefix): DecodeError {
+  // Prefixing an error that is already prefixed extends its prefix rather than nesting them
+  const prefixed = prefixedErrors.get(error);
+  const inner = prefixed === undefined ? error : prefixed.error;
+  const fullPrefix =
+    prefixed === undefined ? prefix : concatPrefixes(prefix, prefixed.prefix);
+  let path: ReadonlyArray<DecodeErrorPathSegment> | undefined;
+  let causes: ReadonlyArray<DecodeError> | undefined;
+  const result: DecodeError = {
+    kind: inner.kind,
+    ...('expected' in inner ? { expected: inner.expected } : {}),
+    ...('received' in inner ? { received: inner.received } : {}),
+    message: inner.message,
+    get path() {
+      if (path === undefined) {
+        path = [...prefixSegments(fullPrefix), ...inner.path];
+      }
+      return path;
+    },
+    get causes() {
+      if (causes === undefined) {
+        causes = inner.causes.map(cause => withPathPrefix(cause, fullPrefix));
+      }
+      return causes;
+    }
+  };
+  prefixedErrors.set(result, { error: inner, prefix: fullPrefix });
+  return result;
+}
+
+function concatPrefixes(first: PathPrefix, second: PathPrefix): PathPrefix {
+  return {
+    segment: first.segment,
+    next: first.next === undefined ? second : concatPrefixes(first.next, second)
+  };
+}
+
+function prefixSegments(prefix: PathPrefix): DecodeErrorPathSegment[] {
+  const segments: DecodeErrorPathSegment[] = [];
+  for (
+    let current: PathPrefix | undefined = prefix;
+    current !== undefined;
+    current = current.next
+  ) {
+    segments.push(current.segment);
+  }
+  return segments;
+}
@@ -0,0 +1,297 @@
+/**
+ * This module contains the DecoderDescriptor type, which describes how a decoder was built,
+ * and the helpers to walk a tree of decoders.
+ *
+ * @module decoder-descriptor
+ * @category Api docs
+ */
+
+import type { Decoder } from '../core';
+import type { BigIntConstraints } from '../schemas/bigint';
+import type { CoercionTarget } from '../schemas/coerce';
+import type { DateTimeFormat, OffsetPolicy } from '../schemas/date-time';
+import type { DecimalConstraints } from '../schemas/decimal';
+import type { NumberConstraints } from '../schemas/number';
+import type { UnknownKeys } from '../schemas/object';
+import type { StringConstraints } from '../schemas/string';
+
+/**
+ * Describes how a decoder was built, so that tools (schema exporters, documentation, mock data...)
+ * can inspect it. Every built-in decoder has one in its `descriptor` property, and decoders created
+ * directly with `new Decoder(...)` are `custom`.
+ *
+ * The `kind` tells which decoder factory built it, and the other properties are its arguments:
+ * - `string`, `number`, `boolean`, `null`, `undefined`: the primitives. `string` and `number` have the `constraints` they check, if any
+ * - `bigint`, `decimal`: the `constraints` they check, if any
+ * - `coerce`: the `target` type that strings are parsed into, and the `constraints` of `coerce.number`
+ * - `date-time`: the `format` it parses, the `offset` policy of ISO date-times, and the `after` and `before` bounds
+ * - `literal`: the `value` it accepts
+ * - `enum`: the enum `values` it accepts
+ * - `object`: the `fields` decoders, with the JSON key they read (`fromKey`). `strict` is `true` when unknown keys
+ *   are rejected, and `unknownKeys` is the policy given to `object`, unless it strips them
+ * - `array`, `record`: the `element` decoder of each item, or of each value. `record` has the `key` decoder, if any
+ * - `map-collection`, `set`: the `key` and `element` decoders of a `Map`, the `element` decoder of a `Set`
+ *   and whether it `rejectDuplicates`
+ * - `tuple`: the `elements` decoders, and the decoder of the `rest` elements, if any
+ * - `one-of`, `all-of`: the `members` decoders
+ * - `discriminated-union`: the `tag` key and the `members` decoder of each tag value
+ * - `optional`, `exact-optional`, `nullable`: the `decoder` they wrap
+ * - `map`, `flat-map`: wrapper nodes around the `decoder` whose value they transform,
+ *   or whose value is decoded further by a decoder that is only known while decoding
+ * - `fallback`: the `decoder` it wraps and its `defaultValue`
+ * - `with-default`: the `decoder` it wraps, the function that returns its default value (`getDefault`),
+ *   and whether `null` is decoded to the default value too (`nullAsMissing`)
+ * - `lazy`: the function that `resolve`s the decoder it defers to
+ * - `constant`: the `value` it always returns
+ * - `fail`: the error `message` it always returns
+ * - `succeed`, `empty-object`, `custom`: no children
+ *
+ * @example
+ * ```ts
+ * const userDecoder = JsonDecoder.object(
+ *   { name: { fromKey: 'user_name', decoder: JsonDecoder.string() } },
+ *   'User'
+ * );
+ *
+ * const descriptor = userDecoder.descriptor;
+ * if (descriptor.kind === 'object') {
+ *   descriptor.decoderName; // 'User'
+ *   descriptor.fields.name.fromKey; // 'user_name'
+ *   descriptor.fields.name.decoder.descriptor; // { kind: 'string' }
+ * }
+ * ```
+ */
+export type DecoderDescriptor =
+  | { readonly kind: 'string'; readonly constraints?: StringConstraints }
+  | { readonly kind: 'number'; readonly constraints?: NumberConstraints }
+  | { readonly kind: 'boolean' | 'null' | 'undefined' }
+  | { readonly kind: 'bigint'; readonly constraints?: BigIntConstraints }
+  | { readonly kind: 'decimal'; readonly constraints?: DecimalConstraints }
+  | {
+      readonly kind: 'coerce';
+      readonly target: CoercionTarget;
+      readonly constraints?: NumberConstraints;
+    }
+  | {
+      readonly kind: 'date-time';
+      readonly format: DateTimeFormat;
+      readonly offset?: OffsetPolicy;
+      readonly after?: Date;
+      readonly before?: Date;
+    }
+  | { readonly kind: 'literal'; readonly value: unknown }
+  | {
+      readonly kind: 'enum';
+      readonly decoderName: string;
+      readonly values: ReadonlyArray<unknown>;
+    }
+  | {
+      readonly kind: 'object';
+      readonly decoderName: string;
+      readonly strict: boolean;
+      readonly fields: {
+        readonly [key: string]: {
+          readonly fromKey: string;
+          readonly decoder: Decoder<unknown>;
+        };
+      };
+      readonly unknownKeys?: Exclude<UnknownKeys, 'strip'>;
+    }
+  | {
+      readonly kind: 'array';
+      readonly decoderName: string;
+      readonly element: Decoder<unknown>;
+    }
+  | {
+      readonly kind: 'record';
+      readonly decoderName: string;
+      readonly element: Decoder<unknown>;
+      readonly key?: Decoder<unknown>;
+    }
+  | {
+      readonly kind: 'map-collection';
+      readonly decoderName: string;
+      readonly key: Decoder<unknown>;
+      readonly element: Decoder<unknown>;
+    }
+  | {
+      readonly kind: 'set';
+      readonly decoderName: string;
+      readonly element: Decoder<unknown>;
+      readonly rejectDuplicates: boolean;
+    }
+  | {
+      readonly kind: 'tuple';
+      readonly decoderName: string;
+      readonly elements: ReadonlyArray<Decoder<unknown>>;
+      readonly rest?: Decoder<unknown>;
+    }
+  | {
+      readonly kind: 'one-of' | 'all-of';
+      readonly decoderName: string;
+      readonly members: ReadonlyArray<Decoder<unknown>>;
+    }
+  | {
+      readonly kind: 'discriminated-union';
+      readonly decoderName: string;
+      readonly tag: string;
+      readonly members: { readonly [tag: string]: Decoder<unknown> };
+    }
+  | {
+      readonly kind:
+        | 'optional'
+        | 'exact-optional'
+        | 'nullable'
+        | 'map'
+        | 'flat-map';
+      readonly decoder: Decoder<unknown>;
+    }
+  | {
+      readonly kind: 'fallback';
+      readonly decoder: Decoder<unknown>;
+      readonly defaultValue: unknown;
+    }
+  | {
+      readonly kind: 'with-default';
+      readonly decoder: Decoder<unknown>;
+      readonly getDefault: () => unknown;
+      readonly nullAsMissing: boolean;
+    }
+  | { readonly kind: 'lazy'; readonly resolve: () => Decoder<unknown> }
+  | { readonly kind: 'constant'; readonly value: unknown }
+  | { readonly kind: 'fail'; readonly message: string }
+  | { readonly kind: 'succeed' | 'empty-object' | 'custom' };
+
+/**
+ * The kind of a {@link DecoderDescriptor}.
+ */
+export type DecoderKind = DecoderDescriptor['kind'];
+
+/**
+ * A decoder contained in another decoder, with the key it is found at:
+ * the property name for `object` fields, the index for `tuple` elements and `oneOf`/`allOf` members,
+ * and the tag value for `discriminatedUnion` members. Other children, like the `rest` decoder of a tuple, have no key.
+ */
+export interface DecoderChild {
+  readonly key?: string | number;
+  readonly decoder: Decoder<unknown>;
+}
+
+/**
+ * Lists the decoders directly contained in a decoder, in declaration order.
+ * The child of a `lazy` decoder is the decoder it resolves to.
+ *
+ * @param decoder The decoder to inspect
+ * @returns Its child decoders
+ *
+ * @example
+ * ```ts
+ * const pointDecoder = JsonDecoder.tuple([JsonDecoder.number(), JsonDecoder.number()], 'Point');
+ * JsonDecoder.decoderChildren(pointDecoder);
+ * // [{ key: 0, decoder: <number decoder> }, { key: 1, decoder: <number decoder> }]
+ * ```
+ */
+export function decoderChildren(
+  decoder: Decoder<unknown>
+): ReadonlyArray<DecoderChild> {
+  const descriptor = decoder.descriptor;
+  switch (descriptor.kind) {
+    case 'object': {
+      const fields = Object.keys(descriptor.fields).map(key => ({
+        key,
+        decoder: descriptor.fields[key].decoder
+      }));
+      return typeof descriptor.unknownKeys === 'object'
+        ? [
+            ...fields,
+            {
+              key: descriptor.unknownKeys.restKey,
+              decoder: descriptor.unknownKeys.catchall
+            }
+          ]
+        : fields;
+    }
+    case 'array':
+    case 'set':
+      return [{ decoder: descriptor.element }];
+    case 'record':
+    case 'map-collection':
+      return descriptor.key === undefined
+        ? [{ decoder: descriptor.element }]
+        : [{ decoder: descriptor.key }, { decoder: descriptor.element }];
+    case 'tuple': {
+      const elements = descriptor.elements.map((element, key) => ({
+        key,
+        decoder: element
+      }));
+      return descriptor.rest === undefined
+        ? elements
+        : [...elements, { decoder: descriptor.rest }];
+    }
+    case 'one-of':
+    case 'all-of':
+      return descriptor.members.map((member, key) => ({
+        key,
+        decoder: member
+      }));
+    case 'discriminated-union':
+      return Object.keys(descriptor.members).map(key => ({
+        key,
+        decoder: descriptor.members[key]
+      }));
+    case 'optional':
+    case 'exact-optional':
+    case 'nullable':
+    case 'map':
+    case 'flat-map':
+    case 'fallback':
+    case 'with-default':
+      return [{ decoder: descriptor.decoder }];
+    case 'lazy':
+      return [{ decoder: descriptor.resolve() }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Walks a tree of decoders depth-first, calling `visit` with each decoder before its children.
+ * Each decoder is visited once, so recursive (`lazy`) decoders are supported.
+ *
+ * @param decoder The root decoder
+ * @param visit Called with each decoder and the chain of its parents, from the root
+ *
+ * @example
+ * ```ts
+ * // Collect the names of all the object decoders
+ * const names: string[] = [];
+ * JsonDecoder.walkDecoder(userDecoder, decoder => {
+ *   if (decoder.descriptor.kind === 'object') {
+ *     names.push(decoder.descriptor.decoderName);
+ *   }
+ * });
+ * ```
+ */
+export function walkDecoder(
+  decoder: Decoder<unknown>,
+  visit: (
+    decoder: Decoder<unknown>,
+    parents: ReadonlyArray<Decoder<unknown>>
+  ) => void
+): void {
+  const visited = new Set<Decoder<unknown>>();
+  const walk = (
+    current: Decoder<unknown>,
+    parents: ReadonlyArray<Decoder<unknown>>
+  ): void => {
+    if (visited.has(current)) {
+      return;
+    }
+    visited.add(current);
+    visit(current, parents);
+    for (const child of decoderChildren(current)) {
+      walk(child.decoder, [...parents, current]);
+    }
+  };
+  walk(decoder, []);
+}
@@ -0,0 +1,20 @@
+/**
+ * Sets a key decoded from JSON as an own property, so that a `"__proto__"` key
+ * doesn't replace the prototype of the target.
+ * @param target The object to set the key on
+ * @param key The key
+ * @param value The value
+ * @internal
+ */
+export const defineKey = (
+  target: object,
+  key: string,
+  value: unknown
+): void => {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true
+  });
+};
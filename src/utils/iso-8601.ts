@@ -0,0 +1,148 @@
+/**
+ * The fields of an ISO 8601 calendar date.
+ * @internal
+ */
+export interface IsoDateFields {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * The fields of an ISO 8601 time of day.
+ * @internal
+ */
+export interface IsoTimeFields {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+/**
+ * The fields of an ISO 8601 date and time, with the offset from UTC in minutes when it has one.
+ * @internal
+ */
+export interface IsoDateTimeFields extends IsoDateFields, IsoTimeFields {
+  offsetMinutes: number | undefined;
+}
+
+/**
+ * Parses an ISO 8601 calendar date, `YYYY-MM-DD`.
+ * @param str The string to parse
+ * @returns The date fields, or a description of the field that is wrong
+ * @internal
+ */
+export const parseIsoDate = (str: string): IsoDateFields | string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(str);
+  if (match === null) {
+    return 'expected YYYY-MM-DD';
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  if (month < 1 || month > 12) {
+    return `month ${match[2]} is out of range`;
+  }
+  if (day < 1 || day > daysIn(year, month)) {
+    return `day ${match[3]} is out of range for ${match[1]}-${match[2]}`;
+  }
+  return { year, month, day };
+};
+
+/**
+ * Parses an ISO 8601 time of day, `HH:mm:ss[.sss]`, where the seconds are optional
+ * unless `requireSeconds` is set.
+ * @param str The string to parse
+ * @param requireSeconds Whether `HH:mm` is rejected
+ * @returns The time fields, or a description of the field that is wrong
+ * @internal
+ */
+export const parseIsoTime = (
+  str: string,
+  requireSeconds = false
+): IsoTimeFields | string => {
+  const match = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?$/.exec(str);
+  if (match === null || (requireSeconds && match[3] === undefined)) {
+    return requireSeconds ? 'expected HH:mm:ss' : 'expected HH:mm[:ss]';
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = match[3] === undefined ? 0 : Number(match[3]);
+  if (hours > 23) {
+    return `hour ${match[1]} is out of range`;
+  }
+  if (minutes > 59) {
+    return `minute ${match[2]} is out of range`;
+  }
+  if (seconds > 59) {
+    return `second ${match[3]} is out of range`;
+  }
+  const milliseconds =
+    match[4] === undefined ? 0 : Math.floor(Number(`0.${match[4]}`) * 1000);
+  return { hours, minutes, seconds, milliseconds };
+};
+
+/**
+ * Parses an ISO 8601 date and time, `YYYY-MM-DDTHH:mm:ss[.sss][Z|±HH:mm]`.
+ * @param str The string to parse
+ * @returns The date and time fields, or a description of the field that is wrong
+ * @internal
+ */
+export const parseIsoDateTime = (str: string): IsoDateTimeFields | string => {
+  const match = /^([^Tt]*)[Tt](.*?)([Zz]|[+-]\d{2}:\d{2})?$/.exec(str);
+  if (match === null) {
+    return 'expected YYYY-MM-DDTHH:mm:ss';
+  }
+  const date = parseIsoDate(match[1]);
+  if (typeof date === 'string') {
+    return date;
+  }
+  const time = parseIsoTime(match[2], true);
+  if (typeof time === 'string') {
+    return time;
+  }
+  const offset = match[3];
+  if (offset === undefined || offset.toUpperCase() === 'Z') {
+    return {
+      ...date,
+      ...time,
+      offsetMinutes: offset === undefined ? undefined : 0
+    };
+  }
+  const offsetHours = Number(offset.slice(1, 3));
+  const offsetMinutes = Number(offset.slice(4));
+  if (offsetHours > 23 || offsetMinutes > 59) {
+    return `offset ${offset} is out of range`;
+  }
+  return {
+    ...date,
+    ...time,
+    offsetMinutes:
+      (offset[0] === '-' ? -1 : 1) * (offsetHours * 60 + offsetMinutes)
+  };
+};
+
+/**
+ * Builds the `Date` of parsed fields. Dates without an offset are read as UTC.
+ * @internal
+ */
+export const toDate = (
+  fields: IsoDateFields & Partial<IsoDateTimeFields>
+): Date => {
+  const date = new Date(0);
+  // setUTCFullYear, unlike Date.UTC, doesn't map the years 0 to 99 to 1900 to 1999
+  date.setUTCFullYear(fields.year, fields.month - 1, fields.day);
+  date.setUTCHours(
+    fields.hours ?? 0,
+    (fields.minutes ?? 0) - (fields.offsetMinutes ?? 0),
+    fields.seconds ?? 0,
+    fields.milliseconds ?? 0
+  );
+  return date;
+};
+
+function daysIn(year: number, month: number): number {
+  if (month === 2) {
+    return year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0) ? 29 : 28;
+  }
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
@@ -0,0 +1,101 @@
+import { Codec, Decoder, type DecodeOptions } from '../core';
+import type { KeyedDecodeError } from '../errors/error-list';
+import { prependPath } from './decode-error';
+
+/**
+ * The fields of an object decoder, each with the JSON key it reads from.
+ * @internal
+ */
+export type ObjectFields = {
+  readonly [key: string]: {
+    readonly fromKey: string;
+    readonly decoder: Decoder<unknown>;
+  };
+};
+
+/**
+ * Reads the field decoders given to `object` or `objectStrict`, where the JSON key
+ * of a field is its name unless it has a `fromKey`.
+ * @param decoders The field decoders
+ * @returns The fields, with their JSON key
+ * @internal
+ */
+export const objectFields = (decoders: {
+  readonly [key: string]:
+    | Decoder<unknown>
+    | { readonly fromKey: string; readonly decoder: Decoder<unknown> };
+}): ObjectFields => {
+  const fields: {
+    [key: string]: { fromKey: string; decoder: Decoder<unknown> };
+  } = {};
+  for (const key in decoders) {
+    if (Object.prototype.hasOwnProperty.call(decoders, key)) {
+      const decoderObject = decoders[key];
+      fields[key] =
+        decoderObject instanceof Decoder
+          ? { fromKey: key, decoder: decoderObject }
+          : decoderObject;
+    }
+  }
+  return fields;
+};
+
+/**
+ * Decodes the fields of a JSON object, as `object` and `objectStrict` do.
+ * Missing keys stay missing, unless their decoder gives them a value.
+ *
+ * @param json The JSON object
+ * @param fields The fields to decode
+ * @param options The decode options. Decoding stops at the first failing field unless `allErrors` is set
+ * @param result The decoded object, that receives the decoded fields
+ * @param failures The failures, that receive the ones of the fields, located at their JSON key
+ * @internal
+ */
+export const decodeFields = (
+  json: any,
+  fields: ObjectFields,
+  options: DecodeOptions,
+  result: { [key: string]: unknown },
+  failures: KeyedDecodeError<string>[]
+): void => {
+  for (const key in fields) {
+    const { fromKey, decoder } = fields[key];
+    const present = Object.prototype.hasOwnProperty.call(json, fromKey);
+    if (!present && decoder.descriptor.kind === 'exact-optional') {
+      continue;
+    }
+    const r = decoder.decode(json[fromKey], options);
+    if (r.isOk()) {
+      if (present || r.value !== undefined) {
+        result[key] = r.value;
+      }
+    } else {
+      failures.push({ key, error: prependPath(r.error, fromKey) });
+      if (!options.allErrors) {
+        break;
+      }
+    }
+  }
+};
+
+/**
+ * Encodes the fields of a value with their codecs, leaving out the fields encoded as `undefined`.
+ *
+ * @param value The value to encode
+ * @param fields The fields to encode, whose decoders are codecs
+ * @param json The JSON object, that receives the encoded fields at their JSON key
+ * @internal
+ */
+export const encodeFields = (
+  value: { readonly [key: string]: unknown },
+  fields: ObjectFields,
+  json: { [key: string]: unknown }
+): void => {
+  for (const key in fields) {
+    const { fromKey, decoder } = fields[key];
+    const encoded = (decoder as Codec<unknown, unknown>).encode(value[key]);
+    if (encoded !== undefined) {
+      json[fromKey] = encoded;
+    }
+  }
+};
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { Ok, ok, err } from './result';
+import { Err, Ok, ok, err } from './result';
 
 describe('Result', () => {
   const toUpper = (str: string) => str.toUpperCase();
@@ -20,6 +20,11 @@ describe('Result', () => {
     it('should wrap the error', () => {
       expect(err('Wrong!')).to.deep.equal(err('Wrong!'));
     });
+    it('should wrap error messages in a custom DecodeError', () => {
+      expect(err('Wrong!')).to.deep.equal(
+        new Err({ kind: 'custom', path: [], message: 'Wrong!', causes: [] })
+      );
+    });
     it('should keep the first error while mapping', () => {
       expect(err<string>('Wrong').map(toUpper).map(exclamation)).to.deep.equal(
         err('Wrong')
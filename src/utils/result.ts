@@ -5,6 +5,8 @@
  * @category Api docs
  */
 
+import { decodeError, type DecodeError } from './decode-error';
+
 /**
  * A type-safe way to handle success and error cases.
  * The Result type is used throughout the library to handle decoding results.
@@ -58,24 +60,24 @@ export class Ok<T> {
 }
 
 /**
- * Represents a failed operation with an error message.
+ * Represents a failed operation with a structured error.
  *
  * @typeParam T - The type that would have been returned if successful
  */
 export class Err<T> {
   /**
-   * Creates a new Err instance containing an error message.
-   * @param error - The error message describing what went wrong
+   * Creates a new Err instance containing a structured error.
+   * @param error - The error describing what went wrong
    */
-  constructor(readonly error: string) {}
+  constructor(readonly error: DecodeError) {}
 
   /**
-   * Returns a new Err with the same error message but a different type parameter.
+   * Returns a new Err with the same error but a different type parameter.
    * Since this represents an error, the transform function is never called.
    *
    * @typeParam O - The new type parameter
    * @param _fn - The function that would have transformed the value (ignored)
-   * @returns A new Err with the same error message
+   * @returns A new Err with the same error
    *
    * @example
    * ```typescript
@@ -99,7 +101,7 @@ export class Err<T> {
    * const result: Result<number> = err("Invalid input");
    * if (!result.isOk()) {
    *   // TypeScript knows result.error exists here
-   *   console.log(result.error);
+   *   console.log(result.error.message);
    * }
    * ```
    */
@@ -135,17 +137,22 @@ export function ok<T>(value: T): Result<T> {
 
 /**
  * Creates a new Err instance representing a failed operation.
+ * Error messages are wrapped in a `custom` DecodeError.
  *
  * @typeParam T - The type that would have been returned if successful
- * @param error - The error message describing what went wrong
- * @returns A Result containing the error message
+ * @param error - The error message, or the structured error, describing what went wrong
+ * @returns A Result containing the error
  *
  * @example
  * ```typescript
  * const result = JsonDecoder.err<number>("Invalid number");
- * // result = Err("Invalid number")
+ * // result = Err({ kind: 'custom', message: "Invalid number", path: [], causes: [] })
  * ```
  */
-export function err<T>(error: string): Result<T> {
-  return new Err<T>(error);
+export function err<T>(error: string | DecodeError): Result<T> {
+  return new Err<T>(
+    typeof error === 'string'
+      ? decodeError({ kind: 'custom', message: error })
+      : error
+  );
 }
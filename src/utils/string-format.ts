@@ -0,0 +1,153 @@
+import { parseIsoDate, parseIsoDateTime } from './iso-8601';
+
+/**
+ * The well-known formats that the `string` decoder can check:
+ * - `email`: an email address, `local@example.com`
+ * - `uuid`: a UUID of any version, `123e4567-e89b-12d3-a456-426614174000`
+ * - `url`: an absolute URL with a scheme and a host, `https://example.com/path?q=1`
+ * - `uri`: an absolute URI, which only needs a scheme, `mailto:ada@example.com` or `urn:isbn:0451450523`
+ * - `hostname`: a DNS host name, `api.example.com`
+ * - `ipv4`, `ipv6`: an IP address, `192.168.0.1` or `2001:db8::1`
+ * - `date`: an ISO 8601 calendar date, `2024-02-29`
+ * - `date-time`: an ISO 8601 date and time with an offset, `2024-02-29T13:45:00.000Z`
+ * - `base64`: a padded base64 string, `aGVsbG8=`
+ */
+export type StringFormat =
+  | 'email'
+  | 'uuid'
+  | 'url'
+  | 'uri'
+  | 'hostname'
+  | 'ipv4'
+  | 'ipv6'
+  | 'date'
+  | 'date-time'
+  | 'base64';
+
+/**
+ * How each format is named in error messages.
+ * @internal
+ */
+export const stringFormatNames: { readonly [F in StringFormat]: string } = {
+  email: 'email address',
+  uuid: 'UUID',
+  url: 'URL',
+  uri: 'URI',
+  hostname: 'hostname',
+  ipv4: 'IPv4 address',
+  ipv6: 'IPv6 address',
+  date: 'ISO date',
+  'date-time': 'ISO date-time',
+  base64: 'base64 string'
+};
+
+/**
+ * Checks that a string is in the given format.
+ * @param format The expected format
+ * @param str The string to check
+ * @returns Whether the string is valid
+ * @internal
+ */
+export const isStringFormat = (format: StringFormat, str: string): boolean => {
+  switch (format) {
+    case 'email': {
+      const at = str.lastIndexOf('@');
+      return (
+        at > 0 &&
+        /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+$/.test(str.slice(0, at)) &&
+        isHostname(str.slice(at + 1)) &&
+        str.slice(at + 1).includes('.')
+      );
+    }
+    case 'uuid':
+      return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+        str
+      );
+    case 'url':
+      return /^[a-z][a-z0-9+.-]*:\/\/[^\s/?#]+[^\s]*$/i.test(str);
+    case 'uri':
+      return /^[a-z][a-z0-9+.-]*:[^\s]*$/i.test(str);
+    case 'hostname':
+      return isHostname(str);
+    case 'ipv4':
+      return isIpv4(str);
+    case 'ipv6':
+      return isIpv6(str);
+    case 'date':
+      return typeof parseIsoDate(str) !== 'string';
+    case 'date-time': {
+      const fields = parseIsoDateTime(str);
+      return typeof fields !== 'string' && fields.offsetMinutes !== undefined;
+    }
+    case 'base64':
+      return /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(
+        str
+      );
+  }
+};
+
+/**
+ * Decimal number literals, such as `42`, `-1.5` or `1e3`.
+ * @internal
+ */
+export const numberStringPattern =
+  /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Integer literals of any size, such as `-42` or `9007199254740993`.
+ * @internal
+ */
+export const integerStringPattern = /^[+-]?\d+$/;
+
+/**
+ * The strings accepted by `coerce.boolean`, with their value.
+ * @internal
+ */
+export const booleanStrings: { readonly [str: string]: boolean } = {
+  true: true,
+  false: false,
+  '1': true,
+  '0': false
+};
+
+function isHostname(str: string): boolean {
+  return (
+    str.length <= 253 &&
+    str
+      .split('.')
+      .every(label =>
+        /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/.test(label)
+      )
+  );
+}
+
+function isIpv4(str: string): boolean {
+  const parts = str.split('.');
+  return (
+    parts.length === 4 &&
+    parts.every(
+      part => /^(?:0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255
+    )
+  );
+}
+
+function isIpv6(str: string): boolean {
+  const halves = str.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+  const groups = halves.map(half => (half === '' ? [] : half.split(':')));
+  const last = groups[groups.length - 1];
+  // An embedded IPv4 address counts as two groups, e.g. `::ffff:192.168.0.1`
+  const count =
+    groups.flat().length +
+    (last.length > 0 && last[last.length - 1].includes('.') ? 1 : 0);
+  const valid = groups.every((group, i) =>
+    group.every((part, j) =>
+      i === groups.length - 1 && j === group.length - 1 && part.includes('.')
+        ? isIpv4(part)
+        : /^[0-9a-f]{1,4}$/i.test(part)
+    )
+  );
+  return valid && (halves.length === 2 ? count <= 7 : count === 8);
+}